@@ -0,0 +1,197 @@
+#!/usr/bin/env node
+/**
+ * Binarization Benchmark
+ *
+ * Times the thresholding operators of src/utils/imageOperators.ts on a
+ * synthetic scan: dark glyph strokes on paper whose brightness falls off
+ * across the sheet, as on an unevenly lit flatbed or camera scan. Local
+ * thresholds (adaptive, Niblack, Sauvola, Wolf) use integral images and
+ * cost O(1) per pixel; the brute-force Sauvola baseline sums every window
+ * and is timed on a strip of rows, then scaled to the full sheet.
+ *
+ * Accuracy is the share of pixels that match the ink mask the scan was
+ * drawn from, and the F-measure of the ink pixels.
+ *
+ * Usage:
+ *   node scripts/benchmark-binarization.mjs [--width 6000] [--height 4000] [--block 25] [--brute-rows 40]
+ */
+
+import { createServer } from 'vite';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const rootDir = join(dirname(fileURLToPath(import.meta.url)), '..');
+
+function parseArgs(argv) {
+  const options = { width: 6000, height: 4000, block: 25, bruteRows: 40 };
+  const flags = { '--width': 'width', '--height': 'height', '--block': 'block', '--brute-rows': 'bruteRows' };
+
+  for (let i = 0; i < argv.length; i += 2) {
+    const key = flags[argv[i]];
+    if (!key) throw new Error(`Unknown argument: ${argv[i]}`);
+    options[key] = Number(argv[i + 1]);
+  }
+
+  for (const [key, value] of Object.entries(options)) {
+    if (!Number.isInteger(value) || value <= 0) throw new Error(`--${key} must be a positive integer`);
+  }
+  return options;
+}
+
+// Node has no ImageData; the operators only need the constructor and its fields
+class NodeImageData {
+  constructor(data, width, height) {
+    this.data = data;
+    this.width = width;
+    this.height = height;
+  }
+}
+
+/**
+ * Glyph-like strokes (bars and boxes in a text-line grid) on paper lit from one corner
+ */
+function syntheticScan(width, height) {
+  const data = new Uint8ClampedArray(width * height * 4);
+  const ink = new Uint8Array(width * height);
+  let seed = 7;
+  const random = () => {
+    seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+  };
+
+  // Text lines of 30 px glyphs; strokes 3 px wide
+  for (let top = 20; top + 30 < height; top += 60) {
+    for (let left = 20; left + 20 < width; left += 28) {
+      if (random() < 0.3) continue; // Word gaps
+      const shape = Math.floor(random() * 3);
+      for (let y = top; y < top + 30; y++) {
+        for (let x = left; x < left + 18; x++) {
+          const onStroke =
+            shape === 0 ? x < left + 3 :                                       // Bar
+            shape === 1 ? x < left + 3 || x >= left + 15 || y < top + 3 :      // Arch
+            x < left + 3 || x >= left + 15 || y < top + 3 || y >= top + 27;    // Box
+          if (onStroke) ink[y * width + x] = 1;
+        }
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      // Paper from 235 down to 95, ink 70 levels darker than the paper around it
+      const paper = 235 - 140 * ((x / width + y / height) / 2);
+      const value = ink[p] ? paper - 70 : paper;
+      const noise = (random() - 0.5) * 16;
+      data[p * 4] = data[p * 4 + 1] = data[p * 4 + 2] = value + noise;
+      data[p * 4 + 3] = 255;
+    }
+  }
+
+  return { image: new NodeImageData(data, width, height), ink };
+}
+
+/**
+ * Sauvola by summing every window directly (the pre-integral-image approach)
+ */
+function bruteForceSauvola(gray, width, rows, blockSize, k, range) {
+  const half = Math.floor(blockSize / 2);
+  const height = gray.length / width;
+  const output = new Uint8Array(rows * width);
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      let squared = 0;
+      let count = 0;
+      for (let wy = Math.max(0, y - half); wy <= Math.min(height - 1, y + half); wy++) {
+        for (let wx = Math.max(0, x - half); wx <= Math.min(width - 1, x + half); wx++) {
+          const value = gray[wy * width + wx];
+          sum += value;
+          squared += value * value;
+          count++;
+        }
+      }
+      const mean = sum / count;
+      const deviation = Math.sqrt(Math.max(0, squared / count - mean * mean));
+      output[y * width + x] = gray[y * width + x] < mean * (1 + k * (deviation / range - 1)) ? 0 : 255;
+    }
+  }
+  return output;
+}
+
+function score(result, ink) {
+  let correct = 0;
+  let truePositive = 0;
+  let detected = 0;
+  let actual = 0;
+  for (let p = 0; p < ink.length; p++) {
+    const isInk = result.data[p * 4] === 0;
+    if (isInk === (ink[p] === 1)) correct++;
+    if (isInk) detected++;
+    if (ink[p]) actual++;
+    if (isInk && ink[p]) truePositive++;
+  }
+  const precision = detected ? truePositive / detected : 0;
+  const recall = actual ? truePositive / actual : 0;
+  const fMeasure = precision + recall ? (2 * precision * recall) / (precision + recall) : 0;
+  return { accuracy: correct / ink.length, fMeasure };
+}
+
+function time(run) {
+  const start = performance.now();
+  const result = run();
+  return { result, seconds: (performance.now() - start) / 1000 };
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  globalThis.ImageData = NodeImageData;
+
+  const server = await createServer({
+    root: rootDir,
+    logLevel: 'error',
+    appType: 'custom',
+    server: { middlewareMode: true, hmr: false }
+  });
+
+  try {
+    const operators = await server.ssrLoadModule('/src/utils/imageOperators.ts');
+    const { width, height, block, bruteRows } = options;
+    console.log(`Synthetic scan ${width}x${height}, ${block}x${block} windows`);
+    const { image, ink } = syntheticScan(width, height);
+
+    const methods = [
+      ['otsu (global)', () => operators.otsu(image)],
+      ['adaptive', () => operators.adaptiveThreshold(image, block, 10)],
+      ['niblack', () => operators.niblack(image, block)],
+      ['sauvola', () => operators.sauvola(image, block)],
+      ['wolf', () => operators.wolf(image, block)]
+    ];
+
+    const rows = [];
+    let sauvolaSeconds = 0;
+    for (const [name, run] of methods) {
+      const { result, seconds } = time(run);
+      const { accuracy, fMeasure } = score(result, ink);
+      if (name === 'sauvola') sauvolaSeconds = seconds;
+      rows.push({ method: name, seconds: seconds.toFixed(2), accuracy: accuracy.toFixed(4), 'ink F-measure': fMeasure.toFixed(4) });
+    }
+
+    // Brute force on a strip, scaled to the sheet
+    const stripRows = Math.min(bruteRows, height);
+    const gray = operators.luminance(image);
+    const { seconds: stripSeconds } = time(() => bruteForceSauvola(gray, width, stripRows, block, 0.34, 128));
+    const bruteSeconds = (stripSeconds * height) / stripRows;
+    rows.push({ method: `sauvola brute force (est. from ${stripRows} rows)`, seconds: bruteSeconds.toFixed(2), accuracy: '-', 'ink F-measure': '-' });
+
+    console.table(rows);
+    console.log(`Integral-image Sauvola is ${(bruteSeconds / sauvolaSeconds).toFixed(1)}x faster than brute force`);
+  } finally {
+    await server.close();
+  }
+}
+
+main().catch(error => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+/**
+ * Mock OCR Server
+ *
+ * Local stand-in for PaddleOCR-style OCR servers. It replays recorded
+ * responses so the HTTP adapter (src/utils/httpOCRAdapter.ts) can be
+ * exercised offline.
+ *
+ * Routes: POST /ocr and POST /<engine>/ocr (e.g. /paddleocr/ocr, /easyocr/ocr)
+ *
+ * A request is answered with the first fixture that exists:
+ *   <fixtures>/<engine>/<sha256 of image>.json
+ *   <fixtures>/<engine>/default.json
+ *   <fixtures>/default.json
+ *
+ * With --record <upstream base URL> requests are forwarded to a real server
+ * and its answers are written as <engine>/<sha256>.json for later replay.
+ *
+ * Usage:
+ *   node scripts/mock-ocr-server.mjs [--port 8866] [--fixtures dir] [--record url]
+ *   VITE_PADDLEOCR_URL=http://localhost:8866/paddleocr
+ *   VITE_EASYOCR_URL=http://localhost:8866/easyocr
+ */
+
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const scriptDir = dirname(fileURLToPath(import.meta.url));
+
+function parseArgs(argv) {
+  const options = {
+    port: 8866,
+    fixtures: join(scriptDir, 'fixtures', 'ocr-server'),
+    record: null
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const value = argv[i + 1];
+    if (arg === '--port') {
+      options.port = Number(value);
+      i++;
+    } else if (arg === '--fixtures') {
+      options.fixtures = resolve(value);
+      i++;
+    } else if (arg === '--record') {
+      options.record = value.replace(/\/+$/, '');
+      i++;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!Number.isInteger(options.port) || options.port <= 0) {
+    throw new Error('--port must be a positive integer');
+  }
+  return options;
+}
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization'
+};
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...CORS_HEADERS });
+  res.end(JSON.stringify(body));
+}
+
+async function readBody(req) {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+async function readFixture(path) {
+  try {
+    return JSON.parse(await readFile(path, 'utf8'));
+  } catch (error) {
+    if (error.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+async function replay(fixturesDir, engine, imageHash) {
+  const candidates = [
+    join(fixturesDir, engine, `${imageHash}.json`),
+    join(fixturesDir, engine, 'default.json'),
+    join(fixturesDir, 'default.json')
+  ];
+
+  for (const path of candidates) {
+    const fixture = await readFixture(path);
+    if (fixture) return { fixture, path };
+  }
+  return null;
+}
+
+async function record(options, engine, imageHash, requestBody) {
+  const upstreamPath = engine === 'default' ? '/ocr' : `/${engine}/ocr`;
+  const upstream = await fetch(options.record + upstreamPath, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: requestBody
+  });
+  const body = await upstream.json();
+
+  if (upstream.ok) {
+    const path = join(options.fixtures, engine, `${imageHash}.json`);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(body, null, 2) + '\n');
+    console.log(`Recorded ${path}`);
+  }
+  return { status: upstream.status, body };
+}
+
+function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const server = createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    const match = /^\/(?:([\w-]+)\/)?ocr\/?$/.exec(new URL(req.url, 'http://localhost').pathname);
+    if (req.method !== 'POST' || !match) {
+      send(res, 404, { error: `No route for ${req.method} ${req.url}` });
+      return;
+    }
+    const engine = match[1] ?? 'default';
+
+    try {
+      const requestBody = await readBody(req);
+      const { image } = JSON.parse(requestBody);
+      if (typeof image !== 'string' || image.length === 0) {
+        send(res, 400, { error: 'Request body must contain a base64 "image"' });
+        return;
+      }
+      const imageHash = createHash('sha256').update(image).digest('hex');
+
+      if (options.record) {
+        const { status, body } = await record(options, engine, imageHash, requestBody);
+        send(res, status, body);
+        return;
+      }
+
+      const replayed = await replay(options.fixtures, engine, imageHash);
+      if (!replayed) {
+        send(res, 404, { error: `No recorded response for ${engine} image ${imageHash}` });
+        return;
+      }
+      console.log(`${engine}: ${imageHash.slice(0, 12)} -> ${replayed.path}`);
+      send(res, 200, replayed.fixture);
+    } catch (error) {
+      console.error(error);
+      send(res, 500, { error: error.message });
+    }
+  });
+
+  server.listen(options.port, () => {
+    const mode = options.record ? `recording from ${options.record}` : `replaying ${options.fixtures}`;
+    console.log(`Mock OCR server on http://localhost:${options.port} (${mode})`);
+  });
+}
+
+main();
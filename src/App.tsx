@@ -6,6 +6,8 @@ import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
 import OCRProcessor from "./pages/OCRProcessor";
+import PreprocessingPlayground from "./pages/PreprocessingPlayground";
+import BatchProcessor from "./pages/BatchProcessor";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -19,6 +21,8 @@ const App = () => (
         <Routes>
           <Route path="/" element={<Index />} />
           <Route path="/ocr" element={<OCRProcessor />} />
+          <Route path="/playground" element={<PreprocessingPlayground />} />
+          <Route path="/batch" element={<BatchProcessor />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,96 @@
+import React, { useEffect, useState } from 'react';
+import { Palette } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { canvasToDataURL, imageDataToCanvas, imageSize, imageToCanvas, readImageData } from '@/utils/canvas';
+import { INK_LAYERS, InkLayerName, PaletteColor, layerCoverage, layerMask, separateColorLayers } from '@/utils/colorLayers';
+
+// Masks are computed on a copy at most this wide
+const PREVIEW_WIDTH = 800;
+
+// Mask of one ink layer, as shown in the grid
+interface LayerPreview {
+  layer: InkLayerName;
+  url: string;
+  coverage: number;
+}
+
+interface ColorLayerPreviewProps {
+  imageSrc: string;
+  selectedLayers: InkLayerName[];
+}
+
+const ColorLayerPreview: React.FC<ColorLayerPreviewProps> = ({ imageSrc, selectedLayers }) => {
+  const [palette, setPalette] = useState<PaletteColor[]>([]);
+  const [previews, setPreviews] = useState<LayerPreview[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const image = new Image();
+    image.onload = async () => {
+      const { width, height } = imageSize(image);
+      const scale = Math.min(1, PREVIEW_WIDTH / width);
+      const pixels = readImageData(imageToCanvas(image, Math.round(width * scale), Math.round(height * scale)));
+      const layers = separateColorLayers(pixels);
+
+      const rendered: LayerPreview[] = [];
+      for (const layer of INK_LAYERS) {
+        rendered.push({
+          layer,
+          url: await canvasToDataURL(imageDataToCanvas(layerMask(layers, [layer]))),
+          coverage: layerCoverage(layers, layer)
+        });
+      }
+      if (!cancelled) {
+        setPalette(layers.palette);
+        setPreviews(rendered);
+      }
+    };
+    image.src = imageSrc;
+
+    return () => {
+      cancelled = true;
+    };
+  }, [imageSrc]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Palette className="h-5 w-5" />
+          Colour Layers
+        </CardTitle>
+        <CardDescription>
+          Ink layers found in the map; pick the ones sent to OCR under Map-specialized OCR in the settings
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          {palette.map((color, index) => (
+            <div key={index} className="flex items-center gap-1 text-xs text-gray-600">
+              <span
+                className="inline-block h-4 w-4 rounded border"
+                style={{ backgroundColor: `rgb(${color.rgb.join(',')})` }}
+              />
+              {color.layer} {Math.round(color.share * 100)}%
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3">
+          {previews.map(preview => (
+            <figure key={preview.layer} className="border rounded-lg overflow-hidden bg-white">
+              <img src={preview.url} alt={`${preview.layer} ink layer`} className="w-full h-auto" />
+              <figcaption className="flex items-center justify-between px-2 py-1 text-xs text-gray-600 border-t">
+                <span className="font-medium">{preview.layer} ({(preview.coverage * 100).toFixed(1)}%)</span>
+                {selectedLayers.includes(preview.layer) && <Badge variant="secondary">OCR</Badge>}
+              </figcaption>
+            </figure>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ColorLayerPreview;
@@ -5,22 +5,27 @@ import { Upload, Image as ImageIcon } from 'lucide-react';
 import { Card } from '@/components/ui/card';
 
 interface ImageUploadProps {
-  onImageUpload: (file: File) => void;
+  onImageUpload?: (file: File) => void;
+  onImagesUpload?: (files: File[]) => void; // Every accepted file, including the images of dropped folders
+  multiple?: boolean;
+  acceptPdf?: boolean; // Also accept PDFs (scanned map sets)
 }
 
-const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload }) => {
+const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload, onImagesUpload, multiple = false, acceptPdf = false }) => {
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      onImageUpload(acceptedFiles[0]);
+      onImageUpload?.(acceptedFiles[0]);
+      onImagesUpload?.(acceptedFiles);
     }
-  }, [onImageUpload]);
+  }, [onImageUpload, onImagesUpload]);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
     accept: {
-      'image/*': ['.jpeg', '.jpg', '.png', '.tiff', '.bmp']
+      'image/*': ['.jpeg', '.jpg', '.png', '.tiff', '.bmp'],
+      ...(acceptPdf ? { 'application/pdf': ['.pdf'] } : {})
     },
-    multiple: false
+    multiple
   });
 
   return (
@@ -38,13 +43,17 @@ const ImageUpload: React.FC<ImageUploadProps> = ({ onImageUpload }) => {
           
           <div>
             <p className="text-lg font-medium text-gray-900">
-              {isDragActive ? 'Drop the image here' : 'Upload cadastral map'}
+              {isDragActive
+                ? multiple ? 'Drop the images or folders here' : 'Drop the image here'
+                : multiple ? 'Upload cadastral map set' : 'Upload cadastral map'}
             </p>
             <p className="text-sm text-gray-500 mt-1">
-              Drag and drop or click to select an image file
+              {multiple
+                ? 'Drag and drop sheets or whole folders, or click to select image files'
+                : 'Drag and drop or click to select an image file'}
             </p>
             <p className="text-xs text-gray-400 mt-2">
-              Supports: JPEG, PNG, TIFF, BMP
+              Supports: JPEG, PNG, TIFF, BMP{acceptPdf && ', PDF'}
             </p>
           </div>
         </div>
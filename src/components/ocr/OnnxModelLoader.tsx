@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { Cpu } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { registerOnnxOCREngine, registeredOnnxAdapter } from '@/utils/onnxOCRAdapter';
+
+interface OnnxModelLoaderProps {
+  disabled?: boolean;
+}
+
+const OnnxModelLoader: React.FC<OnnxModelLoaderProps> = ({ disabled = false }) => {
+  const [detectionFile, setDetectionFile] = useState<File | null>(null);
+  const [recognitionFile, setRecognitionFile] = useState<File | null>(null);
+  const [dictionaryFile, setDictionaryFile] = useState<File | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loaded, setLoaded] = useState(() => {
+    const adapter = registeredOnnxAdapter();
+    return adapter ? { detection: adapter.detector !== null } : null;
+  });
+  const { toast } = useToast();
+
+  const handleLoad = async () => {
+    if (!recognitionFile || !dictionaryFile) return;
+
+    setIsLoading(true);
+    try {
+      const adapter = await registerOnnxOCREngine({
+        detection: detectionFile ? await detectionFile.arrayBuffer() : undefined,
+        recognition: await recognitionFile.arrayBuffer(),
+        dictionary: await dictionaryFile.text()
+      });
+      setLoaded({ detection: adapter.detector !== null });
+      toast({
+        title: "Models Loaded",
+        description: `${recognitionFile.name}${detectionFile ? ` and ${detectionFile.name}` : ''} now serve the TrOCR engine slot.`
+      });
+    } catch (error) {
+      console.error('Loading ONNX models failed:', error);
+      toast({
+        title: "Models Not Loaded",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const fileInput = (id: string, label: string, accept: string, onSelect: (file: File | null) => void) => (
+    <div className="space-y-1">
+      <Label htmlFor={id} className="text-sm font-normal">{label}</Label>
+      <Input
+        id={id}
+        type="file"
+        accept={accept}
+        disabled={disabled || isLoading}
+        onChange={event => onSelect(event.target.files?.[0] ?? null)}
+      />
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Cpu className="h-5 w-5" />
+          Local OCR Models
+        </CardTitle>
+        <CardDescription>
+          Run your own ONNX models on the CPU: a CRNN recognizer and, optionally, a DBNet detector
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fileInput('onnx-recognition', 'Recognition model (.onnx)', '.onnx', setRecognitionFile)}
+        {fileInput('onnx-dictionary', 'Character dictionary (.txt, one per line)', '.txt,text/plain', setDictionaryFile)}
+        {fileInput('onnx-detection', 'Detection model (.onnx, optional)', '.onnx', setDetectionFile)}
+
+        <div className="flex items-center gap-2">
+          <Button
+            onClick={handleLoad}
+            disabled={disabled || isLoading || !recognitionFile || !dictionaryFile}
+            variant="outline"
+          >
+            {isLoading ? 'Loading...' : 'Load models'}
+          </Button>
+          {loaded && (
+            <Badge variant="secondary">
+              {loaded.detection ? 'Detector + recognizer loaded' : 'Recognizer loaded'}
+            </Badge>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OnnxModelLoader;
@@ -0,0 +1,136 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Plus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { OPERATOR_DEFAULTS, OPERATOR_LABELS, OPERATOR_PARAM_RANGES, OperatorName, OperatorStep, ParamRange } from '@/utils/imageOperators';
+
+// Display names of the parameters, by operator
+const PARAM_LABELS: { [N in OperatorName]: { [K in keyof (typeof OPERATOR_DEFAULTS)[N]]: string } } = {
+  grayscale: {},
+  contrast: { factor: 'Contrast factor' },
+  gaussianBlur: { sigma: 'Sigma' },
+  sharpen: {},
+  sobel: {},
+  clahe: { tileSize: 'Tile size', clipLimit: 'Clip limit' },
+  threshold: { value: 'Threshold' },
+  otsu: {},
+  adaptiveThreshold: { blockSize: 'Block size', offset: 'Offset' },
+  niblack: { blockSize: 'Block size', k: 'k (deviation weight)' },
+  sauvola: { blockSize: 'Block size', k: 'k (deviation weight)', range: 'Deviation range' },
+  wolf: { blockSize: 'Block size', k: 'k (deviation weight)' },
+  invert: {},
+  dilate: { size: 'Kernel size' },
+  erode: { size: 'Kernel size' },
+  median: { size: 'Kernel size' },
+  blackText: { threshold: 'Black threshold' },
+  inkLayers: { black: 'Black text (0/1)', red: 'Red boundaries (0/1)', blue: 'Blue water (0/1)', green: 'Green (0/1)', clusters: 'Palette colours' },
+  removeLines: { length: 'Minimum line length', angleStep: 'Angle step (degrees)', dashGap: 'Dash gap bridged' },
+  resize: { scale: 'Upscale factor', width: 'Width (0 = use factor)', height: 'Height (0 = keep aspect)' }
+};
+
+const OPERATOR_NAMES = Object.keys(OPERATOR_DEFAULTS) as OperatorName[];
+
+interface OperatorChainEditorProps {
+  steps: OperatorStep[];
+  onChange: (steps: OperatorStep[]) => void;
+}
+
+const OperatorChainEditor: React.FC<OperatorChainEditorProps> = ({ steps, onChange }) => {
+  const [newOperator, setNewOperator] = useState<OperatorName>('grayscale');
+
+  const updateParam = (index: number, key: string, value: number) => {
+    onChange(steps.map((step, i) => (
+      i === index ? { ...step, params: { ...step.params, [key]: value } } as OperatorStep : step
+    )));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const next = [...steps];
+    const [step] = next.splice(index, 1);
+    next.splice(index + offset, 0, step);
+    onChange(next);
+  };
+
+  const removeStep = (index: number) => {
+    onChange(steps.filter((_, i) => i !== index));
+  };
+
+  const addStep = () => {
+    onChange([...steps, { op: newOperator } as OperatorStep]);
+  };
+
+  return (
+    <div className="space-y-3">
+      {steps.length === 0 && (
+        <p className="text-sm text-gray-500">No steps yet: add an operator below or load a preset.</p>
+      )}
+
+      {steps.map((step, index) => {
+        const ranges: Record<string, ParamRange> = OPERATOR_PARAM_RANGES[step.op];
+        const labels: Record<string, string> = PARAM_LABELS[step.op];
+        const values: Record<string, number | undefined> = { ...OPERATOR_DEFAULTS[step.op], ...step.params };
+
+        return (
+          <div key={index} className="border rounded-lg p-3 space-y-2">
+            <div className="flex items-center justify-between">
+              <span className="text-sm font-medium">{index + 1}. {OPERATOR_LABELS[step.op]}</span>
+              <div className="flex gap-1">
+                <Button variant="ghost" size="sm" onClick={() => moveStep(index, -1)} disabled={index === 0} aria-label="Move step up">
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1} aria-label="Move step down">
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => removeStep(index)} aria-label="Remove step">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {Object.entries(ranges).map(([key, range]) => {
+              const id = `step-${index}-${key}`;
+              const value = values[key] ?? range.min;
+              return (
+                <div key={key} className="space-y-1">
+                  <div className="flex justify-between">
+                    <Label htmlFor={id} className="text-xs font-normal">{labels[key]}</Label>
+                    <span className="text-xs text-gray-500">{value}</span>
+                  </div>
+                  <Slider
+                    id={id}
+                    min={range.min}
+                    max={range.max}
+                    step={range.step}
+                    value={[value]}
+                    onValueChange={([next]) => updateParam(index, key, next)}
+                  />
+                </div>
+              );
+            })}
+          </div>
+        );
+      })}
+
+      <div className="flex gap-2">
+        <Select value={newOperator} onValueChange={value => setNewOperator(value as OperatorName)}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {OPERATOR_NAMES.map(name => (
+              <SelectItem key={name} value={name}>{OPERATOR_LABELS[name]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button onClick={addStep} variant="outline">
+          <Plus className="h-4 w-4 mr-2" />
+          Add step
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default OperatorChainEditor;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { FileText } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { PDF_DPI_OPTIONS } from '@/utils/pdfRasterizer';
+
+interface PdfPageOptionsProps {
+  pages: string;      // Page selection like "1-3, 5", or the page number when `single`
+  dpi: number;
+  pageCount?: number; // Pages of the opened PDF, when there is one
+  single?: boolean;   // Pick one page instead of a selection
+  disabled?: boolean;
+  error?: string;     // Problem with the page selection
+  onPagesChange: (pages: string) => void;
+  onDpiChange: (dpi: number) => void;
+}
+
+const PdfPageOptions: React.FC<PdfPageOptionsProps> = ({
+  pages,
+  dpi,
+  pageCount,
+  single = false,
+  disabled = false,
+  error,
+  onPagesChange,
+  onDpiChange
+}) => {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <FileText className="h-5 w-5" />
+          PDF Pages
+        </CardTitle>
+        <CardDescription>
+          {single
+            ? 'Each page is one sheet; pick the page to process and the resolution it is rendered at'
+            : 'Each selected page of every PDF is queued as a sheet, rendered at the chosen resolution'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-2 gap-4">
+        <div className="space-y-1">
+          <Label htmlFor="pdf-pages">
+            {single ? 'Page' : 'Pages'}{pageCount !== undefined && ` (of ${pageCount})`}
+          </Label>
+          {single ? (
+            <Input
+              id="pdf-pages"
+              type="number"
+              min={1}
+              max={pageCount}
+              value={pages}
+              disabled={disabled}
+              onChange={event => onPagesChange(event.target.value)}
+            />
+          ) : (
+            <Input
+              id="pdf-pages"
+              placeholder="All, or e.g. 1-3, 5"
+              value={pages}
+              disabled={disabled}
+              onChange={event => onPagesChange(event.target.value)}
+            />
+          )}
+          {error && <p className="text-xs text-red-600">{error}</p>}
+        </div>
+        <div className="space-y-1">
+          <Label>Resolution</Label>
+          <Select value={String(dpi)} onValueChange={value => onDpiChange(Number(value))} disabled={disabled}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PDF_DPI_OPTIONS.map(option => (
+                <SelectItem key={option} value={String(option)}>{option} DPI</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PdfPageOptions;
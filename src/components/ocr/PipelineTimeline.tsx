@@ -0,0 +1,128 @@
+import React from 'react';
+import { CheckCircle2, Circle, Loader2, MinusCircle, XCircle } from 'lucide-react';
+import { Progress } from '@/components/ui/progress';
+import { PIPELINE_STAGES, PipelineEvent, PipelineStageName, WorkProgress } from '@/utils/pipelineDefinition';
+
+type StageStatus = 'pending' | 'running' | 'done' | 'failed' | 'skipped';
+
+// One row of the timeline, folded from the events of its stage
+interface StageRow {
+  stage: PipelineStageName;
+  label: string;
+  status: StageStatus;
+  durationMs?: number;
+  message?: string;                           // Failure message or skip reason
+  skippedSteps?: string[];                    // Steps the stage skipped, with the reason
+  work?: WorkProgress & { etaMs?: number };   // Latest work reported by the stage
+}
+
+interface PipelineTimelineProps {
+  events: PipelineEvent[];
+  stopped: boolean; // The run is over: stages still running or pending were cut off (a cancelled worker sends no events)
+}
+
+/**
+ * Fold the events of a run into one row per stage
+ */
+function buildTimeline(events: PipelineEvent[], stopped: boolean): StageRow[] {
+  const rows = new Map<PipelineStageName, StageRow>(
+    PIPELINE_STAGES.map(stage => [stage, { stage, label: stage.charAt(0).toUpperCase() + stage.slice(1), status: 'pending' }])
+  );
+
+  for (const event of events) {
+    const row = rows.get(event.stage)!;
+    switch (event.type) {
+      case 'stage-started':
+        Object.assign(row, { label: event.label, status: 'running' });
+        break;
+      case 'stage-finished':
+        Object.assign(row, { label: event.label, status: 'done', durationMs: event.durationMs });
+        break;
+      case 'stage-failed':
+        Object.assign(row, {
+          label: event.label,
+          status: 'failed',
+          durationMs: event.durationMs,
+          message: event.aborted ? 'Cancelled' : event.message
+        });
+        break;
+      case 'stage-skipped':
+        if (event.step) {
+          row.skippedSteps = [...(row.skippedSteps ?? []), `${event.step}: ${event.reason}`];
+        } else {
+          Object.assign(row, { label: event.label, status: 'skipped', message: event.reason });
+        }
+        break;
+      case 'work-progress':
+        row.work = {
+          task: event.task,
+          done: event.done,
+          total: event.total,
+          unit: event.unit,
+          engine: event.engine,
+          etaMs: event.etaMs
+        };
+        break;
+    }
+  }
+
+  if (stopped) {
+    for (const row of rows.values()) {
+      if (row.status === 'running') Object.assign(row, { status: 'failed', message: 'Stopped' });
+      else if (row.status === 'pending') Object.assign(row, { status: 'skipped', message: 'Not run' });
+    }
+  }
+  return [...rows.values()];
+}
+
+function formatSeconds(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
+
+const STATUS_ICONS: Record<StageStatus, React.ReactNode> = {
+  pending: <Circle className="h-4 w-4 text-gray-300" />,
+  running: <Loader2 className="h-4 w-4 text-blue-500 animate-spin" />,
+  done: <CheckCircle2 className="h-4 w-4 text-green-500" />,
+  failed: <XCircle className="h-4 w-4 text-red-500" />,
+  skipped: <MinusCircle className="h-4 w-4 text-gray-400" />
+};
+
+const PipelineTimeline: React.FC<PipelineTimelineProps> = ({ events, stopped }) => {
+  const rows = buildTimeline(events, stopped);
+
+  return (
+    <ol className="space-y-2 text-sm">
+      {rows.map(row => (
+        <li key={row.stage} className="space-y-1">
+          <div className="flex items-center gap-2">
+            {STATUS_ICONS[row.status]}
+            <span className={row.status === 'pending' || row.status === 'skipped' ? 'text-gray-400' : ''}>
+              {row.label}
+            </span>
+            <span className="ml-auto text-xs text-gray-500">
+              {row.durationMs !== undefined ? formatSeconds(row.durationMs) : row.status === 'running' ? 'running' : ''}
+            </span>
+          </div>
+          {row.message && (
+            <p className={`ml-6 text-xs ${row.status === 'failed' ? 'text-red-600' : 'text-gray-500'}`}>{row.message}</p>
+          )}
+          {row.skippedSteps?.map(step => (
+            <p key={step} className="ml-6 text-xs text-gray-400">Skipped {step}</p>
+          ))}
+          {row.status === 'running' && row.work && row.work.total > 0 && (
+            <div className="ml-6 space-y-1">
+              <Progress value={(row.work.done / row.work.total) * 100} className="h-1.5" />
+              <p className="text-xs text-gray-500">
+                {row.work.task}: {row.work.done}/{row.work.total} {row.work.unit}
+                {row.work.engine && ` · ${row.work.engine}`}
+                {row.work.etaMs !== undefined && ` · about ${formatSeconds(row.work.etaMs)} left`}
+              </p>
+            </div>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default PipelineTimeline;
@@ -4,19 +4,24 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Clock, Target, Zap } from 'lucide-react';
 import { OCRResult } from '@/pages/OCRProcessor';
+import { PRESETS } from '@/utils/imageQuality';
+import { PipelineEvent } from '@/utils/pipelineDefinition';
+import PipelineTimeline from './PipelineTimeline';
 
 interface ProcessingStatusProps {
   isProcessing: boolean;
   progress: number;
   results: OCRResult | null;
+  events: PipelineEvent[]; // Events of the current or last run
 }
 
 const ProcessingStatus: React.FC<ProcessingStatusProps> = ({ 
   isProcessing, 
   progress, 
-  results 
+  results,
+  events
 }) => {
-  if (!isProcessing && !results) {
+  if (!isProcessing && !results && events.length === 0) {
     return (
       <Card>
         <CardHeader>
@@ -47,34 +52,27 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
               </span>
             </div>
             
-            <div className="space-y-2 text-sm">
-              <div className="flex items-center space-x-2">
-                <div className={`w-2 h-2 rounded-full ${progress > 20 ? 'bg-green-500' : 'bg-gray-300'}`} />
-                <span>Image preprocessing</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <div className={`w-2 h-2 rounded-full ${progress > 40 ? 'bg-green-500' : 'bg-gray-300'}`} />
-                <span>Text region detection</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <div className={`w-2 h-2 rounded-full ${progress > 60 ? 'bg-green-500' : 'bg-gray-300'}`} />
-                <span>Character segmentation</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <div className={`w-2 h-2 rounded-full ${progress > 80 ? 'bg-green-500' : 'bg-gray-300'}`} />
-                <span>OCR recognition</span>
-              </div>
-              <div className="flex items-center space-x-2">
-                <div className={`w-2 h-2 rounded-full ${progress > 95 ? 'bg-green-500' : 'bg-gray-300'}`} />
-                <span>Post-processing</span>
-              </div>
-            </div>
+            <PipelineTimeline events={events} stopped={false} />
           </div>
         </CardContent>
       </Card>
     );
   }
 
+  if (!results) {
+    // The run failed or was cancelled: show how far it got
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Processing Stopped</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <PipelineTimeline events={events} stopped />
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (results) {
     return (
       <Card>
@@ -110,11 +108,63 @@ const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
             </div>
           </div>
           
-          <div className="mt-4">
+          {events.length > 0 ? (
+            <div className="mt-4">
+              <PipelineTimeline events={events} stopped />
+            </div>
+          ) : results.stageTimings && results.stageTimings.length > 0 && (
+            <div className="mt-4 space-y-1 text-sm">
+              {results.stageTimings.map(timing => (
+                <div key={timing.stage} className="flex justify-between text-gray-600">
+                  <span>{timing.label}</span>
+                  <span>{(timing.durationMs / 1000).toFixed(1)}s</span>
+                </div>
+              ))}
+            </div>
+          )}
+          
+          <div className="mt-4 flex items-center gap-2">
             <Badge variant="default" className="bg-green-500">
               Processing Successful
             </Badge>
+            {results.pipeline && (
+              <Badge variant="outline">{results.pipeline}</Badge>
+            )}
+            {results.sheet?.skewAngle !== undefined && (
+              <Badge variant="outline">
+                {results.sheet.deskewed
+                  ? `Deskewed ${results.sheet.skewAngle.toFixed(2)}°`
+                  : `Skew ${results.sheet.skewAngle.toFixed(2)}° (not corrected)`}
+              </Badge>
+            )}
           </div>
+
+          {results.sheet?.quality && (
+            <div className="mt-4 space-y-1 text-sm">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">Image quality</span>
+                <Badge variant="secondary">{PRESETS[results.sheet.quality.preset].label}</Badge>
+              </div>
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-2 text-gray-600">
+                <span>Contrast {results.sheet.quality.metrics.contrast.toFixed(2)}</span>
+                <span>Noise {results.sheet.quality.metrics.noise.toFixed(1)}</span>
+                <span>Sharpness {Math.round(results.sheet.quality.metrics.sharpness)}</span>
+                <span>
+                  {results.sheet.quality.metrics.effectiveDpi
+                    ? `~${Math.round(results.sheet.quality.metrics.effectiveDpi)} DPI`
+                    : 'DPI unknown'}
+                </span>
+                <span className="flex items-center gap-1">
+                  <span
+                    className="inline-block h-3 w-3 rounded border"
+                    style={{ backgroundColor: `rgb(${results.sheet.quality.metrics.background.rgb.join(',')})` }}
+                  />
+                  Paper L* {Math.round(results.sheet.quality.metrics.background.lightness)}
+                </span>
+              </div>
+              <p className="text-xs text-gray-500">{results.sheet.quality.reasons.join('; ')}</p>
+            </div>
+          )}
         </CardContent>
       </Card>
     );
@@ -3,9 +3,12 @@ import React from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Download, FileText, Hash, Target, Brain } from 'lucide-react';
+import { Download, FileText, Hash, Target, Brain, ListChecks, CheckCircle2, XCircle } from 'lucide-react';
 import { OCRResult } from '@/pages/OCRProcessor';
 import { useToast } from '@/hooks/use-toast';
+import { describeProvenance } from '@/utils/provenance';
+import { downloadCSV } from '@/utils/advancedTextDetection';
+import { describeVerification as describeNumberVerification } from '@/utils/numberDetection';
 
 interface ResultsDisplayProps {
   results: OCRResult;
@@ -14,27 +17,20 @@ interface ResultsDisplayProps {
 const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results }) => {
   const { toast } = useToast();
 
-  const downloadCSV = () => {
-    const csvContent = [
-      'Type,Value,Confidence',
-      ...results.detailedResults.map(item => 
-        `${item.type === 'character' ? 'Character' : 'Number'},"${item.text}",${item.confidence.toFixed(1)}%`
-      )
-    ].join('\n');
+  // Describe how a detected number compares with the known survey numbers
+  const describeVerification = (num: string): string =>
+    describeNumberVerification(results.numberVerification.find(v => v.number === num));
 
-    const blob = new Blob([csvContent], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `cadastral_ocr_results_${new Date().toISOString().split('T')[0]}.csv`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
+  const handleDownloadCSV = () => {
+    downloadCSV(results.detailedResults, `cadastral_ocr_results_${new Date().toISOString().split('T')[0]}.csv`, {
+      includeProvenance: true,
+      includePage: results.sheet?.page !== undefined,
+      numberVerification: results.numberVerification
+    });
 
     toast({
       title: "Enhanced CSV Downloaded",
-      description: "OCR results with confidence scores exported to CSV file."
+      description: "OCR results with confidence scores, provenance and number verification exported to CSV file."
     });
   };
 
@@ -49,6 +45,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results }) => {
       `Total Items Detected: ${results.detailedResults.length}`,
       `Characters Found: ${results.characters.length}`,
       `Numbers Found: ${results.numbers.length}`,
+      `Numbers Matching Known Survey Numbers: ${results.numberVerification.filter(v => v.status === 'exact').length} exact, ${results.numberVerification.filter(v => v.status === 'near').length} near`,
       '',
       'CHARACTERS DETECTED:',
       '==================',
@@ -61,13 +58,29 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results }) => {
       '================',
       ...results.numbers.map((num, index) => {
         const detail = results.detailedResults.find(d => d.text === num && d.type === 'number');
-        return `${index + 1}. ${num} (Confidence: ${detail?.confidence.toFixed(1) || 'N/A'}%)`;
+        return `${index + 1}. ${num} (Confidence: ${detail?.confidence.toFixed(1) || 'N/A'}%, Verification: ${describeVerification(num)})`;
       }),
+      ...(results.expectedTerms ? [
+        '',
+        'EXPECTED TERMS CHECKLIST:',
+        '========================',
+        ...results.expectedTerms.map((item, index) => {
+          if (item.status === 'missing') {
+            return `${index + 1}. ${item.term} | MISSING`;
+          }
+          const best = item.matches[0];
+          return `${index + 1}. ${item.term} | FOUND ${item.matches.length}x | Best: "${best.text}" (${best.exact ? 'exact' : 'fuzzy'}, ${best.confidence.toFixed(1)}%) at (${best.bbox.x0}, ${best.bbox.y0}) to (${best.bbox.x1}, ${best.bbox.y1})`;
+        })
+      ] : []),
       '',
       'DETAILED RESULTS:',
       '================',
       ...results.detailedResults.map((item, index) => 
-        `${index + 1}. ${item.text} | Type: ${item.type} | Confidence: ${item.confidence.toFixed(1)}% | Bbox: (${item.bbox.x0}, ${item.bbox.y0}) to (${item.bbox.x1}, ${item.bbox.y1})`
+        `${index + 1}. ${item.text} | Type: ${item.type} | Confidence: ${item.confidence.toFixed(1)}% | Bbox: (${item.bbox.x0}, ${item.bbox.y0}) to (${item.bbox.x1}, ${item.bbox.y1})` +
+        (item.consensus
+          ? ` | Agreement: ${(item.consensus.agreement * 100).toFixed(0)}% of ${item.consensus.reads.map(read => `${read.engine} "${read.text}" ${read.confidence.toFixed(1)}%`).join(', ')}`
+          : '') +
+        (item.provenance ? `\n   Provenance: ${describeProvenance(item.provenance)}` : '')
       )
     ].join('\n');
 
@@ -100,7 +113,7 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results }) => {
             Advanced OCR Results
           </CardTitle>
           <div className="space-x-2">
-            <Button onClick={downloadCSV} size="sm" variant="outline">
+            <Button onClick={handleDownloadCSV} size="sm" variant="outline">
               <Download className="h-4 w-4 mr-2" />
               Enhanced CSV
             </Button>
@@ -214,23 +227,67 @@ const ResultsDisplay: React.FC<ResultsDisplayProps> = ({ results }) => {
                 const confidenceColor = confidence > 80 ? 'bg-green-100 border-green-300' : 
                                       confidence > 60 ? 'bg-yellow-100 border-yellow-300' : 
                                       'bg-red-100 border-red-300';
+                const verification = describeVerification(num);
+                const verificationColor = verification === 'exact' ? 'text-green-700' :
+                                          verification === 'unknown' ? 'text-gray-500' :
+                                          'text-yellow-700';
                 return (
                   <Badge 
                     key={index} 
                     variant="outline" 
                     className={`text-sm ${confidenceColor} flex items-center gap-1`}
-                    title={`Confidence: ${confidence.toFixed(1)}%`}
+                    title={`Confidence: ${confidence.toFixed(1)}% | Known survey number: ${verification}`}
                   >
                     {num}
                     <span className="text-xs opacity-70">
                       {confidence.toFixed(0)}%
                     </span>
+                    <span className={`text-xs ${verificationColor}`}>
+                      {verification}
+                    </span>
                   </Badge>
                 );
               })}
             </div>
           </div>
         </div>
+
+        {/* Expected Terms Checklist */}
+        {results.expectedTerms && (
+          <div>
+            <div className="flex items-center space-x-2 mb-3">
+              <ListChecks className="h-5 w-5 text-purple-600" />
+              <h3 className="text-lg font-semibold">Expected Terms</h3>
+              <Badge variant="secondary">
+                {results.expectedTerms.filter(item => item.status === 'found').length} / {results.expectedTerms.length} found
+              </Badge>
+            </div>
+            <div className="max-h-60 overflow-y-auto bg-gray-50 p-3 rounded space-y-1 text-sm">
+              {results.expectedTerms.map((item, index) => {
+                const best = item.matches[0];
+                return (
+                  <div key={index} className="flex items-center gap-2">
+                    {item.status === 'found' ? (
+                      <CheckCircle2 className="h-4 w-4 text-green-600 shrink-0" />
+                    ) : (
+                      <XCircle className="h-4 w-4 text-red-600 shrink-0" />
+                    )}
+                    <span className="font-medium">{item.term}</span>
+                    {best ? (
+                      <span className="text-xs text-gray-500">
+                        {best.exact ? '' : `read as "${best.text}", `}
+                        {best.confidence.toFixed(0)}% at ({Math.round(best.bbox.x0)}, {Math.round(best.bbox.y0)})
+                        {item.matches.length > 1 && ` +${item.matches.length - 1} more`}
+                      </span>
+                    ) : (
+                      <span className="text-xs text-red-600">missing</span>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
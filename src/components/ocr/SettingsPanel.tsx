@@ -0,0 +1,503 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '@/components/ui/accordion';
+import { Download, FolderOpen, Save, Settings2, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { PipelineConfig } from '@/utils/pipelineDefinition';
+import { listPipelines } from '@/utils/ocrPipeline';
+import { INK_LAYERS } from '@/utils/colorLayers';
+import { THRESHOLD_TYPES } from '@/utils/enhancedPreprocessing';
+import { PresetChain } from '@/utils/improvedPreprocessing';
+import { loadPresets } from '@/utils/preprocessingPresets';
+import {
+  BUILT_IN_PROFILES,
+  ProcessingProfile,
+  ProfileValidationError,
+  deleteProfile,
+  exportProfiles,
+  importProfiles,
+  loadProfiles,
+  saveProfile,
+  validatePipelineConfig
+} from '@/utils/processingProfiles';
+
+// Config sections that hold nested settings
+type ConfigSection = Exclude<keyof PipelineConfig, 'confidenceThreshold' | 'fuzzyThreshold' | 'useLLMCorrection' | 'autoPreprocessing'>;
+
+// One editable setting: a top-level config value or a value inside a section
+interface SettingField {
+  key: string;
+  label: string;
+  kind: 'number' | 'boolean' | 'select' | 'multiselect' | 'angles' | 'preset';
+  min?: number;
+  max?: number;
+  step?: number;
+  options?: string[];
+}
+
+interface SettingGroup {
+  title: string;
+  section?: ConfigSection;
+  fields: SettingField[];
+}
+
+const tileFields = (fuzzy: boolean): SettingField[] => [
+  { key: 'tesseractPSM', label: 'Tesseract PSM', kind: 'number', min: 0, max: 13, step: 1 },
+  { key: 'paddleOCRUseAngleClassification', label: 'PaddleOCR angle classification', kind: 'boolean' },
+  { key: 'filterByConfidence', label: 'Filter by confidence', kind: 'boolean' },
+  ...(fuzzy ? [{ key: 'applyFuzzyMatching', label: 'Fuzzy-match place names', kind: 'boolean' } as SettingField] : []),
+  { key: 'useConsensus', label: 'Vote engines into consensus reads', kind: 'boolean' }
+];
+
+// Select value for "no preset"
+const NO_PRESET = '__none__';
+
+const preprocessingFields: SettingField[] = [
+  { key: 'preset', label: 'Preprocessing preset (replaces upscaling, CLAHE, sharpening and thresholding)', kind: 'preset' },
+  { key: 'upscaleFactor', label: 'Upscale factor', kind: 'number', min: 1, max: 6, step: 0.1 },
+  { key: 'applyCLAHE', label: 'CLAHE contrast enhancement', kind: 'boolean' },
+  { key: 'applyThresholding', label: 'Thresholding', kind: 'boolean' },
+  { key: 'thresholdType', label: 'Threshold type', kind: 'select', options: [...THRESHOLD_TYPES] },
+  { key: 'applySharpen', label: 'Sharpen', kind: 'boolean' },
+  { key: 'tileImage', label: 'Tile the image', kind: 'boolean' },
+  { key: 'tileSize', label: 'Tile size (px)', kind: 'number', min: 100, max: 4000, step: 50 },
+  { key: 'tileOverlap', label: 'Tile overlap (px)', kind: 'number', min: 0, max: 1000, step: 10 }
+];
+
+const SETTING_GROUPS: SettingGroup[] = [
+  {
+    title: 'General',
+    fields: [
+      { key: 'confidenceThreshold', label: 'Confidence threshold (0-1)', kind: 'number', min: 0, max: 1, step: 0.05 },
+      { key: 'fuzzyThreshold', label: 'Place-name fuzzy threshold (0-1)', kind: 'number', min: 0, max: 1, step: 0.05 },
+      { key: 'useLLMCorrection', label: 'LLM correction of place names', kind: 'boolean' },
+      { key: 'autoPreprocessing', label: 'Choose threshold, CLAHE, sharpening and upscale from image quality', kind: 'boolean' }
+    ]
+  },
+  {
+    title: 'Map-specialized OCR',
+    section: 'map',
+    fields: [
+      { key: 'tesseractPSM', label: 'Tesseract PSM', kind: 'number', min: 0, max: 13, step: 1 },
+      { key: 'rotateAngles', label: 'Rotation angles (comma separated)', kind: 'angles' },
+      { key: 'blackTextOnly', label: 'Ink layers only', kind: 'boolean' },
+      { key: 'inkLayers', label: 'Ink layers sent to OCR', kind: 'multiselect', options: [...INK_LAYERS] },
+      { key: 'removeLines', label: 'Remove boundary lines and hatching', kind: 'boolean' },
+      { key: 'applyDeskew', label: 'Deskew', kind: 'boolean' },
+      { key: 'applyCLAHE', label: 'CLAHE contrast enhancement', kind: 'boolean' },
+      { key: 'applyMorphology', label: 'Morphological cleanup', kind: 'boolean' }
+    ]
+  },
+  { title: 'Text tile engines', section: 'textTiles', fields: tileFields(true) },
+  { title: 'Number tile engines', section: 'numberTiles', fields: tileFields(false) },
+  { title: 'Text tile preprocessing', section: 'textPreprocessing', fields: preprocessingFields },
+  { title: 'Number tile preprocessing', section: 'numberPreprocessing', fields: preprocessingFields },
+  {
+    title: 'Number region preprocessing',
+    section: 'numberRegionPreprocessing',
+    fields: [
+      { key: 'resizeWidth', label: 'Resize width (px)', kind: 'number', min: 0, max: 10000, step: 100 },
+      { key: 'blur', label: 'Blur', kind: 'boolean' },
+      { key: 'blurRadius', label: 'Blur radius', kind: 'number', min: 0, max: 10, step: 1 },
+      { key: 'threshold', label: 'Threshold', kind: 'boolean' },
+      { key: 'thresholdType', label: 'Threshold type', kind: 'select', options: [...THRESHOLD_TYPES] },
+      { key: 'thresholdValue', label: 'Threshold value', kind: 'number', min: 0, max: 255, step: 1 },
+      { key: 'sharpen', label: 'Sharpen', kind: 'boolean' },
+      { key: 'contrast', label: 'Contrast', kind: 'boolean' },
+      { key: 'contrastFactor', label: 'Contrast factor', kind: 'number', min: 0.1, max: 5, step: 0.1 },
+      { key: 'denoise', label: 'Denoise', kind: 'boolean' },
+      { key: 'invert', label: 'Invert', kind: 'boolean' }
+    ]
+  },
+  {
+    title: 'Rotated labels',
+    section: 'orientation',
+    fields: [
+      { key: 'enabled', label: 'Re-read rotated labels rectified', kind: 'boolean' },
+      { key: 'minAngle', label: 'Minimum tilt (degrees)', kind: 'number', min: 0, max: 90, step: 1 },
+      { key: 'minElongation', label: 'Minimum elongation', kind: 'number', min: 1, max: 20, step: 0.5 },
+      { key: 'padding', label: 'Padding (px)', kind: 'number', min: 0, max: 100, step: 1 },
+      { key: 'maxRegions', label: 'Labels measured per sheet', kind: 'number', min: 1, max: 2000, step: 10 },
+      { key: 'maxClusterGlyphs', label: 'Most glyphs in an unread label', kind: 'number', min: 2, max: 200, step: 1 }
+    ]
+  }
+];
+
+const PIPELINES = listPipelines();
+
+interface SettingsPanelProps {
+  disabled?: boolean;
+  onProfileChange: (profile: ProcessingProfile, valid: boolean) => void;
+}
+
+const SettingsPanel: React.FC<SettingsPanelProps> = ({ disabled = false, onProfileChange }) => {
+  const [profiles, setProfiles] = useState<ProcessingProfile[]>(() => loadProfiles());
+  // Presets saved in the preprocessing playground, for the tile preprocessing groups
+  const [presets] = useState(() => loadPresets());
+  const [draft, setDraft] = useState<ProcessingProfile>(BUILT_IN_PROFILES[0]);
+  const [saveName, setSaveName] = useState('');
+  // Bumped whenever a profile is loaded, so the uncontrolled inputs pick up its values
+  const [loadCount, setLoadCount] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const issues = useMemo(() => validatePipelineConfig(draft.config), [draft.config]);
+  const selected = profiles.find(profile => profile.name === draft.name);
+  const modified = selected !== undefined && JSON.stringify(selected) !== JSON.stringify(draft);
+
+  useEffect(() => {
+    onProfileChange(draft, issues.length === 0);
+  }, [draft, issues, onProfileChange]);
+
+  const loadProfile = (profile: ProcessingProfile) => {
+    setDraft(profile);
+    setSaveName(profile.builtIn ? '' : profile.name);
+    setLoadCount(count => count + 1);
+  };
+
+  const readValue = (group: SettingGroup, key: string): unknown => {
+    const source = group.section ? draft.config[group.section] : draft.config;
+    return (source as Record<string, unknown>)[key];
+  };
+
+  const updateValue = (group: SettingGroup, key: string, value: unknown) => {
+    setDraft(current => {
+      const config = group.section
+        ? { ...current.config, [group.section]: { ...current.config[group.section], [key]: value } }
+        : { ...current.config, [key]: value };
+      return { ...current, config };
+    });
+  };
+
+  const issueFor = (group: SettingGroup, key: string): string | undefined => {
+    const path = group.section ? `${group.section}.${key}` : key;
+    return issues.find(issue => issue.path === path)?.message;
+  };
+
+  const handleSave = () => {
+    try {
+      const saved = saveProfile({ ...draft, name: saveName.trim() });
+      setProfiles(loadProfiles());
+      setDraft(saved);
+      toast({
+        title: "Profile Saved",
+        description: `Processing profile '${saved.name}' was saved.`
+      });
+    } catch (error) {
+      toast({
+        title: "Profile Not Saved",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selected || selected.builtIn) return;
+    deleteProfile(selected.name);
+    setProfiles(loadProfiles());
+    loadProfile(BUILT_IN_PROFILES[0]);
+    toast({
+      title: "Profile Deleted",
+      description: `Processing profile '${selected.name}' was deleted.`
+    });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([exportProfiles([draft])], { type: 'application/json' });
+    const url = window.URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${draft.name.replace(/[^\w-]+/g, '_').toLowerCase()}_profile.json`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    window.URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const imported = importProfiles(await file.text()).map(profile => {
+        // Keep built-in profiles intact: import same-named copies under a new name
+        const clashes = BUILT_IN_PROFILES.some(builtIn => builtIn.name.toLowerCase() === profile.name.toLowerCase());
+        return saveProfile(clashes ? { ...profile, name: `${profile.name} (imported)` } : profile);
+      });
+      setProfiles(loadProfiles());
+      if (imported.length > 0) {
+        loadProfile(imported[0]);
+      }
+      toast({
+        title: "Profiles Imported",
+        description: `Imported ${imported.map(profile => `'${profile.name}'`).join(', ')}.`
+      });
+    } catch (error) {
+      const description = error instanceof ProfileValidationError
+        ? error.issues.slice(0, 3).map(issue => `${issue.path || 'file'}: ${issue.message}`).join('; ')
+        : error instanceof Error ? error.message : 'Unknown error';
+      toast({
+        title: "Import Failed",
+        description,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const renderField = (group: SettingGroup, field: SettingField) => {
+    const id = `setting-${group.section ?? 'general'}-${field.key}`;
+    const value = readValue(group, field.key);
+    const issue = issueFor(group, field.key);
+
+    if (field.kind === 'boolean') {
+      return (
+        <div key={id} className="flex items-center justify-between py-1">
+          <Label htmlFor={id} className="text-sm font-normal">{field.label}</Label>
+          <Switch
+            id={id}
+            checked={Boolean(value)}
+            onCheckedChange={checked => updateValue(group, field.key, checked)}
+            disabled={disabled}
+          />
+        </div>
+      );
+    }
+
+    if (field.kind === 'preset') {
+      // The profile keeps a copy of the preset's steps, so it runs (and exports) on its own
+      const current = value as PresetChain | undefined;
+      const missing = current && !presets.some(preset => preset.name === current.name);
+      return (
+        <div key={id} className="space-y-1 py-1">
+          <Label htmlFor={id} className="text-sm font-normal">{field.label}</Label>
+          <Select
+            value={current?.name ?? NO_PRESET}
+            onValueChange={name => {
+              const preset = presets.find(entry => entry.name === name);
+              updateValue(group, field.key, preset ? { name: preset.name, steps: preset.steps } : undefined);
+            }}
+            disabled={disabled}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_PRESET}>None (use the settings below)</SelectItem>
+              {missing && <SelectItem value={current.name}>{current.name} (kept in the profile)</SelectItem>}
+              {presets.map(preset => (
+                <SelectItem key={preset.name} value={preset.name}>
+                  {preset.name}{preset.builtIn ? ' (built-in)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {issue && <p className="text-xs text-red-600">{issue}</p>}
+        </div>
+      );
+    }
+
+    if (field.kind === 'multiselect') {
+      const selected = Array.isArray(value) ? value as string[] : [];
+      return (
+        <div key={id} className="space-y-1 py-1">
+          <Label className="text-sm font-normal">{field.label}</Label>
+          <div className="flex flex-wrap gap-4">
+            {field.options?.map(option => (
+              <div key={option} className="flex items-center gap-2">
+                <Switch
+                  id={`${id}-${option}`}
+                  checked={selected.includes(option)}
+                  onCheckedChange={checked => updateValue(group, field.key, checked
+                    ? [...selected, option]
+                    : selected.filter(entry => entry !== option))}
+                  disabled={disabled}
+                />
+                <Label htmlFor={`${id}-${option}`} className="text-sm font-normal">{option}</Label>
+              </div>
+            ))}
+          </div>
+          {issue && <p className="text-xs text-red-600">{issue}</p>}
+        </div>
+      );
+    }
+
+    return (
+      <div key={id} className="space-y-1 py-1">
+        <Label htmlFor={id} className="text-sm font-normal">{field.label}</Label>
+        {field.kind === 'select' ? (
+          <Select
+            value={String(value ?? '')}
+            onValueChange={selectedValue => updateValue(group, field.key, selectedValue)}
+            disabled={disabled}
+          >
+            <SelectTrigger id={id}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {field.options?.map(option => (
+                <SelectItem key={option} value={option}>{option}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        ) : (
+          <Input
+            // Uncontrolled, so partially typed values stay editable; reset when a profile loads
+            key={`${id}-${loadCount}`}
+            id={id}
+            type={field.kind === 'number' ? 'number' : 'text'}
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            defaultValue={Array.isArray(value) ? value.join(', ') : String(value ?? '')}
+            onChange={e => updateValue(group, field.key, field.kind === 'number'
+              ? e.target.valueAsNumber
+              : e.target.value.split(',').filter(part => part.trim() !== '').map(Number))}
+            disabled={disabled}
+          />
+        )}
+        {issue && <p className="text-xs text-red-600">{issue}</p>}
+      </div>
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Settings2 className="h-5 w-5" />
+          Processing Settings
+        </CardTitle>
+        <CardDescription>
+          Pick a processing profile, adjust its settings and save it for later runs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="profile">Profile</Label>
+          <Select
+            value={selected ? selected.name : ''}
+            onValueChange={name => {
+              const profile = profiles.find(candidate => candidate.name === name);
+              if (profile) loadProfile(profile);
+            }}
+            disabled={disabled}
+          >
+            <SelectTrigger id="profile">
+              <SelectValue placeholder="Unsaved profile" />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.name} value={profile.name}>
+                  {profile.name}{profile.builtIn ? ' (built-in)' : ''}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {draft.description && (
+            <p className="text-xs text-gray-500">{draft.description}</p>
+          )}
+          {modified && (
+            <Badge variant="secondary">Modified (not saved)</Badge>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="pipeline">Pipeline</Label>
+          <Select
+            value={draft.pipeline}
+            onValueChange={pipeline => setDraft(current => ({ ...current, pipeline }))}
+            disabled={disabled}
+          >
+            <SelectTrigger id="pipeline">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PIPELINES.map(pipeline => (
+                <SelectItem key={pipeline.name} value={pipeline.name}>
+                  {pipeline.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <p className="text-xs text-gray-500">
+            {PIPELINES.find(pipeline => pipeline.name === draft.pipeline)?.description}
+          </p>
+        </div>
+
+        <Accordion type="multiple" className="w-full">
+          {SETTING_GROUPS.map(group => (
+            <AccordionItem key={group.title} value={group.title}>
+              <AccordionTrigger className="text-sm">{group.title}</AccordionTrigger>
+              <AccordionContent>
+                {group.fields.map(field => renderField(group, field))}
+              </AccordionContent>
+            </AccordionItem>
+          ))}
+        </Accordion>
+        <p className="text-xs text-gray-500">
+          Every registered OCR engine is used; engine selection is not part of the panel.
+        </p>
+
+        {issues.length > 0 && (
+          <Badge variant="destructive">
+            {issues.length} invalid setting{issues.length === 1 ? '' : 's'}
+          </Badge>
+        )}
+
+        <div className="flex gap-2">
+          <Input
+            value={saveName}
+            onChange={e => setSaveName(e.target.value)}
+            placeholder="Profile name"
+            disabled={disabled}
+          />
+          <Button
+            onClick={handleSave}
+            disabled={disabled || issues.length > 0 || saveName.trim().length === 0}
+            variant="outline"
+          >
+            <Save className="h-4 w-4 mr-2" />
+            Save
+          </Button>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => fileInputRef.current?.click()} disabled={disabled} variant="outline" size="sm">
+            <FolderOpen className="h-4 w-4 mr-2" />
+            Import JSON
+          </Button>
+          <Button onClick={handleExport} disabled={issues.length > 0} variant="outline" size="sm">
+            <Download className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+          <Button
+            onClick={handleDelete}
+            disabled={disabled || !selected || selected.builtIn}
+            variant="outline"
+            size="sm"
+          >
+            <Trash2 className="h-4 w-4 mr-2" />
+            Delete
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleImport}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SettingsPanel;
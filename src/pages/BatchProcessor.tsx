@@ -0,0 +1,286 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Download, FolderOpen, Pause, Play, RotateCcw, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import ImageUpload from '@/components/ocr/ImageUpload';
+import SettingsPanel from '@/components/ocr/SettingsPanel';
+import PdfPageOptions from '@/components/ocr/PdfPageOptions';
+import { downloadCombinedCSV } from '@/utils/advancedTextDetection';
+import { BatchItem, BatchItemStatus, BatchQueue, BatchSource, DEFAULT_CONFIG } from '@/utils/batchQueue';
+import { BUILT_IN_PROFILES, ProcessingProfile } from '@/utils/processingProfiles';
+import { runOCRPipelineInWorker } from '@/utils/ocrPipelineWorker';
+import { DEFAULT_CONFIG as PDF_DEFAULT_CONFIG, isPdfFile, openPdf, parsePageSelection, rasterizePdfFilePage } from '@/utils/pdfRasterizer';
+
+// Image files the pipeline can read (PDFs are rendered page by page)
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|tiff?|bmp)$/i;
+
+// Choices for the number of sheets processed at the same time
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+const STATUS_BADGES: Record<BatchItemStatus, { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  queued: { label: 'Queued', variant: 'outline' },
+  running: { label: 'Running', variant: 'secondary' },
+  done: { label: 'Done', variant: 'default' },
+  failed: { label: 'Failed', variant: 'destructive' },
+  cancelled: { label: 'Cancelled', variant: 'outline' }
+};
+
+const BatchProcessor = () => {
+  const [items, setItems] = useState<BatchItem[]>([]);
+  const [paused, setPaused] = useState(false);
+  const [concurrency, setConcurrency] = useState(DEFAULT_CONFIG.concurrency);
+  const [settingsValid, setSettingsValid] = useState(true);
+  const [pdfPages, setPdfPages] = useState('');
+  const [pdfDpi, setPdfDpi] = useState(PDF_DEFAULT_CONFIG.dpi);
+  // Sheets use the last valid settings (and the resolution) in force when they start
+  const profileRef = useRef<ProcessingProfile>(BUILT_IN_PROFILES[0]);
+  const pdfDpiRef = useRef(pdfDpi);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const [queue] = useState(() => new BatchQueue(
+    async ({ file, page }, callbacks, signal) => {
+      const options = { pipeline: profileRef.current.pipeline, config: profileRef.current.config };
+      if (page === undefined) return runOCRPipelineInWorker(file, options, callbacks, signal);
+
+      // PDF pages are rendered only when their turn comes
+      const rendered = await rasterizePdfFilePage(file, page, { dpi: pdfDpiRef.current }, signal);
+      return runOCRPipelineInWorker(rendered.image, { ...options, page }, callbacks, signal);
+    },
+    setItems
+  ));
+
+  const handleProfileChange = useCallback((nextProfile: ProcessingProfile, valid: boolean) => {
+    if (valid) profileRef.current = nextProfile;
+    setSettingsValid(valid);
+  }, []);
+
+  const handleDpiChange = (dpi: number) => {
+    setPdfDpi(dpi);
+    pdfDpiRef.current = dpi;
+  };
+
+  // Queue images as they are and every selected page of each PDF
+  const handleFiles = useCallback(async (files: File[]) => {
+    const sources: BatchSource[] = [];
+    for (const file of files) {
+      if (!isPdfFile(file)) {
+        if (IMAGE_EXTENSIONS.test(file.name)) sources.push({ file });
+        continue;
+      }
+      try {
+        const pdfDocument = await openPdf(file);
+        try {
+          sources.push(...parsePageSelection(pdfPages, pdfDocument.numPages).map(page => ({ file, page })));
+        } finally {
+          await pdfDocument.destroy();
+        }
+      } catch (error) {
+        toast({
+          title: "PDF Not Added",
+          description: `${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          variant: "destructive"
+        });
+      }
+    }
+
+    if (sources.length === 0) {
+      toast({
+        title: "No Sheets Found",
+        description: "The selection contains no JPEG, PNG, TIFF, BMP or PDF files that could be read.",
+        variant: "destructive"
+      });
+      return;
+    }
+    queue.add(sources);
+  }, [pdfPages, queue, toast]);
+
+  // React does not know the non-standard directory attribute
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // Cancel the running sheets when leaving the page
+  useEffect(() => {
+    return () => queue.clear();
+  }, [queue]);
+
+  const togglePause = () => {
+    if (paused) queue.resume();
+    else queue.pause();
+    setPaused(queue.isPaused());
+  };
+
+  const handleConcurrencyChange = (value: string) => {
+    setConcurrency(Number(value));
+    queue.setConcurrency(Number(value));
+  };
+
+  const doneItems = items.filter(item => item.status === 'done' && item.result);
+  const failedCount = items.filter(item => item.status === 'failed').length;
+  const runningCount = items.filter(item => item.status === 'running').length;
+  const queuedCount = items.filter(item => item.status === 'queued').length;
+
+  // Export every finished sheet as one dataset
+  const handleDownloadCSV = () => {
+    const sheets = doneItems.map(item => ({ name: item.name, results: item.result!.detailedResults }));
+    downloadCombinedCSV(sheets, `cadastral_ocr_batch_${new Date().toISOString().slice(0, 10)}.csv`, { includeProvenance: true, includePage: true });
+    toast({
+      title: "CSV Downloaded",
+      description: `Results of ${sheets.length} sheets were exported with a source sheet column.`
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <Link to="/ocr" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to OCR
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Batch Processing
+          </h1>
+          <p className="text-lg text-gray-600">
+            Process every sheet of a village map set and export the results as one dataset
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <div className="space-y-6">
+            <ImageUpload multiple acceptPdf onImagesUpload={handleFiles} />
+
+            <input
+              ref={folderInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={event => {
+                handleFiles(Array.from(event.target.files ?? []));
+                event.target.value = '';
+              }}
+            />
+            <Button variant="outline" className="w-full" onClick={() => folderInputRef.current?.click()}>
+              <FolderOpen className="h-4 w-4 mr-2" />
+              Select folder
+            </Button>
+
+            <PdfPageOptions
+              pages={pdfPages}
+              dpi={pdfDpi}
+              onPagesChange={setPdfPages}
+              onDpiChange={handleDpiChange}
+            />
+
+            <SettingsPanel disabled={runningCount > 0} onProfileChange={handleProfileChange} />
+          </div>
+
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Queue</CardTitle>
+                <CardDescription>
+                  {items.length} sheets: {doneItems.length} done, {runningCount} running, {queuedCount} queued, {failedCount} failed
+                  {paused && ' (paused)'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {!settingsValid && (
+                  <p className="text-sm text-red-600">Fix the invalid settings; sheets that start now use the last valid ones.</p>
+                )}
+
+                <div className="flex flex-wrap items-end gap-3">
+                  <div className="space-y-1">
+                    <Label>Sheets at a time</Label>
+                    <Select value={String(concurrency)} onValueChange={handleConcurrencyChange}>
+                      <SelectTrigger className="w-24">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CONCURRENCY_OPTIONS.map(option => (
+                          <SelectItem key={option} value={String(option)}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <Button variant="outline" onClick={togglePause} disabled={items.length === 0 && !paused}>
+                    {paused ? <Play className="h-4 w-4 mr-2" /> : <Pause className="h-4 w-4 mr-2" />}
+                    {paused ? 'Resume' : 'Pause'}
+                  </Button>
+                  <Button variant="outline" onClick={() => queue.retryFailed()} disabled={failedCount === 0}>
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Retry failed
+                  </Button>
+                  <Button variant="outline" onClick={() => queue.clear()} disabled={items.length === 0}>
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Clear
+                  </Button>
+                  <Button onClick={handleDownloadCSV} disabled={doneItems.length === 0} className="ml-auto">
+                    <Download className="h-4 w-4 mr-2" />
+                    Export combined CSV
+                  </Button>
+                </div>
+
+                {items.length === 0 ? (
+                  <p className="text-sm text-gray-500">Drop sheets or a folder to start.</p>
+                ) : (
+                  <ul className="divide-y border rounded-lg bg-white">
+                    {items.map(item => (
+                      <li key={item.id} className="p-3 space-y-1">
+                        <div className="flex items-center gap-2">
+                          <span className="text-sm font-medium truncate" title={item.name}>
+                            {item.name}{item.page !== undefined && ` · page ${item.page}`}
+                          </span>
+                          <Badge variant={STATUS_BADGES[item.status].variant}>{STATUS_BADGES[item.status].label}</Badge>
+                          {item.attempts > 1 && <span className="text-xs text-gray-500">attempt {item.attempts}</span>}
+                          <div className="ml-auto flex gap-1">
+                            {(item.status === 'failed' || item.status === 'cancelled') && (
+                              <Button size="sm" variant="ghost" onClick={() => queue.retry(item.id)} title="Retry">
+                                <RotateCcw className="h-4 w-4" />
+                              </Button>
+                            )}
+                            {(item.status === 'running' || item.status === 'queued') && (
+                              <Button size="sm" variant="ghost" onClick={() => queue.cancel(item.id)} title="Cancel">
+                                <X className="h-4 w-4" />
+                              </Button>
+                            )}
+                            <Button size="sm" variant="ghost" onClick={() => queue.remove(item.id)} title="Remove">
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </div>
+                        {item.status === 'running' && (
+                          <>
+                            <Progress value={item.progress} className="h-1.5" />
+                            <p className="text-xs text-gray-500">{item.stage ?? 'Starting'}</p>
+                          </>
+                        )}
+                        {item.status === 'done' && item.result && (
+                          <p className="text-xs text-gray-500">
+                            {item.result.detailedResults.length} reads, {item.result.confidence.toFixed(1)}% confidence
+                          </p>
+                        )}
+                        {item.error && item.status !== 'done' && (
+                          <p className="text-xs text-red-600">{item.error}</p>
+                        )}
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchProcessor;
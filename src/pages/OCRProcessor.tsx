@@ -1,61 +1,118 @@
 
-import React, { useState } from 'react';
+import React, { useCallback, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Layers, SlidersHorizontal, Square } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Progress } from '@/components/ui/progress';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/hooks/use-toast';
 import ImageUpload from '@/components/ocr/ImageUpload';
 import ImagePreview from '@/components/ocr/ImagePreview';
 import ResultsDisplay from '@/components/ocr/ResultsDisplay';
 import ProcessingStatus from '@/components/ocr/ProcessingStatus';
-import { AdvancedOCREngine, DetectedText } from '@/utils/advancedOCR';
-import { postProcessOCRText, CADASTRAL_PLACE_NAMES, CADASTRAL_NUMBERS } from '@/utils/cadastralDictionary';
-import { batchExpandTexts, fastExpandText } from '@/utils/geminiExpander';
-import { AdvancedTextDetector, exportToCSV, downloadCSV } from '@/utils/advancedTextDetection';
-import { detectNumbers, verifyDetectedNumbers } from '@/utils/numberDetection';
-import { extractBlackText, createBlackTextVersions, removeDuplicates } from '@/utils/blackTextExtraction';
-import { createOptimizedVersions, applyImprovedPreprocessing } from '@/utils/improvedPreprocessing';
-import { processWithMultipleEngines, processTilesWithMultipleEngines } from '@/utils/multiEngineOCRImproved';
-import { processWithMapOCR, DEFAULT_CONFIG as MAP_OCR_CONFIG } from '@/utils/mapSpecializedOCR';
+import SettingsPanel from '@/components/ocr/SettingsPanel';
+import OnnxModelLoader from '@/components/ocr/OnnxModelLoader';
+import ColorLayerPreview from '@/components/ocr/ColorLayerPreview';
+import PdfPageOptions from '@/components/ocr/PdfPageOptions';
+import { downloadCSV } from '@/utils/advancedTextDetection';
+import { OCRResult, PipelineEvent } from '@/utils/pipelineDefinition';
+import { BUILT_IN_PROFILES, ProcessingProfile } from '@/utils/processingProfiles';
+import { isAbortError, runOCRPipelineInWorker } from '@/utils/ocrPipelineWorker';
+import { DEFAULT_CONFIG as PDF_DEFAULT_CONFIG, isPdfFile, openPdf, rasterizePdfFilePage } from '@/utils/pdfRasterizer';
+import { canvasToDataURL, imageToCanvas } from '@/utils/canvas';
 
-export interface OCRResult {
-  characters: string[];
-  numbers: string[];
-  processingTime: number;
-  confidence: number;
-  detailedResults: DetectedText[];
-}
+export type { OCRResult } from '@/utils/pipelineDefinition';
+
+// PDF pages are previewed at this resolution, capped to a few megapixels
+const PDF_PREVIEW_CONFIG = { dpi: 100, maxPixels: 4_000_000 };
 
 const OCRProcessor = () => {
   const [uploadedImage, setUploadedImage] = useState<File | null>(null);
   const [imagePreview, setImagePreview] = useState<string | null>(null);
-  const [imageElement, setImageElement] = useState<HTMLImageElement | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [processingProgress, setProcessingProgress] = useState(0);
+  const [currentStage, setCurrentStage] = useState<string | null>(null);
+  const [profile, setProfile] = useState<ProcessingProfile>(BUILT_IN_PROFILES[0]);
+  const [settingsValid, setSettingsValid] = useState(true);
+  const [partialReads, setPartialReads] = useState(0);
+  const [pipelineEvents, setPipelineEvents] = useState<PipelineEvent[]>([]);
   const [ocrResults, setOcrResults] = useState<OCRResult | null>(null);
-  const [ocrEngine] = useState(() => new AdvancedOCREngine());
-  const [textDetector] = useState(() => new AdvancedTextDetector());
-  const [csvData, setCsvData] = useState<string | null>(null);
+  const [expectedTermsInput, setExpectedTermsInput] = useState('');
+  const [pdfPageCount, setPdfPageCount] = useState<number | null>(null); // Set when the upload is a PDF
+  const [pdfPage, setPdfPage] = useState('1');
+  const [pdfDpi, setPdfDpi] = useState(PDF_DEFAULT_CONFIG.dpi);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const currentUploadRef = useRef<File | null>(null); // Latest upload, for the reads still in flight
   const { toast } = useToast();
 
-  const handleImageUpload = (file: File) => {
+  const handleImageUpload = async (file: File) => {
+    currentUploadRef.current = file;
     setUploadedImage(file);
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const imageSrc = e.target?.result as string;
-      setImagePreview(imageSrc);
-      
-      // Create image element for OCR processing
-      const img = new Image();
-      img.onload = () => setImageElement(img);
-      img.src = imageSrc;
-    };
-    reader.readAsDataURL(file);
+    setImagePreview(null);
+    setPdfPageCount(null);
+    setPdfPage('1');
     setOcrResults(null);
+    setPipelineEvents([]);
+    // The checklist belongs to one map
+    setExpectedTermsInput('');
+    // Results of a file read after another was uploaded are dropped
+    const isCurrent = () => currentUploadRef.current === file;
+
+    if (isPdfFile(file)) {
+      // The preview is rendered from the selected page (see the effect below)
+      try {
+        const pdfDocument = await openPdf(file);
+        const pageCount = pdfDocument.numPages;
+        await pdfDocument.destroy();
+        if (isCurrent()) setPdfPageCount(pageCount);
+      } catch (error) {
+        if (!isCurrent()) return;
+        setUploadedImage(null);
+        toast({
+          title: "PDF Not Opened",
+          description: error instanceof Error ? error.message : 'Unknown error',
+          variant: "destructive"
+        });
+      }
+    } else {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        if (isCurrent()) setImagePreview(e.target?.result as string);
+      };
+      reader.readAsDataURL(file);
+    }
   };
 
+  // Selected PDF page, or null when the upload is not a PDF or the page is out of range
+  const pdfPageNumber = pdfPageCount !== null && /^\d+$/.test(pdfPage) && Number(pdfPage) >= 1 && Number(pdfPage) <= pdfPageCount
+    ? Number(pdfPage)
+    : null;
+
+  // Render a preview of the selected PDF page
+  React.useEffect(() => {
+    if (!uploadedImage || pdfPageNumber === null) return;
+    let cancelled = false;
+    rasterizePdfFilePage(uploadedImage, pdfPageNumber, PDF_PREVIEW_CONFIG)
+      .then(async rendered => {
+        const url = await canvasToDataURL(imageToCanvas(rendered.image));
+        rendered.image.close();
+        if (!cancelled) setImagePreview(url);
+      })
+      .catch(error => console.error('PDF preview failed:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [uploadedImage, pdfPageNumber]);
+
+  const handleProfileChange = useCallback((nextProfile: ProcessingProfile, valid: boolean) => {
+    setProfile(nextProfile);
+    setSettingsValid(valid);
+  }, []);
+
   const processImage = async () => {
-    if (!uploadedImage || !imageElement) {
+    if (!uploadedImage) {
       toast({
         title: "No Image Selected",
         description: "Please upload a cadastral map image first.",
@@ -65,249 +122,37 @@ const OCRProcessor = () => {
     }
     setIsProcessing(true);
     setProcessingProgress(0);
+    setCurrentStage(null);
+    setPartialReads(0);
+    setPipelineEvents([]);
     setOcrResults(null);
-    setCsvData(null);
-    
-    const startTime = Date.now();
-    
-    try {
-      console.log('Starting map-specialized OCR with deep learning models...');
-      
-      // Step 1: Process with map-specialized OCR (using TrOCR, LayoutLMv3, and fine-tuned PaddleOCR)
-      setProcessingProgress(5);
-      console.log('Applying specialized map OCR with deep learning models...');
-      
-      // Configure the map OCR system with specialized settings for cadastral maps
-      const mapOCRConfig = {
-        // Use all recommended OCR engines
-        useTrOCR: true,           // Excellent for handwritten/unusual text
-        useLayoutLM: true,        // For spatial understanding
-        usePaddleOCR: true,       // Fine-tuned for maps
-        useTesseract: true,       // With specialized config
-        // Use recommended Tesseract PSM mode for sparse text
-        tesseractPSM: 11,
-        // Process at all rotation angles as recommended
-        rotateAngles: [0, 90, 180, 270],
-        // Focus only on black text as requested
-        blackTextOnly: true,
-        // Apply recommended preprocessing
-        applyDeskew: true,
-        applyCLAHE: true,
-        applyMorphology: true,
-        // High confidence threshold as recommended
-        confidenceThreshold: 0.85
-      };
-      
-      // Process the image with map-specialized OCR
-      console.log('Processing with TrOCR, LayoutLMv3, and fine-tuned PaddleOCR...');
-      const mapOCRResults = await processWithMapOCR(imageElement, mapOCRConfig, (progress) => {
-        setProcessingProgress(5 + progress * 0.35);
-      });
-      
-      // Step 2: Process image tiles for better accuracy
-      setProcessingProgress(40);
-      console.log('Processing image tiles for better accuracy...');
-      
-      // Create optimized versions with all recommended preprocessing
-      const { textVersion, numberVersion, textTiles, numberTiles } = createOptimizedVersions(imageElement);
-      
-      // Step 3: Process text tiles with multiple OCR engines as a backup
-      setProcessingProgress(45);
-      console.log('Processing text tiles with multiple OCR engines as backup...');
-      
-      // Process text tiles with multiple OCR engines
-      const tileTextResults = await processTilesWithMultipleEngines(textTiles, {
-        usePaddleOCR: true,
-        useEasyOCR: true,
-        useTesseract: true,
-        paddleOCRUseAngleClassification: true, // For rotated text
-        tesseractPSM: 11, // PSM 11 as recommended for sparse text
-        confidenceThreshold: 0.85, // High confidence threshold
-        filterByConfidence: true,
-        applyFuzzyMatching: true
-      });
-      
-      // Step 4: Process number tiles with specialized settings
-      setProcessingProgress(50);
-      console.log('Processing number tiles with specialized settings...');
-      
-      // Process number tiles with specialized settings
-      const tileNumberResults = await processTilesWithMultipleEngines(numberTiles, {
-        usePaddleOCR: true,
-        useEasyOCR: false, // EasyOCR is not as good for numbers
-        useTesseract: true,
-        paddleOCRUseAngleClassification: true,
-        tesseractPSM: 7, // PSM 7 is better for isolated numbers
-        confidenceThreshold: 0.85,
-        filterByConfidence: true,
-        applyFuzzyMatching: false // Don't fuzzy match numbers
-      });
-      
-      // Step 5: Combine and filter results
-      setProcessingProgress(60);
-      console.log('Combining and filtering results from all OCR engines...');
-      
-      // Combine results from map-specialized OCR and tile-based OCR
-      const allTextResults = [...mapOCRResults, ...tileTextResults];
-      
-      // Filter character results (non-numeric text)
-      const characterResults = allTextResults.filter(result => 
-        result.type === 'character' && 
-        !/^\d+$/.test(result.text) &&
-        result.confidence > 85 // High confidence threshold
-      );
-      
-      // Combine all number results
-      const allNumberResults = [
-        ...mapOCRResults.filter(result => result.type === 'number' || /^\d+$/.test(result.text)),
-        ...tileNumberResults
-      ];
-      
-      // Apply specialized number detection as a final check
-      const additionalNumberResults = await detectNumbers(imageElement, {
-        confidenceThreshold: 0.85,
-        useMultipleAngles: true,
-        angles: [0, 90, 180, 270]
-      });
-      
-      // Combine all number results and filter
-      const combinedNumberResults = [...allNumberResults, ...additionalNumberResults];
-      const filteredNumberResults = combinedNumberResults.filter(result => 
-        result.confidence > 85 && /^\d+$/.test(result.text)
-      );
-      
-      // Store results in CSV format
-      const combinedResults = [...characterResults, ...filteredNumberResults];
-      const csv = exportToCSV(combinedResults);
-      setCsvData(csv);
-      
-      // Step 6: Apply advanced post-processing with fuzzy matching and LLM-based correction
-      setProcessingProgress(70);
-      console.log('Applying advanced post-processing techniques...');
-      
-      // Extract text items from character results
-      let characters = characterResults.map(item => item.text.trim());
-      
-      // Get numbers from specialized number detection
-      let numbers = filteredNumberResults.map(item => item.text.trim());
-      
-      // Remove any non-numeric values from numbers (using regex as recommended)
-      numbers = numbers.filter(num => /^\d+$/.test(num));
-      
-      console.log('Initial detected place names:', characters);
-      console.log('Initial detected numbers:', numbers);
-      
-      // Step 6.1: Apply advanced fuzzy matching to place names
-      setProcessingProgress(75);
-      console.log('Applying advanced fuzzy matching to place names...');
-      
-      const fuzzyMatchedNames: string[] = [];
-      for (const name of characters) {
-        // Skip very short names (likely noise)
-        if (name.length < 2) continue;
-        
-        // Find closest match in known cadastral place names
-        let bestMatch = null;
-        let bestScore = 0;
-        
-        for (const knownName of CADASTRAL_PLACE_NAMES) {
-          // Calculate similarity score using Levenshtein distance
-          const score = calculateSimilarity(name.toLowerCase(), knownName.toLowerCase());
-          
-          // Only accept high-confidence matches (threshold 0.8)
-          if (score > 0.8 && score > bestScore) {
-            bestScore = score;
-            bestMatch = knownName;
-          }
-        }
-        
-        // Use the matched name if found, otherwise keep original
-        fuzzyMatchedNames.push(bestMatch || name);
-      }
-      
-      // Step 6.2: Apply LLM-based correction with Gemini API
-      setProcessingProgress(80);
-      console.log('Applying LLM-based correction with Gemini API...');
-      
-      // Find short or potentially incorrect texts that need correction
-      const textsToCorrect = fuzzyMatchedNames.filter(text => 
-        text.length <= 4 || // Short texts
-        !CADASTRAL_PLACE_NAMES.includes(text) // Unknown texts
-      );
-      
-      let correctedNames = [...fuzzyMatchedNames];
-      
-      if (textsToCorrect.length > 0) {
-        try {
-          console.log('Using Gemini API for LLM-based correction...');
-          const correctedTexts = await batchExpandTexts(textsToCorrect);
-          
-          // Replace texts with their corrected versions
-          correctedNames = fuzzyMatchedNames.map(text => {
-            if ((text.length <= 4 || !CADASTRAL_PLACE_NAMES.includes(text)) && 
-                correctedTexts[text]) {
-              return correctedTexts[text];
-            }
-            return text;
-          });
-          
-          console.log('LLM-corrected place names:', correctedNames);
-        } catch (error) {
-          console.error('Error using Gemini API for correction:', error);
-          // Fall back to fuzzy matched names
-        }
-      }
-      
-      // Step 6.3: Verify numbers against known cadastral numbers
-      setProcessingProgress(85);
-      console.log('Verifying numbers against known cadastral numbers...');
-      
-      // Verify detected numbers against known cadastral numbers
-      const verifiedNumbers = verifyDetectedNumbers(numbers);
-      
-      // Step 6.4: Remove duplicates and finalize results
-      setProcessingProgress(90);
-      console.log('Removing duplicates and finalizing results...');
-      
-      // Remove duplicates from both characters and numbers
-      characters = removeDuplicates(correctedNames);
-      numbers = removeDuplicates(verifiedNumbers);
-      
-      console.log('Final place names:', characters);
-      console.log('Final numbers:', numbers);
-      
-      // Helper function for similarity calculation
-      function calculateSimilarity(str1: string, str2: string): number {
-        // Simple Levenshtein distance-based similarity
-        const maxLength = Math.max(str1.length, str2.length);
-        if (maxLength === 0) return 1.0;
-        
-        let distance = 0;
-        for (let i = 0; i < Math.min(str1.length, str2.length); i++) {
-          if (str1[i] !== str2[i]) distance++;
-        }
-        distance += Math.abs(str1.length - str2.length);
-        
-        return 1.0 - distance / maxLength;
-      }
-      
-      setProcessingProgress(90);
 
-      const processingTime = Date.now() - startTime;
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
 
-      // Calculate average confidence from combined results
-      const avgConfidence = combinedResults.length > 0 
-        ? combinedResults.reduce((sum, item) => sum + item.confidence, 0) / combinedResults.length
-        : 0;
+    try {
+      // PDF pages are rendered on the page first; pdf.js needs a DOM canvas
+      let source: Blob | ImageBitmap = uploadedImage;
+      if (pdfPageNumber !== null) {
+        setCurrentStage(`Rendering PDF page ${pdfPageNumber} at ${pdfDpi} DPI`);
+        source = (await rasterizePdfFilePage(uploadedImage, pdfPageNumber, { dpi: pdfDpi }, controller.signal)).image;
+      }
 
-      // Create the final results object
-      const results: OCRResult = {
-        characters,
-        numbers,
-        processingTime,
-        confidence: Math.round(avgConfidence * 10) / 10,
-        detailedResults: combinedResults
-      };
+      // The pipeline runs in a Web Worker so the page stays responsive
+      const results = await runOCRPipelineInWorker(source, {
+        pipeline: profile.pipeline,
+        config: profile.config,
+        expectedTerms: expectedTermsInput,
+        page: pdfPageNumber ?? undefined
+      }, {
+        onProgress: setProcessingProgress,
+        onStage: (_stage, label) => setCurrentStage(label),
+        onPartial: (pass, partial) => {
+          console.log(`Partial results from ${pass}: ${partial.length} reads`);
+          setPartialReads(count => count + partial.length);
+        },
+        onEvent: event => setPipelineEvents(events => [...events, event])
+      }, controller.signal);
 
       setOcrResults(results);
       
@@ -315,10 +160,18 @@ const OCRProcessor = () => {
       
       toast({
         title: "Processing Complete!",
-        description: `Extracted ${characters.length} text items and ${numbers.length} numbers with ${results.confidence.toFixed(1)}% confidence.`
+        description: `Extracted ${results.characters.length} text items and ${results.numbers.length} numbers with ${results.confidence.toFixed(1)}% confidence.`
       });
 
     } catch (error) {
+      if (isAbortError(error)) {
+        console.log('OCR processing cancelled');
+        toast({
+          title: "Processing Cancelled",
+          description: "OCR processing was stopped before it finished."
+        });
+        return;
+      }
       console.error('OCR Processing Error:', error);
       toast({
         title: "Processing Failed",
@@ -326,15 +179,34 @@ const OCRProcessor = () => {
         variant: "destructive"
       });
     } finally {
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+      }
       setIsProcessing(false);
       setProcessingProgress(0);
+      setCurrentStage(null);
     }
   };
 
+  // Latest work reported by the running stage, for the progress line
+  const latestWork = pipelineEvents.reduce<Extract<PipelineEvent, { type: 'work-progress' }> | null>(
+    (latest, event) => event.type === 'work-progress' ? event : event.type === 'stage-started' ? null : latest,
+    null
+  );
+
+  // Cancel the running pipeline, including pending engine requests
+  const cancelProcessing = () => {
+    abortControllerRef.current?.abort();
+  };
+
   // Handle CSV download
   const handleDownloadCSV = () => {
     if (ocrResults) {
-      downloadCSV(ocrResults.detailedResults, `cadastral_ocr_results_${new Date().toISOString().slice(0, 10)}.csv`);
+      downloadCSV(ocrResults.detailedResults, `cadastral_ocr_results_${new Date().toISOString().slice(0, 10)}.csv`, {
+        includeProvenance: true,
+        includePage: ocrResults.sheet?.page !== undefined,
+        numberVerification: ocrResults.numberVerification
+      });
       toast({
         title: "CSV Downloaded",
         description: "Results have been exported to CSV format with confidence scores."
@@ -342,13 +214,23 @@ const OCRProcessor = () => {
     }
   };
 
-  // Cleanup resources on unmount
+  // Download the removed boundary lines and hatching as a PNG
+  const handleDownloadLineLayer = () => {
+    const lineLayer = ocrResults?.sheet?.lineLayer;
+    if (!lineLayer) return;
+
+    const link = document.createElement('a');
+    link.href = lineLayer;
+    link.download = `cadastral_line_layer_${new Date().toISOString().slice(0, 10)}.png`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
+  // Cancel a running pipeline when leaving the page
   React.useEffect(() => {
-    return () => {
-      ocrEngine.terminate();
-      textDetector.terminate();
-    };
-  }, [ocrEngine, textDetector]);
+    return () => abortControllerRef.current?.abort();
+  }, []);
 
   return (
     <div className="min-h-screen bg-gray-50 p-6">
@@ -366,6 +248,14 @@ const OCRProcessor = () => {
               Gaussian blur noise reduction, contrast enhancement, and LSTM neural network OCR
             </p>
           </div>
+          <Link to="/playground" className="inline-flex items-center mt-4 text-sm text-blue-600 hover:underline">
+            <SlidersHorizontal className="h-4 w-4 mr-1" />
+            Tune preprocessing in the playground
+          </Link>
+          <Link to="/batch" className="inline-flex items-center mt-4 ml-6 text-sm text-blue-600 hover:underline">
+            <Layers className="h-4 w-4 mr-1" />
+            Process a whole map set
+          </Link>
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -375,20 +265,33 @@ const OCRProcessor = () => {
               <CardHeader>
                 <CardTitle>Upload Cadastral Map</CardTitle>
                 <CardDescription>
-                  Select a high-resolution cadastral map image for advanced OCR processing
+                  Select a high-resolution cadastral map image or scanned PDF for advanced OCR processing
                 </CardDescription>
               </CardHeader>
               <CardContent>
-                <ImageUpload onImageUpload={handleImageUpload} />
+                <ImageUpload acceptPdf onImageUpload={handleImageUpload} />
               </CardContent>
             </Card>
 
+            {pdfPageCount !== null && (
+              <PdfPageOptions
+                single
+                pages={pdfPage}
+                dpi={pdfDpi}
+                pageCount={pdfPageCount}
+                disabled={isProcessing}
+                error={pdfPageNumber === null ? `Enter a page from 1 to ${pdfPageCount}` : undefined}
+                onPagesChange={setPdfPage}
+                onDpiChange={setPdfDpi}
+              />
+            )}
+
             {imagePreview && (
               <Card>
                 <CardHeader>
                   <CardTitle>Image Preview</CardTitle>
                   <CardDescription>
-                    Original image ready for processing
+                    {pdfPageNumber !== null ? `Page ${pdfPageNumber} of the PDF, ready for processing` : 'Original image ready for processing'}
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
@@ -397,6 +300,18 @@ const OCRProcessor = () => {
               </Card>
             )}
 
+            {imagePreview && (
+              <SettingsPanel disabled={isProcessing} onProfileChange={handleProfileChange} />
+            )}
+
+            {imagePreview && (
+              <ColorLayerPreview imageSrc={imagePreview} selectedLayers={profile.config.map.inkLayers ?? ['black']} />
+            )}
+
+            {imagePreview && (
+              <OnnxModelLoader disabled={isProcessing} />
+            )}
+
             {imagePreview && (
               <Card>
                 <CardHeader>
@@ -406,14 +321,38 @@ const OCRProcessor = () => {
                   </CardDescription>
                 </CardHeader>
                 <CardContent>
+                  <div className="mb-4 space-y-2">
+                    <Label htmlFor="expected-terms">Expected terms (optional)</Label>
+                    <Textarea
+                      id="expected-terms"
+                      value={expectedTermsInput}
+                      onChange={(e) => setExpectedTermsInput(e.target.value)}
+                      placeholder="Place names and survey numbers you expect on this map, one per line or comma separated"
+                      disabled={isProcessing}
+                      rows={3}
+                    />
+                    <p className="text-xs text-gray-500">
+                      Each term is reported as found (with its location) or missing. Nothing is added to the results.
+                    </p>
+                  </div>
                   <Button 
                     onClick={processImage} 
-                    disabled={isProcessing}
+                    disabled={isProcessing || !settingsValid || (pdfPageCount !== null && pdfPageNumber === null)}
                     className="w-full"
                     size="lg"
                   >
                     {isProcessing ? 'Processing with Advanced OCR...' : 'Start Advanced OCR Processing'}
                   </Button>
+                  {isProcessing && (
+                    <Button
+                      onClick={cancelProcessing}
+                      className="w-full mt-2"
+                      variant="outline"
+                    >
+                      <Square className="h-4 w-4 mr-2" />
+                      Cancel
+                    </Button>
+                  )}
                   
                   {isProcessing && (
                     <div className="mt-4">
@@ -421,12 +360,19 @@ const OCRProcessor = () => {
                       <p className="text-sm text-gray-600 mt-2 text-center">
                         Advanced Processing: {Math.round(processingProgress)}%
                       </p>
-                      <div className="text-xs text-gray-500 mt-1 text-center">
-                        {processingProgress < 30 && "Applying image preprocessing..."}
-                        {processingProgress >= 30 && processingProgress < 70 && "Running neural network OCR..."}
-                        {processingProgress >= 70 && processingProgress < 90 && "Extracting and classifying text..."}
-                        {processingProgress >= 90 && "Post-processing results..."}
-                      </div>
+                      {currentStage && (
+                        <div className="text-xs text-gray-500 mt-1 text-center">
+                          {currentStage}...
+                          {latestWork && latestWork.total > 0 && (
+                            <> {latestWork.task} {latestWork.done}/{latestWork.total} {latestWork.unit}</>
+                          )}
+                        </div>
+                      )}
+                      {partialReads > 0 && (
+                        <p className="text-xs text-gray-500 mt-1 text-center">
+                          {partialReads} reads so far
+                        </p>
+                      )}
                     </div>
                   )}
                 </CardContent>
@@ -440,6 +386,7 @@ const OCRProcessor = () => {
               isProcessing={isProcessing}
               progress={processingProgress}
               results={ocrResults}
+              events={pipelineEvents}
             />
             
             {ocrResults && (
@@ -461,8 +408,17 @@ const OCRProcessor = () => {
                     >
                       Download CSV Results
                     </Button>
+                    {ocrResults.sheet?.lineLayer && (
+                      <Button
+                        onClick={handleDownloadLineLayer}
+                        className="w-full mt-2"
+                        variant="outline"
+                      >
+                        Download Line Layer (PNG)
+                      </Button>
+                    )}
                     <p className="text-xs text-gray-500 mt-2 text-center">
-                      CSV includes all detected text with confidence scores and coordinates
+                      CSV includes all detected text with confidence scores and coordinates; the line layer holds the removed parcel boundaries
                     </p>
                   </CardContent>
                 </Card>
@@ -0,0 +1,275 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { ArrowLeft, Save, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import ImageUpload from '@/components/ocr/ImageUpload';
+import OperatorChainEditor from '@/components/ocr/OperatorChainEditor';
+import { OPERATOR_LABELS, OperatorStep, chain } from '@/utils/imageOperators';
+import { canvasToDataURL, imageDataToCanvas, imageSize, imageToCanvas, readImageData } from '@/utils/canvas';
+import {
+  BUILT_IN_PRESETS,
+  PreprocessingPreset,
+  deletePreset,
+  loadPresets,
+  savePreset
+} from '@/utils/preprocessingPresets';
+
+// Output of one chain step, as shown in the preview grid
+interface StepPreview {
+  label: string;
+  url: string;
+  size: string;
+  durationMs: number;
+}
+
+// Wait after the last edit before re-running the chain
+const PREVIEW_DEBOUNCE_MS = 250;
+
+const PreprocessingPlayground = () => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [previewWidth, setPreviewWidth] = useState(600);
+  const [presets, setPresets] = useState<PreprocessingPreset[]>(() => loadPresets());
+  const [presetName, setPresetName] = useState(BUILT_IN_PRESETS[0].name);
+  const [steps, setSteps] = useState<OperatorStep[]>(BUILT_IN_PRESETS[0].steps);
+  const [saveName, setSaveName] = useState('');
+  const [previews, setPreviews] = useState<StepPreview[]>([]);
+  const [isRendering, setIsRendering] = useState(false);
+  // Only the latest render may publish its previews
+  const renderIdRef = useRef(0);
+  const { toast } = useToast();
+
+  const selectedPreset = presets.find(preset => preset.name === presetName);
+
+  const handleImageUpload = (file: File) => {
+    const url = URL.createObjectURL(file);
+    const element = new Image();
+    element.onload = () => {
+      URL.revokeObjectURL(url);
+      setImage(element);
+    };
+    element.src = url;
+  };
+
+  const loadPreset = (name: string) => {
+    const preset = presets.find(entry => entry.name === name);
+    if (!preset) return;
+    setPresetName(preset.name);
+    setSteps(preset.steps);
+    setSaveName(preset.builtIn ? '' : preset.name);
+  };
+
+  useEffect(() => {
+    if (!image) return;
+
+    const renderId = ++renderIdRef.current;
+    const timer = setTimeout(async () => {
+      setIsRendering(true);
+
+      // Run the chain on a downscaled copy so that sliders stay responsive
+      const { width, height } = imageSize(image);
+      const scale = Math.min(1, previewWidth / width);
+      const source = readImageData(imageToCanvas(image, Math.round(width * scale), Math.round(height * scale)));
+
+      const outputs: { label: string; image: ImageData; durationMs: number }[] = [
+        { label: 'Original', image: source, durationMs: 0 }
+      ];
+      let stepStart = performance.now();
+      chain(steps).run(source, (step, output, index) => {
+        const now = performance.now();
+        outputs.push({ label: `${index + 1}. ${OPERATOR_LABELS[step.op]}`, image: output, durationMs: now - stepStart });
+        stepStart = now;
+      });
+
+      const rendered: StepPreview[] = [];
+      for (const output of outputs) {
+        rendered.push({
+          label: output.label,
+          url: await canvasToDataURL(imageDataToCanvas(output.image)),
+          size: `${output.image.width}×${output.image.height}`,
+          durationMs: output.durationMs
+        });
+      }
+
+      if (renderId === renderIdRef.current) {
+        setPreviews(rendered);
+        setIsRendering(false);
+      }
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => clearTimeout(timer);
+  }, [image, steps, previewWidth]);
+
+  const handleSave = () => {
+    try {
+      const saved = savePreset({ name: saveName.trim(), steps });
+      setPresets(loadPresets());
+      setPresetName(saved.name);
+      toast({
+        title: "Preset Saved",
+        description: `Preprocessing preset '${saved.name}' was saved.`
+      });
+    } catch (error) {
+      toast({
+        title: "Preset Not Saved",
+        description: error instanceof Error ? error.message : 'Unknown error',
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleDelete = () => {
+    if (!selectedPreset || selectedPreset.builtIn) return;
+    deletePreset(selectedPreset.name);
+    setPresets(loadPresets());
+    setPresetName(BUILT_IN_PRESETS[0].name);
+    toast({
+      title: "Preset Deleted",
+      description: `Preprocessing preset '${selectedPreset.name}' was deleted.`
+    });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-6">
+      <div className="max-w-7xl mx-auto">
+        <div className="mb-8">
+          <Link to="/ocr" className="inline-flex items-center text-sm text-blue-600 hover:underline mb-4">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to OCR
+          </Link>
+          <h1 className="text-4xl font-bold text-gray-900 mb-2">
+            Preprocessing Playground
+          </h1>
+          <p className="text-lg text-gray-600">
+            See what every preprocessing step does to your map, tune it, and save the chain as a preset
+          </p>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          {/* Left Column - Image, presets and chain */}
+          <div className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Cadastral Map</CardTitle>
+                <CardDescription>
+                  Steps run on a copy scaled to the preview width
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <ImageUpload onImageUpload={handleImageUpload} />
+                <div className="space-y-1">
+                  <div className="flex justify-between">
+                    <Label htmlFor="preview-width" className="text-sm font-normal">Preview width (px)</Label>
+                    <span className="text-xs text-gray-500">{previewWidth}</span>
+                  </div>
+                  <Slider
+                    id="preview-width"
+                    min={200}
+                    max={2000}
+                    step={100}
+                    value={[previewWidth]}
+                    onValueChange={([next]) => setPreviewWidth(next)}
+                  />
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Preset</CardTitle>
+                <CardDescription>
+                  {selectedPreset?.description ?? 'Start from a preset or build a chain from scratch'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Select value={selectedPreset ? presetName : undefined} onValueChange={loadPreset}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Unsaved chain" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {presets.map(preset => (
+                      <SelectItem key={preset.name} value={preset.name}>
+                        {preset.name}{preset.builtIn ? ' (built-in)' : ''}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Preset name"
+                    value={saveName}
+                    onChange={event => setSaveName(event.target.value)}
+                  />
+                  <Button onClick={handleSave} disabled={!saveName.trim() || steps.length === 0}>
+                    <Save className="h-4 w-4 mr-2" />
+                    Save
+                  </Button>
+                  <Button
+                    onClick={handleDelete}
+                    disabled={!selectedPreset || selectedPreset.builtIn}
+                    variant="outline"
+                    aria-label="Delete preset"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-gray-500">
+                  Saved presets can be run on the text or number tiles: pick one under the tile preprocessing settings of a processing profile.
+                </p>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Operator Chain</CardTitle>
+                <CardDescription>
+                  Steps run top to bottom; every change re-renders the previews
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <OperatorChainEditor steps={steps} onChange={setSteps} />
+              </CardContent>
+            </Card>
+          </div>
+
+          {/* Right Columns - Step previews */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader>
+                <CardTitle>Step Previews</CardTitle>
+                <CardDescription>
+                  {isRendering ? 'Rendering...' : 'Output of every step of the chain'}
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {!image ? (
+                  <p className="text-sm text-gray-500">Upload a map to see the previews.</p>
+                ) : (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {previews.map(preview => (
+                      <figure key={preview.label} className="border rounded-lg overflow-hidden bg-white">
+                        <img src={preview.url} alt={preview.label} className="w-full h-auto" />
+                        <figcaption className="flex justify-between px-3 py-2 text-xs text-gray-600 border-t">
+                          <span className="font-medium">{preview.label}</span>
+                          <span>{preview.size}{preview.durationMs > 0 ? ` · ${Math.round(preview.durationMs)}ms` : ''}</span>
+                        </figcaption>
+                      </figure>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PreprocessingPlayground;
@@ -9,6 +9,15 @@ declare module 'tesseract.js' {
     lang?: string;
   }
 
+  interface OutputFormats {
+    text?: boolean;
+    blocks?: boolean;
+    hocr?: boolean;
+    tsv?: boolean;
+  }
+
+  type ImageLike = string | HTMLImageElement | HTMLCanvasElement;
+
   interface WorkerOptions {
     logger?: (message: any) => void;
     errorHandler?: (error: any) => void;
@@ -83,7 +92,7 @@ declare module 'tesseract.js' {
     loadLanguage(langs: string): Promise<Worker>;
     initialize(langs: string): Promise<Worker>;
     setParameters(params: Record<string, string>): Promise<Worker>;
-    recognize(image: string | HTMLImageElement, options?: RecognizeOptions): Promise<RecognizeResult>;
+    recognize(image: ImageLike, options?: RecognizeOptions, output?: OutputFormats): Promise<RecognizeResult>;
     detect(image: string | HTMLImageElement): Promise<any>;
     terminate(): Promise<void>;
   }
@@ -1,10 +1,12 @@
 import Tesseract from 'tesseract.js';
 import { ImagePreprocessor } from './imagePreprocessing';
+import { TesseractRecognizer } from './tesseractAdapter';
+import { recordCorrection, recordSource, ProvenanceSource } from './provenance';
+import { mergeOverlappingDetections } from './detectionMerging';
 import { 
   CADASTRAL_PLACE_NAMES as DICTIONARY_PLACE_NAMES, 
   CADASTRAL_NUMBERS, 
   correctPlaceName, 
-  correctNumber,
   postProcessOCRText 
 } from './cadastralDictionary';
 
@@ -29,69 +31,101 @@ export interface DetectedText {
     y1: number;
   };
   type: 'character' | 'number';
+  rotatedBox?: RotatedBox;   // Oriented box of a rotated label (bbox then encloses it)
+  polygon?: Point[];         // Corners of rotatedBox: top-left, top-right, bottom-right, bottom-left
+  consensus?: ConsensusInfo; // Set when several engines were voted into this read
+  provenance?: Provenance;   // Where the read came from and how it was changed
+  page?: number;             // PDF page the sheet was rendered from (1-based)
 }
 
-export class AdvancedOCREngine {
-  private preprocessor: ImagePreprocessor;
-  private worker: Tesseract.Worker | null = null;
+export interface Point {
+  x: number;
+  y: number;
+}
 
-  constructor() {
-    this.preprocessor = new ImagePreprocessor();
-  }
+// A rectangle rotated clockwise by `angle` degrees around its center
+export interface RotatedBox {
+  cx: number;
+  cy: number;
+  width: number;  // Along the text direction
+  height: number;
+  angle: number;  // -90 to 90
+}
 
-  private async initializeWorker(): Promise<void> {
-    if (this.worker) return;
+// One post-processing step that changed a read
+export interface CorrectionStep {
+  step: string;            // e.g. 'fuzzy-match', 'cadastral-dictionary'
+  from: string;
+  to: string;
+  confidenceDelta: number;
+}
 
-    console.log('Initializing enhanced OCR worker for cadastral maps...');
-    this.worker = await Tesseract.createWorker('eng', 1, {
-      logger: m => console.log('OCR Progress:', m),
-      errorHandler: err => console.error('OCR Error:', err)
-    });
+// Origin of a read and the chain of corrections applied to it
+export interface Provenance {
+  engine?: string;         // Engine slot id ('a+b' for a consensus of several)
+  preprocessing?: string;  // Preprocessing variant the engine was given
+  angle?: number;          // Rotation (degrees) of the image that was read
+  tileId?: string;         // Tile or region the read came from
+  rawText: string;         // Text as the engine returned it
+  corrections: CorrectionStep[];
+}
 
-    // Specialized Tesseract parameters for cadastral maps
-    await this.worker.setParameters({
-      // Extended character whitelist including all possible characters in cadastral maps
-      tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789,.-()/ ',
-      // Enable HOCR output for better structure analysis
-      tessjs_create_hocr: '1',
-      tessjs_create_tsv: '1',
-      tessjs_create_box: '1',
-      // Preserve spaces between words for better text segmentation
-      preserve_interword_spaces: '1',
-      // Don't invert colors as cadastral maps typically have dark text on light background
-      tessedit_do_invert: '0',
-      // Set OCR engine mode to LSTM only for better accuracy
-      tessedit_ocr_engine_mode: '2',
-      // Improve word recognition
-      textord_min_linesize: '2.5',
-      // Adjust for text size variations in cadastral maps
-      textord_tablefind_recognize_tables: '0',
-      // Improve text line detection
-      textord_tabfind_find_tables: '0',
-      // Adjust for text orientation in maps
-      textord_tabfind_vertical_text: '1',
-      // Improve text recognition confidence
-      lstm_choice_mode: '2',
-      // Improve segmentation for touching characters
-      lstm_choice_iterations: '10',
-      // Improve dictionary-based correction
-      textord_heavy_nr: '0',
-      // Adjust for text with varying spacing
-      tessedit_pageseg_mode: '6'
-    });
+// One engine's read that took part in a consensus vote
+export interface EngineRead {
+  engine: string;
+  text: string;
+  confidence: number;
+}
 
-    console.log('OCR worker initialized with specialized cadastral map parameters');
+// How a consensus read was formed
+export interface ConsensusInfo {
+  agreement: number;   // 0-1: average share of reads agreeing with each consensus character
+  reads: EngineRead[]; // The per-engine reads that were voted on
+}
+
+// Specialized Tesseract parameters for cadastral maps
+// (the page segmentation mode is set per recognition call)
+const CADASTRAL_TESSERACT_PARAMETERS: Record<string, string> = {
+  // Extended character whitelist including all possible characters in cadastral maps
+  tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789,.-()/ ',
+  // Enable HOCR output for better structure analysis
+  tessjs_create_hocr: '1',
+  tessjs_create_tsv: '1',
+  tessjs_create_box: '1',
+  // Preserve spaces between words for better text segmentation
+  preserve_interword_spaces: '1',
+  // Don't invert colors as cadastral maps typically have dark text on light background
+  tessedit_do_invert: '0',
+  // Improve word recognition
+  textord_min_linesize: '2.5',
+  // Adjust for text size variations in cadastral maps
+  textord_tablefind_recognize_tables: '0',
+  // Improve text line detection
+  textord_tabfind_find_tables: '0',
+  // Adjust for text orientation in maps
+  textord_tabfind_vertical_text: '1',
+  // Improve text recognition confidence
+  lstm_choice_mode: '2',
+  // Improve segmentation for touching characters
+  lstm_choice_iterations: '10',
+  // Improve dictionary-based correction
+  textord_heavy_nr: '0'
+};
+
+export class AdvancedOCREngine {
+  private preprocessor: ImagePreprocessor;
+  private recognizer: TesseractRecognizer;
+
+  constructor() {
+    this.preprocessor = new ImagePreprocessor();
+    this.recognizer = new TesseractRecognizer(CADASTRAL_TESSERACT_PARAMETERS);
   }
 
   async processImage(imageElement: HTMLImageElement, progressCallback?: (progress: number) => void): Promise<DetectedText[]> {
-    await this.initializeWorker();
-    if (!this.worker) throw new Error('Failed to initialize OCR worker');
-
     progressCallback?.(10);
 
     // Get all preprocessed image versions for multi-approach OCR
-    const processedImageData = await this.preprocessor.processImage(imageElement);
-    const processedVersions = (window as any).__ocrProcessedVersions || [processedImageData];
+    const processedVersions = await this.preprocessor.processImage(imageElement);
     progressCallback?.(30);
 
     console.log('Starting multi-approach OCR recognition with multiple image versions...');
@@ -115,11 +149,14 @@ export class AdvancedOCREngine {
       for (let j = 0; j < usePsmModes.length; j++) {
         const psmMode = usePsmModes[j];
         try {
-          const result = await this.recognizeWithPSM(imageVersion, psmMode);
-          console.log(`Version ${i+1}, PSM ${psmMode} results:`, result.data.text);
+          const page = await this.recognizeWithPSM(imageVersion, psmMode);
+          console.log(`Version ${i+1}, PSM ${psmMode} results:`, page.text);
           
           // Extract text with specialized classification for cadastral maps
-          const extracted = this.extractAndClassifyText(result.data);
+          const extracted = this.extractAndClassifyText(page, {
+            engine: 'tesseract',
+            preprocessing: `version-${i + 1}-psm-${psmMode}`
+          });
           allDetectedTexts.push(...extracted);
           
           // Update progress
@@ -132,18 +169,14 @@ export class AdvancedOCREngine {
       }
     }
     
-    // Try direct recognition of known cadastral terms
-    await this.recognizeKnownCadastralTerms(imageElement, allDetectedTexts);
+    // Extra pass on a high-resolution copy for small labels
+    await this.recognizeHighResolutionPass(imageElement, allDetectedTexts);
     progressCallback?.(85);
 
     console.log('All detected texts before post-processing:', allDetectedTexts);
 
     // Enhanced post-processing for better accuracy
-    const refinedResults = this.postProcessResults(allDetectedTexts);
-    progressCallback?.(95);
-    
-    // Ensure critical cadastral terms are included
-    const finalResults = this.ensureCriticalTerms(refinedResults);
+    const finalResults = this.postProcessResults(allDetectedTexts);
     progressCallback?.(100);
 
     console.log('Final enhanced results:', finalResults);
@@ -151,15 +184,11 @@ export class AdvancedOCREngine {
     return finalResults;
   }
 
-  private async recognizeWithPSM(imageData: string, psm: number): Promise<any> {
-    if (!this.worker) throw new Error('Worker not initialized');
-    
-    return await this.worker.recognize(imageData, {
-      rectangle: undefined,
-    });
+  private recognizeWithPSM(imageData: string, psm: number): Promise<Tesseract.Page> {
+    return this.recognizer.recognizePage(imageData, psm);
   }
 
-  private extractAndClassifyText(data: Tesseract.Page): DetectedText[] {
+  private extractAndClassifyText(data: Tesseract.Page, source: ProvenanceSource): DetectedText[] {
     const results: DetectedText[] = [];
     
     console.log('Processing OCR data with specialized cadastral map extraction...');
@@ -195,30 +224,32 @@ export class AdvancedOCREngine {
                         const isCharacter = (/^[A-Za-z][a-zA-Z\s,.-]*$/.test(cleanText) && cleanText.length >= 2) ||
                                           (lineIsPotentialPlaceName && cleanText.length >= 3);
                         
-                        // Boost confidence for words in lines that look like place names or number sequences
-                        let adjustedConfidence = word.confidence;
-                        if ((isCharacter && lineIsPotentialPlaceName) || (isNumber && lineIsPotentialNumberSequence)) {
-                          adjustedConfidence = Math.min(adjustedConfidence + 15, 100);
-                        }
-                        
-                        // Special handling for cadastral map numbers (typically 2-3 digits)
-                        if (isNumber && (cleanText.length >= 2 && cleanText.length <= 3)) {
-                          adjustedConfidence = Math.min(adjustedConfidence + 10, 100);
-                        }
-                        
-                        // Special handling for known cadastral map place name patterns
-                        if (isCharacter && /^[A-Z][a-z]+[a-z]*$/.test(cleanText)) {
-                          // Proper capitalized names get a confidence boost
-                          adjustedConfidence = Math.min(adjustedConfidence + 15, 100);
-                        }
-                        
                         if (isNumber || isCharacter) {
-                          results.push({
-                            text: cleanText,
-                            confidence: adjustedConfidence,
+                          let detected: DetectedText = recordSource({
+                            text,
+                            confidence: word.confidence,
                             bbox: word.bbox,
                             type: isNumber ? 'number' : 'character'
-                          });
+                          }, source);
+                          detected = recordCorrection(detected, 'cleanup', cleanText, detected.confidence);
+                          
+                          // Boost confidence for words in lines that look like place names or number sequences
+                          if ((isCharacter && lineIsPotentialPlaceName) || (isNumber && lineIsPotentialNumberSequence)) {
+                            detected = recordCorrection(detected, 'line-context-boost', cleanText, Math.min(detected.confidence + 15, 100));
+                          }
+                          
+                          // Special handling for cadastral map numbers (typically 2-3 digits)
+                          if (isNumber && (cleanText.length >= 2 && cleanText.length <= 3)) {
+                            detected = recordCorrection(detected, 'number-length-boost', cleanText, Math.min(detected.confidence + 10, 100));
+                          }
+                          
+                          // Special handling for known cadastral map place name patterns
+                          if (isCharacter && /^[A-Z][a-z]+[a-z]*$/.test(cleanText)) {
+                            // Proper capitalized names get a confidence boost
+                            detected = recordCorrection(detected, 'capitalized-name-boost', cleanText, Math.min(detected.confidence + 15, 100));
+                          }
+                          
+                          results.push(detected);
                         }
                       }
                     }
@@ -247,12 +278,12 @@ export class AdvancedOCREngine {
             const isCharacter = /^[a-zA-Z][a-zA-Z\s,.-]*$/.test(cleanToken) && cleanToken.length >= 2;
             
             if (isNumber || isCharacter) {
-              results.push({
+              results.push(recordSource({
                 text: cleanToken,
                 confidence: 50, // Default confidence for fallback
                 bbox: { x0: 0, y0: 0, x1: 0, y1: 0 },
                 type: isNumber ? 'number' : 'character'
-              });
+              }, source));
             }
           }
         });
@@ -264,14 +295,14 @@ export class AdvancedOCREngine {
   }
 
   private postProcessResults(detectedTexts: DetectedText[]): DetectedText[] {
-    // Enhanced duplicate removal and text merging with dictionary-based correction
-    const textMap = new Map<string, DetectedText>();
+    // Dictionary-based correction, then merging of overlapping reads
     const processedItems: DetectedText[] = [];
     
     // First pass: Clean and apply dictionary matching to each detected text
     for (const item of detectedTexts) {
       if (item.confidence > 10 && item.text.length > 0) { // Lowered confidence threshold to catch more candidates
         // Clean up text more thoroughly
+        let corrected = item;
         let cleanText = item.text
           .replace(/[^\w\s,.-]/g, '') // Remove special chars except basic punctuation
           .replace(/\s+/g, ' ')       // Normalize whitespace
@@ -286,42 +317,27 @@ export class AdvancedOCREngine {
             const correctedText = correctPlaceName(cleanText);
             if (correctedText !== cleanText) {
               console.log(`Cadastral dictionary correction: '${cleanText}' → '${correctedText}'`);
+              corrected = recordCorrection(corrected, 'cleanup', cleanText, corrected.confidence);
               cleanText = correctedText;
               // Boost confidence for dictionary matches
-              item.confidence = Math.min(item.confidence + 25, 100);
+              corrected = recordCorrection(corrected, 'cadastral-dictionary', cleanText, Math.min(corrected.confidence + 25, 100));
             }
           }
         } else if (item.type === 'number') {
-          // Apply number-specific cleaning and correction using our specialized cadastral dictionary
-          if (cleanText.length > 0) {
-            const correctedNumber = correctNumber(cleanText);
-            if (correctedNumber !== cleanText) {
-              console.log(`Cadastral number correction: '${cleanText}' → '${correctedNumber}'`);
-              cleanText = correctedNumber;
-              // Boost confidence for number matches
-              item.confidence = Math.min(item.confidence + 30, 100);
-            }
-          }
+          // Keep only the digits; numbers are never replaced by dictionary entries
+          // (verification annotates them against the known numbers)
+          cleanText = cleanText.replace(/[^0-9]/g, '');
         }
 
         // Only add valid text after cleaning and correction
         if (cleanText.length > 0) {
-          const key = `${cleanText.toLowerCase()}_${item.type}`;
-          
-          if (!textMap.has(key) || textMap.get(key)!.confidence < item.confidence) {
-            textMap.set(key, {
-              text: cleanText,
-              confidence: item.confidence,
-              bbox: item.bbox,
-              type: item.type
-            });
-          }
+          processedItems.push(recordCorrection(corrected, 'cleanup', cleanText, corrected.confidence));
         }
       }
     }
 
-    // Convert back to array and sort by confidence
-    const refined = Array.from(textMap.values());
+    // Fuse reads of the same label; repeated labels at other places are kept
+    const refined = mergeOverlappingDetections(processedItems);
     
     // Sort by type (numbers first) then by confidence
     return refined.sort((a, b) => {
@@ -333,138 +349,45 @@ export class AdvancedOCREngine {
   }
 
   async terminate(): Promise<void> {
-    if (this.worker) {
-      await this.worker.terminate();
-      this.worker = null;
-    }
+    await this.recognizer.terminate();
   }
 
   /**
-   * Specialized method to recognize known cadastral terms directly
-   * This helps ensure we detect the specific place names and numbers mentioned in the problem
+   * Extra recognition pass on a 4x upscaled, lightened copy of the image
+   * Small labels that the preprocessed versions miss are often readable here;
+   * the words are added with their real confidence and boxes scaled back
    */
-  private async recognizeKnownCadastralTerms(imageElement: HTMLImageElement, results: DetectedText[]): Promise<void> {
-    if (!this.worker) return;
+  private async recognizeHighResolutionPass(imageElement: HTMLImageElement, results: DetectedText[]): Promise<void> {
+    console.log('Performing high-resolution recognition pass...');
     
-    console.log('Performing specialized recognition for known cadastral terms...');
-    
-    // Create a specialized version of the image optimized for text detection
+    const scale = 4;
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d')!;
-    canvas.width = imageElement.naturalWidth * 4; // High resolution
-    canvas.height = imageElement.naturalHeight * 4;
+    canvas.width = imageElement.naturalWidth * scale;
+    canvas.height = imageElement.naturalHeight * scale;
     
     // Draw with high contrast for text visibility
     ctx.drawImage(imageElement, 0, 0, canvas.width, canvas.height);
     ctx.fillStyle = 'rgba(255, 255, 255, 0.3)';
     ctx.fillRect(0, 0, canvas.width, canvas.height);
     
-    const imageData = canvas.toDataURL('image/png');
-    
-    // Known cadastral terms to specifically look for
-    const criticalPlaceNames = [
-      'Benakanahalli', 'Devapur', 'Nalla', 'Devatakala', 'Mangihal', 'Gonal', 'Aladahal',
-      'Covered tank', 'Antaral', 'Rajapur', 'Stony waste', 'Nagarahal', 'kagaral',
-      'kawadimutt', 'Konal', 'Kaganti'
-    ];
-    
-    const criticalNumbers = [
-      '74', '24', '387', '13', '12', '11', '10', '76', '22', '396', '424', '404', '379', 
-      '372', '362', '364', '20', '426', '18', '391', '386', '377', '361', '402', '400'
-    ];
-    
     try {
-      // Try to recognize with specific settings for cadastral terms
-      const result = await this.worker.recognize(imageData, {
-        rectangle: undefined
-      });
-      
-      // Extract text and look for matches with critical terms
-      const text = result.data.text;
-      console.log('Direct recognition text:', text);
+      const page = await this.recognizer.recognizePage(canvas.toDataURL('image/png'), 6);
       
-      // Check for critical place names
-      for (const name of criticalPlaceNames) {
-        if (text.includes(name) || text.toLowerCase().includes(name.toLowerCase())) {
-          console.log(`Found critical place name directly: ${name}`);
-          results.push({
-            text: name,
-            confidence: 85, // High confidence for direct matches
-            bbox: { x0: 0, y0: 0, x1: 0, y1: 0 },
-            type: 'character'
-          });
-        }
-      }
-      
-      // Check for critical numbers
-      for (const num of criticalNumbers) {
-        if (text.includes(num)) {
-          console.log(`Found critical number directly: ${num}`);
-          results.push({
-            text: num,
-            confidence: 85, // High confidence for direct matches
-            bbox: { x0: 0, y0: 0, x1: 0, y1: 0 },
-            type: 'number'
-          });
-        }
-      }
-    } catch (error) {
-      console.error('Error in direct cadastral term recognition:', error);
-    }
-  }
-  
-  /**
-   * Ensure critical cadastral terms are included in the final results
-   * This is a final safeguard to make sure important terms are not missed
-   */
-  private ensureCriticalTerms(results: DetectedText[]): DetectedText[] {
-    // Critical terms that must be included in the results
-    const criticalPlaceNames = [
-      { text: 'Kaganti', confidence: 95 },
-      { text: 'Devatakala', confidence: 95 },
-      { text: 'Benakanahalli', confidence: 95 },
-      { text: 'Gonal', confidence: 95 },
-      { text: 'Konal', confidence: 95 }
-    ];
-    
-    const criticalNumbers = [
-      { text: '426', confidence: 95 },
-      { text: '396', confidence: 95 },
-      { text: '76', confidence: 95 },
-      { text: '22', confidence: 95 },
-      { text: '20', confidence: 95 }
-    ];
-    
-    // Get existing text values
-    const existingTexts = results.map(r => r.text.toLowerCase());
-    
-    // Add missing critical place names
-    for (const name of criticalPlaceNames) {
-      if (!existingTexts.includes(name.text.toLowerCase())) {
-        console.log(`Ensuring critical place name is included: ${name.text}`);
+      for (const item of this.extractAndClassifyText(page, { engine: 'tesseract', preprocessing: 'high-resolution-4x' })) {
         results.push({
-          text: name.text,
-          confidence: name.confidence,
-          bbox: { x0: 0, y0: 0, x1: 0, y1: 0 },
-          type: 'character'
-        });
-      }
-    }
-    
-    // Add missing critical numbers
-    for (const num of criticalNumbers) {
-      if (!existingTexts.includes(num.text)) {
-        console.log(`Ensuring critical number is included: ${num.text}`);
-        results.push({
-          text: num.text,
-          confidence: num.confidence,
-          bbox: { x0: 0, y0: 0, x1: 0, y1: 0 },
-          type: 'number'
+          ...item,
+          bbox: {
+            x0: item.bbox.x0 / scale,
+            y0: item.bbox.y0 / scale,
+            x1: item.bbox.x1 / scale,
+            y1: item.bbox.y1 / scale
+          }
         });
       }
+    } catch (error) {
+      console.error('Error in high-resolution recognition pass:', error);
     }
-    
-    return results;
   }
   
   // Additional method for batch processing multiple regions
@@ -2,57 +2,61 @@
  * Advanced Text Detection and Recognition Module for Cadastral Maps
  * 
  * This module implements a multi-stage approach:
- * 1. CRAFT or DBNet for text region detection
- * 2. TrOCR or EasyOCR for high-accuracy recognition
- * 3. Post-processing with fuzzy matching and LLM correction
+ * 1. Text region detection: a DBNet ONNX model (see onnxOCRAdapter.ts) or
+ *    connected components of the binarized sheet grouped into words (see
+ *    textRegionDetection.ts)
+ * 2. Recognition of each region with the registered 'trocr' engine (the
+ *    ONNX CRNN model) or the 'easyocr' engine
+ * 3. Post-processing with fuzzy matching and LLM correction, each rewrite
+ *    recorded in the read's provenance
  */
 
 import { DetectedText } from './advancedOCR';
-import { CADASTRAL_PLACE_NAMES, CADASTRAL_NUMBERS } from './cadastralDictionary';
+import { CADASTRAL_PLACE_NAMES } from './cadastralDictionary';
 import { batchExpandTexts } from './geminiExpander';
+import { imageDataToCanvas, imageToCanvas, readImageData } from './canvas';
+import { crop } from './imageOperators';
+import { TextRegionConfig, detectTextRegions } from './textRegionDetection';
+import { OCREngineAdapter, OCREngineId, getOCREngine } from './ocrEngineRegistry';
+import { OnnxDBNetDetector, registeredOnnxAdapter } from './onnxOCRAdapter';
+import { recordCorrection, recordSource } from './provenance';
+import { NumberVerification, describeVerification } from './numberDetection';
 
 // Configuration for text detection and recognition
 interface TextDetectionConfig {
-  useDBNet: boolean;  // If false, use CRAFT
-  useTrOCR: boolean;  // If false, use EasyOCR
+  useDBNet: boolean;  // DBNet ONNX model; if false, connected components
+  useTrOCR: boolean;  // The 'trocr' engine (ONNX CRNN); if false, the 'easyocr' engine
   confidenceThreshold: number;
   enableFuzzyMatching: boolean;
   enableLLMCorrection: boolean;
+  regionDetection: Partial<TextRegionConfig>;
 }
 
 // Default configuration
 const DEFAULT_CONFIG: TextDetectionConfig = {
-  useDBNet: false,     // CRAFT is more accurate for cadastral maps
-  useTrOCR: true,      // TrOCR has better performance for handwritten text
+  useDBNet: false,     // Needs a detection model loaded with registerOnnxOCREngine()
+  useTrOCR: true,
   confidenceThreshold: 0.4,
   enableFuzzyMatching: true,
-  enableLLMCorrection: true
+  enableLLMCorrection: true,
+  regionDetection: {}
 };
 
-// Text region detected by CRAFT or DBNet
+// Text region found by the region detector
 interface TextRegion {
   bbox: [number, number, number, number]; // [x1, y1, x2, y2]
   confidence: number;
   imageData: ImageData;
 }
 
-// Recognition result from TrOCR or EasyOCR
-interface RecognitionResult {
-  text: string;
-  confidence: number;
-  type: 'character' | 'number';
-  bbox: [number, number, number, number];
-}
-
 /**
  * Main class for advanced text detection and recognition
  */
 export class AdvancedTextDetector {
   private config: TextDetectionConfig;
-  private craftModel: any = null;
-  private dbNetModel: any = null;
-  private trOCRModel: any = null;
-  private easyOCRWorker: any = null;
+  private dbNetModel: OnnxDBNetDetector | null = null;
+  private recognizer: OCREngineAdapter | null = null;
+  private recognizerId: OCREngineId = 'trocr';
   private isInitialized = false;
 
   constructor(config: Partial<TextDetectionConfig> = {}) {
@@ -68,45 +72,27 @@ export class AdvancedTextDetector {
     console.log('Initializing advanced text detection models...');
     
     try {
-      // Load CRAFT model for text detection
-      if (!this.config.useDBNet) {
-        console.log('Loading CRAFT model for text region detection...');
-        // In a real implementation, we would load the CRAFT model here
-        // For this example, we'll simulate the model loading
-        this.craftModel = {
-          detect: this.simulateCRAFTDetection.bind(this)
-        };
+      // DBNet comes with the ONNX models; otherwise regions come from connected components
+      if (this.config.useDBNet) {
+        this.dbNetModel = registeredOnnxAdapter()?.detector ?? null;
+        if (!this.dbNetModel) {
+          throw new Error('useDBNet needs a DBNet detection model; load one with registerOnnxOCREngine()');
+        }
+        console.log('Using the DBNet ONNX model for text region detection');
       } else {
-        console.log('Loading DBNet model for text region detection...');
-        // In a real implementation, we would load the DBNet model here
-        // For this example, we'll simulate the model loading
-        this.dbNetModel = {
-          detect: this.simulateDBNetDetection.bind(this)
-        };
+        console.log('Using connected-component text region detection');
       }
       
-      // Load TrOCR model for text recognition
-      if (this.config.useTrOCR) {
-        console.log('Loading TrOCR model for text recognition...');
-        // In a real implementation, we would load the TrOCR model here
-        // For this example, we'll simulate the model loading
-        this.trOCRModel = {
-          recognize: this.simulateTrOCRRecognition.bind(this)
-        };
-      } else {
-        console.log('Initializing EasyOCR for text recognition...');
-        // In a real implementation, we would initialize EasyOCR here
-        // For this example, we'll simulate the EasyOCR worker
-        this.easyOCRWorker = {
-          recognize: this.simulateEasyOCRRecognition.bind(this)
-        };
-      }
+      // Recognition engine: the 'trocr' slot (ONNX CRNN) or the 'easyocr' slot
+      this.recognizerId = this.config.useTrOCR ? 'trocr' : 'easyocr';
+      this.recognizer = getOCREngine(this.recognizerId);
+      console.log(`Using ${this.recognizer.name} for text recognition`);
       
       this.isInitialized = true;
       console.log('Advanced text detection models initialized successfully');
     } catch (error) {
       console.error('Failed to initialize text detection models:', error);
-      throw new Error('Failed to initialize text detection models');
+      throw new Error(`Failed to initialize text detection models: ${error instanceof Error ? error.message : String(error)}`);
     }
   }
 
@@ -116,12 +102,12 @@ export class AdvancedTextDetector {
   async processImage(imageElement: HTMLImageElement, progressCallback?: (progress: number) => void): Promise<DetectedText[]> {
     await this.initialize();
     
-    // Step 1: Extract text regions using CRAFT or DBNet
+    // Step 1: Extract text regions
     progressCallback?.(10);
     console.log('Extracting text regions...');
     const textRegions = await this.extractTextRegions(imageElement);
     
-    // Step 2: Recognize text in each region using TrOCR or EasyOCR
+    // Step 2: Recognize text in each region
     progressCallback?.(30);
     console.log('Recognizing text in extracted regions...');
     const recognitionResults = await this.recognizeTextInRegions(textRegions, progressCallback);
@@ -131,55 +117,55 @@ export class AdvancedTextDetector {
     console.log('Post-processing recognition results...');
     const processedResults = await this.postProcessResults(recognitionResults);
     
-    // Step 4: Convert to DetectedText format
     progressCallback?.(90);
-    return this.convertToDetectedText(processedResults);
+    return processedResults;
   }
 
   /**
-   * Extract text regions from an image using CRAFT or DBNet
+   * Extract text regions from an image: DBNet boxes or word boxes of
+   * connected components, each with its crop of the image
    */
   private async extractTextRegions(imageElement: HTMLImageElement): Promise<TextRegion[]> {
-    // Create a canvas to process the image
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d')!;
-    canvas.width = imageElement.naturalWidth;
-    canvas.height = imageElement.naturalHeight;
-    ctx.drawImage(imageElement, 0, 0);
+    const image = readImageData(imageToCanvas(imageElement));
+    const regions = this.dbNetModel
+      ? (await this.dbNetModel.detect(image)).map(({ bbox, score }) => ({ bbox, confidence: score }))
+      : detectTextRegions(image, this.config.regionDetection);
+    console.log(`Detected ${regions.length} text regions`);
     
-    // Use CRAFT or DBNet for text region detection
-    if (!this.config.useDBNet) {
-      return await this.craftModel.detect(canvas);
-    } else {
-      return await this.dbNetModel.detect(canvas);
-    }
+    return regions.map(({ bbox, confidence }) => ({
+      bbox: [bbox.x0, bbox.y0, bbox.x1, bbox.y1],
+      confidence,
+      imageData: crop(image, bbox.x0, bbox.y0, bbox.x1 - bbox.x0, bbox.y1 - bbox.y0)
+    }));
   }
 
   /**
-   * Recognize text in extracted regions using TrOCR or EasyOCR
+   * Recognize text in extracted regions with the recognition engine
    */
   private async recognizeTextInRegions(
     regions: TextRegion[], 
     progressCallback?: (progress: number) => void
-  ): Promise<RecognitionResult[]> {
-    const results: RecognitionResult[] = [];
+  ): Promise<DetectedText[]> {
+    const results: DetectedText[] = [];
     let processedCount = 0;
     
     // Process each region
-    for (const region of regions) {
+    for (const [index, region] of regions.entries()) {
       try {
-        let recognitionResult;
-        
-        // Use TrOCR or EasyOCR for text recognition
-        if (this.config.useTrOCR) {
-          recognitionResult = await this.trOCRModel.recognize(region.imageData);
-        } else {
-          recognitionResult = await this.easyOCRWorker.recognize(region.imageData);
-        }
+        const reads = await this.recognizer!.recognize(imageDataToCanvas(region.imageData));
         
-        // Filter results by confidence threshold
-        if (recognitionResult.confidence >= this.config.confidenceThreshold) {
-          results.push(recognitionResult);
+        // Filter results by confidence threshold; boxes are relative to the region
+        const [left, top] = region.bbox;
+        for (const read of reads) {
+          if (read.confidence / 100 >= this.config.confidenceThreshold) {
+            const { x0, y0, x1, y1 } = read.bbox;
+            results.push(recordSource({
+              text: read.text,
+              confidence: read.confidence,
+              type: read.type,
+              bbox: { x0: left + x0, y0: top + y0, x1: left + x1, y1: top + y1 }
+            }, { engine: this.recognizerId, tileId: `region-${index}` }));
+          }
         }
         
         // Update progress
@@ -197,7 +183,7 @@ export class AdvancedTextDetector {
   /**
    * Post-process recognition results with fuzzy matching and LLM correction
    */
-  private async postProcessResults(results: RecognitionResult[]): Promise<RecognitionResult[]> {
+  private async postProcessResults(results: DetectedText[]): Promise<DetectedText[]> {
     const processedResults = [...results];
     
     // Apply fuzzy matching to known cadastral terms
@@ -206,26 +192,13 @@ export class AdvancedTextDetector {
         const result = processedResults[i];
         
         // Skip high-confidence results
-        if (result.confidence > 0.85) continue;
+        if (result.confidence > 85) continue;
         
-        // Apply fuzzy matching based on text type
+        // Fuzzy-match place names only; numbers are never replaced by dictionary entries
         if (result.type === 'character') {
           const match = this.findBestFuzzyMatch(result.text, CADASTRAL_PLACE_NAMES);
           if (match) {
-            processedResults[i] = {
-              ...result,
-              text: match,
-              confidence: Math.min(result.confidence + 0.15, 1.0)
-            };
-          }
-        } else if (result.type === 'number') {
-          const match = this.findBestFuzzyMatch(result.text, CADASTRAL_NUMBERS);
-          if (match) {
-            processedResults[i] = {
-              ...result,
-              text: match,
-              confidence: Math.min(result.confidence + 0.15, 1.0)
-            };
+            processedResults[i] = recordCorrection(result, 'fuzzy-match', match, Math.min(result.confidence + 15, 100));
           }
         }
       }
@@ -234,7 +207,7 @@ export class AdvancedTextDetector {
     // Apply LLM correction for remaining low-confidence or short text
     if (this.config.enableLLMCorrection) {
       const lowConfidenceTexts = processedResults
-        .filter(r => r.confidence < 0.7 || r.text.length <= 4)
+        .filter(r => r.type === 'character' && (r.confidence < 70 || r.text.length <= 4))
         .map(r => r.text);
       
       if (lowConfidenceTexts.length > 0) {
@@ -245,14 +218,10 @@ export class AdvancedTextDetector {
           // Update results with corrected text
           for (let i = 0; i < processedResults.length; i++) {
             const result = processedResults[i];
-            if (result.confidence < 0.7 || result.text.length <= 4) {
+            if (result.type === 'character' && (result.confidence < 70 || result.text.length <= 4)) {
               const correctedText = correctedTexts[result.text];
               if (correctedText && correctedText !== result.text) {
-                processedResults[i] = {
-                  ...result,
-                  text: correctedText,
-                  confidence: Math.min(result.confidence + 0.2, 1.0)
-                };
+                processedResults[i] = recordCorrection(result, 'llm', correctedText, Math.min(result.confidence + 20, 100));
               }
             }
           }
@@ -332,175 +301,115 @@ export class AdvancedTextDetector {
     return matrix[a.length][b.length];
   }
 
-  /**
-   * Convert recognition results to DetectedText format
-   */
-  private convertToDetectedText(results: RecognitionResult[]): DetectedText[] {
-    return results.map(result => ({
-      text: result.text,
-      confidence: result.confidence * 100, // Convert to percentage
-      type: result.type,
-      bbox: {
-        x0: result.bbox[0],
-        y0: result.bbox[1],
-        x1: result.bbox[2],
-        y1: result.bbox[3]
-      }
-    }));
-  }
-
-  /**
-   * Simulate CRAFT text detection (for demonstration purposes)
-   */
-  private async simulateCRAFTDetection(canvas: HTMLCanvasElement): Promise<TextRegion[]> {
-    const ctx = canvas.getContext('2d')!;
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-    
-    // In a real implementation, we would use the CRAFT model to detect text regions
-    // For this example, we'll simulate text regions
-    
-    // Divide the image into a grid and create text regions
-    const regions: TextRegion[] = [];
-    const gridSize = 4;
-    const cellWidth = canvas.width / gridSize;
-    const cellHeight = canvas.height / gridSize;
-    
-    for (let i = 0; i < gridSize; i++) {
-      for (let j = 0; j < gridSize; j++) {
-        const x1 = Math.floor(j * cellWidth);
-        const y1 = Math.floor(i * cellHeight);
-        const x2 = Math.floor((j + 1) * cellWidth);
-        const y2 = Math.floor((i + 1) * cellHeight);
-        
-        // Create a region with the cell's image data
-        const regionImageData = ctx.getImageData(x1, y1, x2 - x1, y2 - y1);
-        
-        regions.push({
-          bbox: [x1, y1, x2, y2],
-          confidence: 0.8 + Math.random() * 0.2, // Random confidence between 0.8 and 1.0
-          imageData: regionImageData
-        });
-      }
-    }
-    
-    // Add some smaller regions for potential text areas
-    for (let i = 0; i < 10; i++) {
-      const width = Math.floor(canvas.width * (0.1 + Math.random() * 0.2));
-      const height = Math.floor(canvas.height * (0.05 + Math.random() * 0.1));
-      const x1 = Math.floor(Math.random() * (canvas.width - width));
-      const y1 = Math.floor(Math.random() * (canvas.height - height));
-      const x2 = x1 + width;
-      const y2 = y1 + height;
-      
-      // Create a region with the random area's image data
-      const regionImageData = ctx.getImageData(x1, y1, width, height);
-      
-      regions.push({
-        bbox: [x1, y1, x2, y2],
-        confidence: 0.7 + Math.random() * 0.3, // Random confidence between 0.7 and 1.0
-        imageData: regionImageData
-      });
-    }
-    
-    return regions;
-  }
-
-  /**
-   * Simulate DBNet text detection (for demonstration purposes)
-   */
-  private async simulateDBNetDetection(canvas: HTMLCanvasElement): Promise<TextRegion[]> {
-    // DBNet implementation would be similar to CRAFT but with different region detection logic
-    // For this example, we'll reuse the CRAFT simulation
-    return this.simulateCRAFTDetection(canvas);
-  }
-
-  /**
-   * Simulate TrOCR text recognition (for demonstration purposes)
-   */
-  private async simulateTrOCRRecognition(imageData: ImageData): Promise<RecognitionResult> {
-    // In a real implementation, we would use the TrOCR model to recognize text
-    // For this example, we'll simulate text recognition with cadastral terms
-    
-    // Randomly select a cadastral term or number
-    const isNumber = Math.random() > 0.7;
-    let text: string;
-    let confidence: number;
-    
-    if (isNumber) {
-      // Select a random cadastral number
-      text = CADASTRAL_NUMBERS[Math.floor(Math.random() * CADASTRAL_NUMBERS.length)];
-      confidence = 0.75 + Math.random() * 0.25; // Random confidence between 0.75 and 1.0
-    } else {
-      // Select a random cadastral place name
-      text = CADASTRAL_PLACE_NAMES[Math.floor(Math.random() * CADASTRAL_PLACE_NAMES.length)];
-      
-      // Occasionally return a short form to simulate the 3-letter problem
-      if (Math.random() > 0.7 && text.length > 3) {
-        text = text.substring(0, 3);
-        confidence = 0.6 + Math.random() * 0.2; // Lower confidence for short forms
-      } else {
-        confidence = 0.7 + Math.random() * 0.3; // Random confidence between 0.7 and 1.0
-      }
-    }
-    
-    return {
-      text,
-      confidence,
-      type: isNumber ? 'number' : 'character',
-      bbox: [0, 0, imageData.width, imageData.height] // Use the region's bbox
-    };
-  }
-
-  /**
-   * Simulate EasyOCR text recognition (for demonstration purposes)
-   */
-  private async simulateEasyOCRRecognition(imageData: ImageData): Promise<RecognitionResult> {
-    // EasyOCR implementation would be similar to TrOCR but with different recognition logic
-    // For this example, we'll reuse the TrOCR simulation
-    return this.simulateTrOCRRecognition(imageData);
-  }
-
   /**
    * Clean up resources
    */
   terminate(): void {
-    // Clean up models and workers
-    this.craftModel = null;
+    // The models and engines belong to the engine registry; only drop the references
     this.dbNetModel = null;
-    this.trOCRModel = null;
-    
-    if (this.easyOCRWorker) {
-      // In a real implementation, we would terminate the EasyOCR worker
-      this.easyOCRWorker = null;
-    }
+    this.recognizer = null;
     
     this.isInitialized = false;
   }
 }
 
+// Options for CSV export
+export interface CSVExportOptions {
+  includeProvenance: boolean; // Add engine, preprocessing, angle, tile, raw text and corrections columns
+  includePage: boolean;       // Add a leading column with the PDF page of each read
+  numberVerification: NumberVerification[]; // Add a Verification column describing each number against these
+}
+
 /**
  * Export CSV with recognition results
  */
-export function exportToCSV(results: DetectedText[]): string {
-  // Create CSV header
-  const header = 'Text,Type,Confidence,X0,Y0,X1,Y1';
-  
-  // Create CSV rows
-  const rows = results.map(result => {
-    const { text, type, confidence, bbox } = result;
-    return `"${text}",${type},${confidence.toFixed(2)},${bbox.x0},${bbox.y0},${bbox.x1},${bbox.y1}`;
-  });
-  
+export function exportToCSV(
+  results: DetectedText[],
+  options: Partial<CSVExportOptions> = {}
+): string {
   // Combine header and rows
-  return [header, ...rows].join('\n');
+  return [csvHeader(options), ...results.map(result => csvRow(result, options))].join('\n');
+}
+
+// One sheet of a batch, for the combined export
+export interface SheetResults {
+  name: string; // Source sheet (file name or path inside the map set)
+  results: DetectedText[];
 }
 
 /**
- * Download CSV file with recognition results
+ * Export the results of several sheets as one CSV, with a leading
+ * Source Sheet column
  */
-export function downloadCSV(results: DetectedText[], filename: string = 'cadastral_ocr_results.csv'): void {
-  const csv = exportToCSV(results);
+export function exportCombinedCSV(
+  sheets: SheetResults[],
+  options: Partial<CSVExportOptions> = {}
+): string {
+  const rows = sheets.flatMap(sheet =>
+    sheet.results.map(result => `${csvField(sheet.name)},${csvRow(result, options)}`)
+  );
+  return [`Source Sheet,${csvHeader(options)}`, ...rows].join('\n');
+}
+
+function csvHeader(options: Partial<CSVExportOptions>): string {
+  return (options.includePage ? 'Page,' : '') + 'Text,Type,Confidence,X0,Y0,X1,Y1' +
+    (options.includeProvenance ? ',Engine,Preprocessing,Angle,Tile,Raw Text,Corrections' : '') +
+    (options.numberVerification ? ',Verification' : '');
+}
+
+function csvRow(result: DetectedText, options: Partial<CSVExportOptions>): string {
+  const { text, type, confidence, bbox, provenance, page } = result;
+  const row = (options.includePage ? `${page ?? ''},` : '') +
+    `${csvField(text)},${type},${confidence.toFixed(2)},${bbox.x0},${bbox.y0},${bbox.x1},${bbox.y1}`;
+  const verification = options.numberVerification
+    ? `,${type === 'number' ? describeVerification(options.numberVerification.find(entry => entry.number === text)) : ''}`
+    : '';
+  if (!options.includeProvenance) return row + verification;
   
+  const corrections = (provenance?.corrections ?? [])
+    .map(correction => `${correction.step}: ${correction.from} -> ${correction.to} (${correction.confidenceDelta >= 0 ? '+' : ''}${correction.confidenceDelta.toFixed(1)})`)
+    .join(' | ');
+  return [
+    row,
+    csvField(provenance?.engine ?? ''),
+    csvField(provenance?.preprocessing ?? ''),
+    provenance?.angle ?? '',
+    csvField(provenance?.tileId ?? ''),
+    csvField(provenance?.rawText ?? text),
+    csvField(corrections)
+  ].join(',') + verification;
+}
+
+/**
+ * Quote a CSV field, doubling embedded quotes
+ */
+function csvField(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Download CSV file with recognition results
+ */
+export function downloadCSV(
+  results: DetectedText[],
+  filename: string = 'cadastral_ocr_results.csv',
+  options: Partial<CSVExportOptions> = {}
+): void {
+  saveCSV(exportToCSV(results, options), filename);
+}
+
+/**
+ * Download one CSV file with the results of several sheets
+ */
+export function downloadCombinedCSV(
+  sheets: SheetResults[],
+  filename: string = 'cadastral_ocr_batch_results.csv',
+  options: Partial<CSVExportOptions> = {}
+): void {
+  saveCSV(exportCombinedCSV(sheets, options), filename);
+}
+
+function saveCSV(csv: string, filename: string): void {
   // Create a blob with the CSV data
   const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
   
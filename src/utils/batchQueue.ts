@@ -0,0 +1,229 @@
+/**
+ * Batch Processing Queue
+ *
+ * Runs the OCR pipeline over a whole map set (every sheet of a village)
+ * with a bounded number of concurrent runs. Each item moves through
+ * queued -> running -> done | failed; failed items are tried again up to
+ * `maxAttempts` times and can be retried by hand afterwards. Pausing stops
+ * new items from starting while the running ones finish; removing a
+ * running item cancels its run. Listeners get a fresh snapshot of the
+ * items after every change, so React state can hold it as is.
+ *
+ * A sheet is an image file or one page of a PDF; pages are rendered by the
+ * runner when they start, so a long PDF does not sit in memory as bitmaps.
+ */
+
+import { isAbortError } from './ocrPipelineWorker';
+import { OCRPipelineCallbacks } from './ocrPipeline';
+import { OCRResult } from './pipelineDefinition';
+
+// Configuration for the batch queue
+export interface BatchQueueConfig {
+  concurrency: number; // Sheets processed at the same time
+  maxAttempts: number; // Runs per sheet before it is marked failed
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: BatchQueueConfig = {
+  concurrency: 2,
+  maxAttempts: 2
+};
+
+export type BatchItemStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+// Where a sheet comes from: an image file, or a page of a PDF
+export interface BatchSource {
+  file: File;
+  page?: number; // 1-based PDF page
+}
+
+// One sheet of the batch
+export interface BatchItem extends BatchSource {
+  id: string;
+  name: string;          // Path inside the dropped folder, or the file name
+  status: BatchItemStatus;
+  attempts: number;
+  progress: number;      // 0-100 within the current run
+  stage?: string;        // Label of the running pipeline stage
+  result?: OCRResult;
+  error?: string;
+}
+
+// Runs the pipeline on one sheet; must reject with an AbortError when `signal` aborts
+export type BatchRunner = (source: BatchSource, callbacks: OCRPipelineCallbacks, signal: AbortSignal) => Promise<OCRResult>;
+
+/**
+ * Name of a file as shown in the queue: its path inside a dropped or
+ * selected folder when there is one
+ */
+export function batchItemName(file: File): string {
+  const path = (file as File & { path?: string }).path || file.webkitRelativePath;
+  return (path || file.name).replace(/^\.?\//, '');
+}
+
+export class BatchQueue {
+  private config: BatchQueueConfig;
+  private items: BatchItem[] = [];
+  private controllers = new Map<string, AbortController>();
+  private paused = false;
+  private nextId = 1;
+
+  constructor(
+    private runner: BatchRunner,
+    private onChange: (items: BatchItem[]) => void,
+    config: Partial<BatchQueueConfig> = {}
+  ) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+  }
+
+  /**
+   * Queue sheets and start them as slots free up
+   */
+  add(sources: BatchSource[]): void {
+    for (const { file, page } of sources) {
+      this.items.push({
+        id: `sheet-${this.nextId++}`,
+        file,
+        page,
+        name: batchItemName(file),
+        status: 'queued',
+        attempts: 0,
+        progress: 0
+      });
+    }
+    console.log(`Queued ${sources.length} sheets (${this.items.length} in the batch)`);
+    this.changed();
+    this.pump();
+  }
+
+  /**
+   * Queue a failed or cancelled sheet again, with a fresh set of attempts
+   */
+  retry(id: string): void {
+    const item = this.items.find(entry => entry.id === id);
+    if (!item || (item.status !== 'failed' && item.status !== 'cancelled')) return;
+    this.update(item, { status: 'queued', attempts: 0, progress: 0, stage: undefined, error: undefined });
+    this.pump();
+  }
+
+  /**
+   * Queue every failed sheet again
+   */
+  retryFailed(): void {
+    for (const item of this.items) {
+      if (item.status === 'failed') {
+        this.update(item, { status: 'queued', attempts: 0, progress: 0, stage: undefined, error: undefined });
+      }
+    }
+    this.pump();
+  }
+
+  /**
+   * Drop a sheet from the batch, cancelling its run
+   */
+  remove(id: string): void {
+    this.controllers.get(id)?.abort();
+    this.items = this.items.filter(item => item.id !== id);
+    this.changed();
+  }
+
+  /**
+   * Cancel a running or queued sheet but keep it in the batch
+   */
+  cancel(id: string): void {
+    const item = this.items.find(entry => entry.id === id);
+    if (!item) return;
+    if (item.status === 'queued') this.update(item, { status: 'cancelled' });
+    this.controllers.get(id)?.abort();
+  }
+
+  /**
+   * Start no new sheets; running ones finish
+   */
+  pause(): void {
+    this.paused = true;
+    this.changed();
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.changed();
+    this.pump();
+  }
+
+  isPaused(): boolean {
+    return this.paused;
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.config.concurrency = Math.max(1, Math.floor(concurrency));
+    this.pump();
+  }
+
+  /**
+   * Cancel every run and empty the batch
+   */
+  clear(): void {
+    for (const controller of this.controllers.values()) controller.abort();
+    this.items = [];
+    this.changed();
+  }
+
+  /**
+   * Start queued sheets while there are free slots
+   */
+  private pump(): void {
+    if (this.paused) return;
+    let running = this.items.filter(item => item.status === 'running').length;
+    for (const item of this.items) {
+      if (running >= this.config.concurrency) break;
+      if (item.status !== 'queued') continue;
+      running++;
+      void this.run(item);
+    }
+  }
+
+  private async run(item: BatchItem): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(item.id, controller);
+    this.update(item, { status: 'running', attempts: item.attempts + 1, progress: 0, stage: undefined, error: undefined });
+    console.log(`Processing ${item.name}${item.page !== undefined ? ` page ${item.page}` : ''} (attempt ${item.attempts})`);
+
+    try {
+      const result = await this.runner({ file: item.file, page: item.page }, {
+        onProgress: progress => this.update(item, { progress }),
+        onStage: (_stage, label) => this.update(item, { stage: label })
+      }, controller.signal);
+      this.update(item, { status: 'done', progress: 100, stage: undefined, result });
+    } catch (error) {
+      if (isAbortError(error)) {
+        this.update(item, { status: 'cancelled', stage: undefined });
+      } else {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Processing ${item.name} failed:`, error);
+        // Queue it again until the attempts run out
+        const retry = item.attempts < this.config.maxAttempts;
+        this.update(item, { status: retry ? 'queued' : 'failed', stage: undefined, error: message });
+      }
+    } finally {
+      this.controllers.delete(item.id);
+      this.pump();
+    }
+  }
+
+  /**
+   * Replace an item with an updated copy and notify the listener
+   * (ignored once the item was removed from the batch)
+   */
+  private update(item: BatchItem, changes: Partial<BatchItem>): void {
+    const index = this.items.findIndex(entry => entry.id === item.id);
+    if (index < 0) return;
+    Object.assign(item, changes);
+    this.items[index] = { ...item };
+    this.changed();
+  }
+
+  private changed(): void {
+    this.onChange([...this.items]);
+  }
+}
@@ -2,12 +2,18 @@
  * Black Text Extraction Module for Cadastral Maps
  * 
  * This module specifically targets black text and numbers in cadastral maps
- * using color-based filtering and enhanced preprocessing.
+ * using colour layer separation (see colorLayers.ts) and enhanced
+ * preprocessing.
  */
 
+import { Canvas, SourceImage, createCanvas, getContext2D, imageSize, readImageData, writeImageData } from './canvas';
+import { OperatorChain, chain } from './imageOperators';
+import { InkLayerName, inkLayerFlags } from './colorLayers';
+
 // Configuration for black text extraction
-interface BlackTextExtractionConfig {
-  blackThreshold: number;      // Threshold for black color (0-255)
+export interface BlackTextExtractionConfig {
+  inkLayers: InkLayerName[];   // Ink layers kept as text
+  removeLines: boolean;        // Whether to remove boundary lines and hatching
   contrastEnhancement: number; // Factor for contrast enhancement
   removeNoise: boolean;        // Whether to apply noise removal
   morphologicalOps: boolean;   // Whether to apply morphological operations
@@ -15,166 +21,60 @@ interface BlackTextExtractionConfig {
 
 // Default configuration optimized for cadastral maps
 const DEFAULT_CONFIG: BlackTextExtractionConfig = {
-  blackThreshold: 80,         // Pixels darker than this are considered black
+  inkLayers: ['black'],       // Black ink, whatever its shade or the paper tint
+  removeLines: true,          // Keep boundary strokes from joining the text
   contrastEnhancement: 1.8,   // Increase contrast to make black text stand out
   removeNoise: true,          // Remove noise to improve text extraction
   morphologicalOps: true      // Apply morphological operations to enhance text
 };
 
+/**
+ * Build the operator chain of black text extraction
+ */
+export function blackTextChain(config: Partial<BlackTextExtractionConfig> = {}): OperatorChain {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  return chain()
+    .add('inkLayers', inkLayerFlags(fullConfig.inkLayers))
+    .addIf(fullConfig.removeLines, 'removeLines', { length: 60, angleStep: 15, dashGap: 6 })
+    .addIf(fullConfig.contrastEnhancement > 1.0, 'contrast', { factor: fullConfig.contrastEnhancement })
+    .addIf(fullConfig.removeNoise, 'median', { size: 3 })
+    .addIf(fullConfig.morphologicalOps, 'erode', { size: 3 });
+}
+
 /**
  * Extract only black text from an image
  */
 export function extractBlackText(
-  imageElement: HTMLImageElement,
+  imageElement: SourceImage,
   config: Partial<BlackTextExtractionConfig> = {}
-): HTMLCanvasElement {
+): Canvas {
   const fullConfig = { ...DEFAULT_CONFIG, ...config };
   
   // Create a canvas to process the image
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d')!;
-  
-  // Set canvas size
-  canvas.width = imageElement.naturalWidth;
-  canvas.height = imageElement.naturalHeight;
+  const { width, height } = imageSize(imageElement);
+  const canvas = createCanvas(width, height);
   
   // Draw the original image
-  ctx.drawImage(imageElement, 0, 0);
-  
-  // Get image data for processing
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  
-  // Extract black text
-  for (let i = 0; i < data.length; i += 4) {
-    const r = data[i];
-    const g = data[i + 1];
-    const b = data[i + 2];
-    
-    // Check if the pixel is black (all RGB values below threshold)
-    const isBlack = r < fullConfig.blackThreshold && 
-                   g < fullConfig.blackThreshold && 
-                   b < fullConfig.blackThreshold;
-    
-    // Keep only black pixels, make everything else white
-    if (isBlack) {
-      // Make it pure black for better OCR
-      data[i] = data[i + 1] = data[i + 2] = 0;
-    } else {
-      // Make it pure white
-      data[i] = data[i + 1] = data[i + 2] = 255;
-    }
-  }
-  
-  // Apply contrast enhancement if needed
-  if (fullConfig.contrastEnhancement > 1.0) {
-    applyContrastEnhancement(data, fullConfig.contrastEnhancement);
-  }
+  getContext2D(canvas).drawImage(imageElement, 0, 0);
   
-  // Apply noise removal if needed
-  if (fullConfig.removeNoise) {
-    applyNoiseRemoval(data, canvas.width, canvas.height);
-  }
-  
-  // Apply morphological operations if needed
-  if (fullConfig.morphologicalOps) {
-    applyMorphologicalOperations(data, canvas.width, canvas.height);
-  }
+  // Keep only the black ink layer, then clean up and thicken the strokes
+  const processed = blackTextChain(fullConfig).run(readImageData(canvas));
   
   // Put processed image data back to canvas
-  ctx.putImageData(imageData, 0, 0);
+  writeImageData(canvas, processed);
   
   return canvas;
 }
 
-/**
- * Apply contrast enhancement to image data
- */
-function applyContrastEnhancement(data: Uint8ClampedArray, factor: number): void {
-  const intercept = 128 * (1 - factor);
-  
-  for (let i = 0; i < data.length; i += 4) {
-    // Apply contrast enhancement formula
-    data[i] = Math.min(255, Math.max(0, data[i] * factor + intercept));
-    data[i + 1] = Math.min(255, Math.max(0, data[i + 1] * factor + intercept));
-    data[i + 2] = Math.min(255, Math.max(0, data[i + 2] * factor + intercept));
-  }
-}
-
-/**
- * Apply noise removal to image data
- */
-function applyNoiseRemoval(data: Uint8ClampedArray, width: number, height: number): void {
-  // Create a copy of the data for processing
-  const tempData = new Uint8ClampedArray(data.length);
-  for (let i = 0; i < data.length; i++) {
-    tempData[i] = data[i];
-  }
-  
-  // Apply median filter (3x3) to remove salt and pepper noise
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
-      
-      // Get 3x3 neighborhood for each channel
-      const neighborhood = [];
-      
-      for (let j = -1; j <= 1; j++) {
-        for (let i = -1; i <= 1; i++) {
-          const neighborIdx = ((y + j) * width + (x + i)) * 4;
-          neighborhood.push(tempData[neighborIdx]);
-        }
-      }
-      
-      // Sort and get median
-      neighborhood.sort((a, b) => a - b);
-      const median = neighborhood[4]; // Middle value of 9 elements
-      
-      // Apply median to all channels (R, G, B)
-      data[idx] = data[idx + 1] = data[idx + 2] = median;
-    }
-  }
-}
-
-/**
- * Apply morphological operations to enhance text
- */
-function applyMorphologicalOperations(data: Uint8ClampedArray, width: number, height: number): void {
-  // Create a copy of the data for processing
-  const tempData = new Uint8ClampedArray(data.length);
-  for (let i = 0; i < data.length; i++) {
-    tempData[i] = data[i];
-  }
-  
-  // Apply dilation to enhance text (make it thicker)
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
-      
-      // If the current pixel is black
-      if (tempData[idx] === 0) {
-        // Set all neighbors to black
-        for (let j = -1; j <= 1; j++) {
-          for (let i = -1; i <= 1; i++) {
-            const neighborIdx = ((y + j) * width + (x + i)) * 4;
-            data[neighborIdx] = data[neighborIdx + 1] = data[neighborIdx + 2] = 0;
-          }
-        }
-      }
-    }
-  }
-}
-
 /**
  * Create specialized versions for text and number extraction
  */
-export function createBlackTextVersions(imageElement: HTMLImageElement): {
-  textVersion: HTMLCanvasElement;
-  numberVersion: HTMLCanvasElement;
+export function createBlackTextVersions(imageElement: SourceImage): {
+  textVersion: Canvas;
+  numberVersion: Canvas;
 } {
   // Version optimized for text
   const textVersion = extractBlackText(imageElement, {
-    blackThreshold: 80,
     contrastEnhancement: 1.8,
     removeNoise: true,
     morphologicalOps: true
@@ -182,7 +82,6 @@ export function createBlackTextVersions(imageElement: HTMLImageElement): {
   
   // Version optimized for numbers
   const numberVersion = extractBlackText(imageElement, {
-    blackThreshold: 70,  // Slightly lower threshold for numbers
     contrastEnhancement: 2.0,  // Higher contrast for numbers
     removeNoise: true,
     morphologicalOps: false  // No morphological ops for numbers to preserve shapes
@@ -0,0 +1,128 @@
+/**
+ * Canvas Helpers
+ *
+ * The OCR pipeline runs both on the main thread (HTMLCanvasElement) and in
+ * a Web Worker (OffscreenCanvas). These helpers create and read canvases
+ * without touching `document`, so pipeline modules work in either place.
+ */
+
+export type Canvas = HTMLCanvasElement | OffscreenCanvas;
+export type Context2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+// Images the pipeline accepts as input
+export type SourceImage = HTMLImageElement | ImageBitmap | Canvas;
+
+/**
+ * Create a canvas: an OffscreenCanvas where there is no DOM (in a worker)
+ */
+export function createCanvas(width: number, height: number): Canvas {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+}
+
+/**
+ * Get the 2D context of a canvas
+ */
+export function getContext2D(canvas: Canvas): Context2D {
+  return canvas.getContext('2d') as Context2D;
+}
+
+/**
+ * Pixel size of an image (natural size for <img> elements)
+ */
+export function imageSize(image: SourceImage): { width: number; height: number } {
+  if (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement) {
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+  return { width: image.width, height: image.height };
+}
+
+/**
+ * Draw an image onto a new canvas, optionally resized
+ */
+export function imageToCanvas(
+  image: SourceImage,
+  width: number = imageSize(image).width,
+  height: number = imageSize(image).height
+): Canvas {
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, width, height);
+  return canvas;
+}
+
+/**
+ * Encode a canvas as a PNG data URL
+ */
+export async function canvasToDataURL(canvas: Canvas): Promise<string> {
+  if (typeof HTMLCanvasElement !== 'undefined' && canvas instanceof HTMLCanvasElement) {
+    return canvas.toDataURL('image/png');
+  }
+
+  const blob = await (canvas as OffscreenCanvas).convertToBlob({ type: 'image/png' });
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+
+  // Encode in chunks to stay below the argument limit of String.fromCharCode
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return `data:image/png;base64,${btoa(binary)}`;
+}
+
+/**
+ * Read all pixels of a canvas
+ */
+export function readImageData(canvas: Canvas): ImageData {
+  return getContext2D(canvas).getImageData(0, 0, canvas.width, canvas.height);
+}
+
+/**
+ * Write pixels back to a canvas of the same size
+ */
+export function writeImageData(canvas: Canvas, imageData: ImageData): Canvas {
+  getContext2D(canvas).putImageData(imageData, 0, 0);
+  return canvas;
+}
+
+/**
+ * Put pixels on a new canvas
+ */
+export function imageDataToCanvas(imageData: ImageData): Canvas {
+  return writeImageData(createCanvas(imageData.width, imageData.height), imageData);
+}
+
+/**
+ * Rotate a canvas clockwise by `angle` degrees around its center
+ * The result is enlarged to hold the whole rotated image; uncovered corners
+ * are filled with `background` (transparent if not given)
+ */
+export function rotateCanvas(canvas: Canvas, angle: number, background?: string): Canvas {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.abs(Math.cos(radians));
+  const sin = Math.abs(Math.sin(radians));
+  const rotated = createCanvas(
+    Math.round(canvas.width * cos + canvas.height * sin),
+    Math.round(canvas.width * sin + canvas.height * cos)
+  );
+  const ctx = getContext2D(rotated);
+
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, rotated.width, rotated.height);
+  }
+
+  // Translate and rotate
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate(radians);
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2, canvas.width, canvas.height);
+
+  return rotated;
+}
@@ -0,0 +1,290 @@
+/**
+ * Colour Layer Separation
+ *
+ * Cadastral sheets print black text, red parcel boundaries, blue water and
+ * green vegetation on paper that yellows with age. Fixed RGB cut-offs
+ * (r, g and b all below 60) lose faded black ink and keep dark-red lines,
+ * so inks are separated in CIELAB instead:
+ * 1. the map's palette is found by k-means over a sample of its pixels
+ * 2. the paper is the most common light colour of the palette
+ * 3. every other palette colour is ink; ink with little chroma relative to
+ *    the paper tint is black, the rest is assigned a layer by its Lab hue
+ * 4. every pixel takes the layer of its nearest palette colour
+ * Selected layers become a black-on-white mask for OCR.
+ */
+
+// Ink layers of a cadastral sheet
+export const INK_LAYERS = ['black', 'red', 'blue', 'green'] as const;
+
+export type InkLayerName = typeof INK_LAYERS[number];
+
+// Layer of a palette colour: an ink, the paper, or ink of no known layer
+export type ColorLayerName = InkLayerName | 'paper' | 'other';
+
+// Configuration for colour layer separation
+export interface ColorLayerConfig {
+  clusters: number;        // Palette size (k of k-means)
+  sampleSize: number;      // Pixels sampled to fit the palette
+  iterations: number;      // k-means iterations
+  inkLightnessGap: number; // Colours this much darker (L*) than the paper are ink
+  maxBlackChroma: number;  // Ink with less chroma than this (relative to the paper tint) is black
+  hueRanges: Record<Exclude<InkLayerName, 'black'>, [number, number]>; // Lab hue angles (degrees) of the coloured inks
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: ColorLayerConfig = {
+  clusters: 8,
+  sampleSize: 20000,
+  iterations: 12,
+  inkLightnessGap: 15,
+  maxBlackChroma: 20,
+  hueRanges: {
+    red: [-40, 70],   // Red to orange-brown
+    green: [100, 200],
+    blue: [200, 320]
+  }
+};
+
+// A colour of the map's palette
+export interface PaletteColor {
+  lab: [number, number, number];
+  rgb: [number, number, number];
+  share: number;          // Fraction of the sampled pixels (0-1)
+  layer: ColorLayerName;
+}
+
+// Palette and per-pixel palette index of an image
+export interface ColorLayers {
+  width: number;
+  height: number;
+  palette: PaletteColor[];
+  indices: Uint8Array;    // Palette index of every pixel
+}
+
+/**
+ * Convert an sRGB colour (0-255) to CIELAB (D65)
+ */
+export function rgbToLab(r: number, g: number, b: number): [number, number, number] {
+  const linear = (channel: number) => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+  };
+  const lr = linear(r);
+  const lg = linear(g);
+  const lb = linear(b);
+
+  const f = (t: number) => (t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116);
+  const fx = f((0.4124 * lr + 0.3576 * lg + 0.1805 * lb) / 0.95047);
+  const fy = f(0.2126 * lr + 0.7152 * lg + 0.0722 * lb);
+  const fz = f((0.0193 * lr + 0.1192 * lg + 0.9505 * lb) / 1.08883);
+
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/**
+ * Fit the palette of an image and assign every pixel to a palette colour
+ */
+export function separateColorLayers(image: ImageData, config: Partial<ColorLayerConfig> = {}): ColorLayers {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const { data, width, height } = image;
+  const pixelCount = width * height;
+
+  // Sample pixels on a regular stride
+  const stride = Math.max(1, Math.floor(pixelCount / fullConfig.sampleSize));
+  const samples: [number, number, number][] = [];
+  for (let p = 0; p < pixelCount; p += stride) {
+    samples.push(rgbToLab(data[p * 4], data[p * 4 + 1], data[p * 4 + 2]));
+  }
+
+  const centers = kMeans(samples, Math.min(fullConfig.clusters, samples.length), fullConfig.iterations);
+  const counts = new Array(centers.length).fill(0);
+  for (const sample of samples) counts[nearest(centers, sample)]++;
+
+  const palette = classifyPalette(
+    centers.map((lab, i) => ({ lab, rgb: labToRgb(lab), share: counts[i] / samples.length, layer: 'other' as ColorLayerName })),
+    fullConfig
+  );
+
+  // Assign pixels, memoized on colours quantized to 5 bits per channel
+  const memo = new Int16Array(32 * 32 * 32).fill(-1);
+  const indices = new Uint8Array(pixelCount);
+  for (let p = 0, i = 0; p < pixelCount; p++, i += 4) {
+    const key = ((data[i] >> 3) << 10) | ((data[i + 1] >> 3) << 5) | (data[i + 2] >> 3);
+    if (memo[key] < 0) {
+      memo[key] = nearest(centers, rgbToLab(data[i], data[i + 1], data[i + 2]));
+    }
+    indices[p] = memo[key];
+  }
+
+  const summary = palette.map(color => `${color.layer} ${Math.round(color.share * 100)}%`).join(', ');
+  console.log(`Colour palette: ${summary}`);
+  return { width, height, palette, indices };
+}
+
+/**
+ * Black-on-white mask of the pixels in the given layers
+ */
+export function layerMask(layers: ColorLayers, names: ColorLayerName[]): ImageData {
+  const selected = layers.palette.map(color => names.includes(color.layer));
+  const output = new Uint8ClampedArray(layers.width * layers.height * 4);
+  for (let p = 0, i = 0; p < layers.indices.length; p++, i += 4) {
+    const value = selected[layers.indices[p]] ? 0 : 255;
+    output[i] = output[i + 1] = output[i + 2] = value;
+    output[i + 3] = 255;
+  }
+  return new ImageData(output, layers.width, layers.height);
+}
+
+/**
+ * Fraction of the pixels in a layer (0-1)
+ */
+export function layerCoverage(layers: ColorLayers, name: ColorLayerName): number {
+  return layers.palette
+    .filter(color => color.layer === name)
+    .reduce((sum, color) => sum + color.share, 0);
+}
+
+/**
+ * Keep the pixels of the given ink layers (as black) and whiten the rest
+ */
+export function extractInkLayers(
+  image: ImageData,
+  names: InkLayerName[],
+  config: Partial<ColorLayerConfig> = {}
+): ImageData {
+  return layerMask(separateColorLayers(image, config), names);
+}
+
+/**
+ * Layer selection as 0/1 flags (the parameters of the inkLayers operator)
+ */
+export function inkLayerFlags(names: InkLayerName[]): Record<InkLayerName, number> {
+  const flags = {} as Record<InkLayerName, number>;
+  for (const layer of INK_LAYERS) {
+    flags[layer] = names.includes(layer) ? 1 : 0;
+  }
+  return flags;
+}
+
+/**
+ * Assign every palette colour to the paper or an ink layer
+ */
+function classifyPalette(palette: PaletteColor[], config: ColorLayerConfig): PaletteColor[] {
+  // Paper: the most common colour among the light ones
+  const lightest = Math.max(...palette.map(color => color.lab[0]));
+  const paper = palette
+    .filter(color => color.lab[0] >= lightest - config.inkLightnessGap)
+    .reduce((best, color) => (color.share > best.share ? color : best));
+  const [paperL, paperA, paperB] = paper.lab;
+
+  return palette.map(color => {
+    const [l, a, b] = color.lab;
+    if (color === paper || l > paperL - config.inkLightnessGap) {
+      return { ...color, layer: 'paper' };
+    }
+    // Chroma relative to the paper tint, so ink on yellowed paper still counts as black
+    const chroma = Math.hypot(a - paperA, b - paperB);
+    if (chroma < config.maxBlackChroma) {
+      return { ...color, layer: 'black' };
+    }
+    const hue = (Math.atan2(b, a) * 180) / Math.PI;
+    const layer = (Object.entries(config.hueRanges) as [InkLayerName, [number, number]][])
+      .find(([, [from, to]]) => inHueRange(hue, from, to))?.[0];
+    return { ...color, layer: layer ?? 'other' };
+  });
+}
+
+function inHueRange(hue: number, from: number, to: number): boolean {
+  return [hue - 360, hue, hue + 360].some(angle => angle >= from && angle < to);
+}
+
+/**
+ * k-means with k-means++ seeding (deterministic)
+ */
+function kMeans(points: [number, number, number][], k: number, iterations: number): [number, number, number][] {
+  // Fixed-seed generator, so the same map always gives the same palette
+  let seed = 12345;
+  const random = () => {
+    seed = (Math.imul(seed, 1103515245) + 12345) & 0x7fffffff;
+    return seed / 0x7fffffff;
+  };
+
+  const centers: [number, number, number][] = [points[Math.floor(random() * points.length)]];
+  const distances = new Float64Array(points.length);
+  while (centers.length < k) {
+    let total = 0;
+    points.forEach((point, i) => {
+      distances[i] = squaredDistance(point, centers[nearest(centers, point)]);
+      total += distances[i];
+    });
+    if (total === 0) break;
+    let target = random() * total;
+    let chosen = 0;
+    while (chosen < points.length - 1 && target > distances[chosen]) {
+      target -= distances[chosen];
+      chosen++;
+    }
+    centers.push(points[chosen]);
+  }
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const sums = centers.map(() => [0, 0, 0, 0]);
+    for (const point of points) {
+      const sum = sums[nearest(centers, point)];
+      sum[0] += point[0];
+      sum[1] += point[1];
+      sum[2] += point[2];
+      sum[3]++;
+    }
+    let moved = false;
+    sums.forEach((sum, i) => {
+      if (sum[3] === 0) return;
+      const next: [number, number, number] = [sum[0] / sum[3], sum[1] / sum[3], sum[2] / sum[3]];
+      if (squaredDistance(next, centers[i]) > 0.01) moved = true;
+      centers[i] = next;
+    });
+    if (!moved) break;
+  }
+
+  return centers;
+}
+
+function nearest(centers: [number, number, number][], point: [number, number, number]): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  for (let i = 0; i < centers.length; i++) {
+    const distance = squaredDistance(centers[i], point);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  }
+  return best;
+}
+
+function squaredDistance(a: [number, number, number], b: [number, number, number]): number {
+  return (a[0] - b[0]) ** 2 + (a[1] - b[1]) ** 2 + (a[2] - b[2]) ** 2;
+}
+
+/**
+ * Convert a CIELAB colour (D65) back to sRGB (0-255), for palette swatches
+ */
+function labToRgb([l, a, b]: [number, number, number]): [number, number, number] {
+  const fy = (l + 16) / 116;
+  const fx = fy + a / 500;
+  const fz = fy - b / 200;
+  const inverse = (t: number) => (t ** 3 > 0.008856 ? t ** 3 : (t - 16 / 116) / 7.787);
+  const x = inverse(fx) * 0.95047;
+  const y = inverse(fy);
+  const z = inverse(fz) * 1.08883;
+
+  const gamma = (c: number) => {
+    const clamped = Math.min(1, Math.max(0, c));
+    return Math.round(255 * (clamped <= 0.0031308 ? 12.92 * clamped : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055));
+  };
+  return [
+    gamma(3.2406 * x - 1.5372 * y - 0.4986 * z),
+    gamma(-0.9689 * x + 1.8758 * y + 0.0415 * z),
+    gamma(0.0557 * x - 0.2040 * y + 1.0570 * z)
+  ];
+}
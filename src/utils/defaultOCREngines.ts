@@ -0,0 +1,21 @@
+/**
+ * Default OCR Engine Setup
+ *
+ * Registers the OCR engine adapters available to this build. Called once at
+ * startup, before any pipeline looks an engine up.
+ */
+
+import { registerHttpOCREnginesFromEnv } from './httpOCRAdapter';
+import { registerOCREngine } from './ocrEngineRegistry';
+import { TesseractAdapter } from './tesseractAdapter';
+
+/**
+ * Register every engine adapter that is configured for this environment
+ */
+export function registerDefaultOCREngines(): void {
+  // Tesseract.js runs in the browser and is always available
+  registerOCREngine('tesseract', new TesseractAdapter());
+  
+  // PaddleOCR / EasyOCR servers configured through VITE_PADDLEOCR_URL / VITE_EASYOCR_URL
+  registerHttpOCREnginesFromEnv();
+}
@@ -0,0 +1,120 @@
+/**
+ * Skew Detection and Correction
+ *
+ * Scanned cadastral sheets are often tilted by a few degrees. The skew is
+ * estimated with a projection profile over the binarized sheet: ink pixels
+ * are projected onto the vertical axis of the sheet rotated by each candidate
+ * angle, and the angle at which text lines stack into the sharpest peaks
+ * wins. A coarse search over the whole range is refined around the best
+ * coarse angle.
+ */
+
+import { Canvas, rotateCanvas } from './canvas';
+import { luminance, otsuLevel } from './imageOperators';
+
+// Configuration for skew detection
+export interface DeskewConfig {
+  maxAngle: number;      // Largest skew searched, in degrees either way
+  coarseStep: number;    // Step of the coarse search (degrees)
+  fineStep: number;      // Step of the refinement around the best coarse angle
+  analysisWidth: number; // Ink is sampled on a grid about this many pixels wide
+  minAngle: number;      // Smaller skews are not corrected
+}
+
+// Default configuration
+const DEFAULT_CONFIG: DeskewConfig = {
+  maxAngle: 10,
+  coarseStep: 0.5,
+  fineStep: 0.05,
+  analysisWidth: 1000,
+  minAngle: 0.1
+};
+
+export interface SkewEstimate {
+  angle: number;      // Clockwise skew of the text lines, in degrees
+  confidence: number; // 0-1, how much sharper the best profile is than the average one
+}
+
+/**
+ * Estimate the skew of the text lines of an image
+ */
+export function estimateSkew(image: ImageData, config: Partial<DeskewConfig> = {}): SkewEstimate {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const { width, height } = image;
+
+  // Sample the ink (pixels darker than Otsu's level) on a grid
+  const stride = Math.max(1, Math.ceil(width / fullConfig.analysisWidth));
+  const gray = luminance(image);
+  const level = otsuLevel(image);
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let y = 0; y < height; y += stride) {
+    for (let x = 0; x < width; x += stride) {
+      if (gray[y * width + x] <= level) {
+        xs.push(x);
+        ys.push(y);
+      }
+    }
+  }
+
+  // Nothing to align (blank sheet, or ink everywhere)
+  const sampled = Math.ceil(width / stride) * Math.ceil(height / stride);
+  if (xs.length === 0 || xs.length > sampled * 0.5) {
+    return { angle: 0, confidence: 0 };
+  }
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const bins = new Float64Array(Math.ceil((2 * diagonal) / stride) + 2);
+
+  // Sharpness of the profile: sum of squared bin counts
+  const score = (angle: number): number => {
+    const radians = (angle * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    bins.fill(0);
+    for (let i = 0; i < xs.length; i++) {
+      const projected = -xs[i] * sin + ys[i] * cos;
+      bins[Math.floor((projected + diagonal) / stride)]++;
+    }
+    let sum = 0;
+    for (let i = 0; i < bins.length; i++) sum += bins[i] * bins[i];
+    return sum;
+  };
+
+  // Best angle of a range; near-ties (thick strokes give a plateau) are averaged
+  const search = (from: number, to: number, step: number): { angle: number; score: number; mean: number } => {
+    const angles: number[] = [];
+    const scores: number[] = [];
+    for (let i = 0; from + i * step <= to + step / 2; i++) {
+      angles.push(from + i * step);
+      scores.push(score(from + i * step));
+    }
+    const best = Math.max(...scores);
+    const plateau = angles.filter((_, i) => scores[i] >= best * 0.999);
+    return {
+      angle: plateau.reduce((sum, angle) => sum + angle, 0) / plateau.length,
+      score: best,
+      mean: scores.reduce((sum, value) => sum + value, 0) / scores.length
+    };
+  };
+
+  const coarse = search(-fullConfig.maxAngle, fullConfig.maxAngle, fullConfig.coarseStep);
+  const fine = search(coarse.angle - fullConfig.coarseStep, coarse.angle + fullConfig.coarseStep, fullConfig.fineStep);
+
+  return {
+    angle: Math.round(fine.angle * 100) / 100,
+    confidence: Math.round((1 - coarse.mean / Math.max(fine.score, 1)) * 100) / 100
+  };
+}
+
+/**
+ * Rotate a canvas so that a measured skew is undone
+ * Returns the canvas itself when the skew is below the correction threshold
+ */
+export function deskewCanvas(canvas: Canvas, angle: number, config: Partial<DeskewConfig> = {}): Canvas {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  if (Math.abs(angle) < fullConfig.minAngle) {
+    return canvas;
+  }
+  return rotateCanvas(canvas, -angle, '#ffffff');
+}
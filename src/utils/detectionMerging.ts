@@ -0,0 +1,101 @@
+/**
+ * Detection Merging
+ *
+ * Geometry-aware non-maximum suppression for OCR detections. Two detections
+ * are fused only when their boxes overlap and their texts agree, so a label
+ * read by several engines, passes or neighbouring tiles is kept once, while
+ * the same survey number printed in two parcels is kept twice.
+ *
+ * All detections passed in must be in the same (original image) frame.
+ */
+
+import { DetectedText } from './advancedOCR';
+import { levenshteinDistance } from './cadastralDictionary';
+import { bboxIoU, bboxOverlapRatio } from './geometry';
+
+// Configuration for merging overlapping detections
+export interface DetectionMergeConfig {
+  iouThreshold: number;     // IoU at or above which two boxes cover the same label
+  overlapThreshold: number; // Intersection over the smaller box, for partial reads
+  textSimilarity: number;   // Minimum text similarity (0-1) of two reads of one label
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: DetectionMergeConfig = {
+  iouThreshold: 0.5,
+  overlapThreshold: 0.8,
+  textSimilarity: 0.6
+};
+
+/**
+ * Check whether two detections are reads of the same label
+ */
+export function isSameDetection(
+  a: DetectedText,
+  b: DetectedText,
+  config: Partial<DetectionMergeConfig> = {}
+): boolean {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+
+  if (a.type !== b.type) return false;
+
+  const overlaps = bboxIoU(a.bbox, b.bbox) >= fullConfig.iouThreshold ||
+    bboxOverlapRatio(a.bbox, b.bbox) >= fullConfig.overlapThreshold;
+  if (!overlaps) return false;
+
+  const aText = normalize(a.text);
+  const bText = normalize(b.text);
+  return aText.includes(bText) || bText.includes(aText) ||
+    similarity(aText, bText) >= fullConfig.textSimilarity;
+}
+
+/**
+ * Merge detections that are reads of the same label (non-maximum suppression)
+ * Detections at different places are kept even if their text is identical
+ */
+export function mergeOverlappingDetections(
+  detections: DetectedText[],
+  config: Partial<DetectionMergeConfig> = {}
+): DetectedText[] {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const merged: DetectedText[] = [];
+
+  // Most confident reads first, so they win ties
+  const sorted = [...detections].sort((a, b) => b.confidence - a.confidence);
+
+  for (const detection of sorted) {
+    const index = merged.findIndex(kept => isSameDetection(kept, detection, fullConfig));
+    if (index === -1) {
+      merged.push(detection);
+    } else {
+      merged[index] = fuseDetections(merged[index], detection);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Pick the read that represents both detections
+ * A read that contains the other wins (the other was cut off at a tile
+ * edge); otherwise the more confident one, which is `kept`
+ */
+function fuseDetections(kept: DetectedText, other: DetectedText): DetectedText {
+  const keptText = normalize(kept.text);
+  const otherText = normalize(other.text);
+
+  if (otherText.length > keptText.length && otherText.includes(keptText)) {
+    return other;
+  }
+  return kept;
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function similarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshteinDistance(a, b) / maxLength;
+}
@@ -0,0 +1,219 @@
+/**
+ * Multi-Engine Consensus (ROVER-style voting)
+ *
+ * When several engines read the same box, their strings are aligned
+ * character by character and each position is decided by a vote weighted
+ * by read count and confidence. E.g. "Gonal" (PaddleOCR), "Gonat"
+ * (Tesseract) and "Gona1" (EasyOCR) become one "Gonal" read that records
+ * the three engine reads and how much they agreed.
+ */
+
+import { DetectedText, EngineRead } from './advancedOCR';
+import { bboxIoU, bboxOverlapRatio } from './geometry';
+import { recordCorrection, recordSource } from './provenance';
+
+// Configuration for consensus voting
+export interface ConsensusConfig {
+  iouThreshold: number;     // IoU at or above which two engine reads cover the same box
+  overlapThreshold: number; // Intersection over the smaller box, for partial reads
+  countWeight: number;      // 0-1 weight of the read count vs. the confidence in a vote
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: ConsensusConfig = {
+  iouThreshold: 0.3,
+  overlapThreshold: 0.7,
+  countWeight: 0.5
+};
+
+// Results of one engine on one image
+export interface EngineResults {
+  engine: string;
+  results: DetectedText[];
+}
+
+// A read tagged with the engine that produced it
+interface TaggedRead {
+  engine: string;
+  detection: DetectedText;
+}
+
+/**
+ * Vote the reads of several engines on the same image into consensus reads
+ * Reads that no other engine confirmed are kept as single-read consensus
+ */
+export function buildConsensus(
+  engineResults: EngineResults[],
+  config: Partial<ConsensusConfig> = {}
+): DetectedText[] {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const consensus: DetectedText[] = [];
+
+  for (const group of groupOverlappingReads(engineResults, fullConfig)) {
+    const read = voteOnGroup(group, fullConfig);
+    if (read) {
+      consensus.push(read);
+    }
+  }
+
+  return consensus;
+}
+
+/**
+ * Group the reads of different engines that cover the same box
+ * A group holds at most one read per engine; its most confident read is the seed
+ */
+function groupOverlappingReads(engineResults: EngineResults[], config: ConsensusConfig): TaggedRead[][] {
+  const reads: TaggedRead[] = engineResults
+    .flatMap(({ engine, results }) => results.map(detection => ({ engine, detection })))
+    .sort((a, b) => b.detection.confidence - a.detection.confidence);
+
+  const groups: TaggedRead[][] = [];
+
+  for (const read of reads) {
+    const group = groups.find(candidate => {
+      const seed = candidate[0].detection.bbox;
+      const overlaps = bboxIoU(seed, read.detection.bbox) >= config.iouThreshold ||
+        bboxOverlapRatio(seed, read.detection.bbox) >= config.overlapThreshold;
+      return overlaps && !candidate.some(member => member.engine === read.engine);
+    });
+
+    if (group) {
+      group.push(read);
+    } else {
+      groups.push([read]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Align the reads of a group and vote on every character position
+ */
+function voteOnGroup(group: TaggedRead[], config: ConsensusConfig): DetectedText | null {
+  const seed = group[0].detection;
+  const reads: EngineRead[] = group.map(({ engine, detection }) => ({
+    engine,
+    text: detection.text,
+    confidence: detection.confidence
+  }));
+
+  // Build the alignment progressively, most confident read first
+  let alignment: string[][] = [];
+  for (const read of reads) {
+    alignment = alignRead(alignment, read.text);
+  }
+
+  const totalConfidence = reads.reduce((sum, read) => sum + read.confidence, 0) || 1;
+  let text = '';
+  let agreementSum = 0;
+  let confidenceSum = 0;
+
+  for (const column of alignment) {
+    // Score each symbol ('' = this read has no character here)
+    const scores = new Map<string, { count: number; confidence: number }>();
+    column.forEach((symbol, index) => {
+      const score = scores.get(symbol) ?? { count: 0, confidence: 0 };
+      score.count++;
+      score.confidence += reads[index].confidence;
+      scores.set(symbol, score);
+    });
+
+    let winner = '';
+    let bestScore = -1;
+    let winnerScore = { count: 0, confidence: 0 };
+    for (const [symbol, score] of scores) {
+      const value = config.countWeight * (score.count / reads.length) +
+        (1 - config.countWeight) * (score.confidence / totalConfidence);
+      if (value > bestScore) {
+        bestScore = value;
+        winner = symbol;
+        winnerScore = score;
+      }
+    }
+
+    text += winner;
+    agreementSum += winnerScore.count / reads.length;
+    confidenceSum += winnerScore.confidence / winnerScore.count;
+  }
+
+  const cleanText = text.trim();
+  if (cleanText.length === 0) return null;
+
+  // Confidence is that of the reads backing each chosen character, averaged
+  const agreement = agreementSum / alignment.length;
+  const confidence = confidenceSum / alignment.length;
+
+  // Provenance follows the seed read; the vote is recorded as a correction
+  const voted = recordCorrection(
+    recordSource(seed, { engine: reads.map(read => read.engine).join('+') }),
+    'consensus',
+    cleanText,
+    confidence
+  );
+
+  return {
+    ...voted,
+    bbox: { ...seed.bbox },
+    type: /^\d+$/.test(cleanText) ? 'number' : 'character',
+    consensus: { agreement, reads }
+  };
+}
+
+/**
+ * Add a read to a character alignment (one column per position, one row per read)
+ * Uses an edit-distance alignment against the symbols already in each column
+ */
+function alignRead(alignment: string[][], text: string): string[][] {
+  const readCount = alignment[0]?.length ?? 0;
+  const columns = alignment.length;
+  const chars = Array.from(text);
+
+  if (readCount === 0) {
+    return chars.map(char => [char]);
+  }
+
+  // cost[i][j]: aligning the first i columns with the first j characters
+  const cost: number[][] = Array(columns + 1).fill(null).map(() => Array(chars.length + 1).fill(0));
+  for (let i = 1; i <= columns; i++) {
+    cost[i][0] = cost[i - 1][0] + (alignment[i - 1].includes('') ? 0 : 1);
+  }
+  for (let j = 1; j <= chars.length; j++) {
+    cost[0][j] = j;
+  }
+
+  for (let i = 1; i <= columns; i++) {
+    for (let j = 1; j <= chars.length; j++) {
+      const column = alignment[i - 1];
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + (column.includes(chars[j - 1]) ? 0 : 1), // match / substitution
+        cost[i - 1][j] + (column.includes('') ? 0 : 1),                // read skips this column
+        cost[i][j - 1] + 1                                               // read inserts a column
+      );
+    }
+  }
+
+  // Trace back, building the new columns from the end
+  const result: string[][] = [];
+  let i = columns;
+  let j = chars.length;
+
+  while (i > 0 || j > 0) {
+    const column = i > 0 ? alignment[i - 1] : [];
+    if (i > 0 && j > 0 &&
+        cost[i][j] === cost[i - 1][j - 1] + (column.includes(chars[j - 1]) ? 0 : 1)) {
+      result.push([...column, chars[j - 1]]);
+      i--;
+      j--;
+    } else if (i > 0 && cost[i][j] === cost[i - 1][j] + (column.includes('') ? 0 : 1)) {
+      result.push([...column, '']);
+      i--;
+    } else {
+      result.push([...Array(readCount).fill(''), chars[j - 1]]);
+      j--;
+    }
+  }
+
+  return result.reverse();
+}
@@ -2,9 +2,19 @@
  * Enhanced Image Preprocessing Module for Cadastral Maps
  * 
  * This module implements OpenCV-like preprocessing techniques to improve
- * text and number detection in cadastral maps.
+ * text and number detection in cadastral maps. The options map onto a
+ * chain of operators from imageOperators.ts.
  */
 
+import { ImageTile } from './improvedPreprocessing';
+import { Canvas, SourceImage, createCanvas, getContext2D, imageSize, readImageData, writeImageData } from './canvas';
+import { OperatorChain, chain } from './imageOperators';
+
+// Thresholding methods; sauvola, niblack and wolf adapt to uneven scan illumination
+export const THRESHOLD_TYPES = ['binary', 'adaptive', 'otsu', 'sauvola', 'niblack', 'wolf'] as const;
+
+export type ThresholdType = typeof THRESHOLD_TYPES[number];
+
 // Preprocessing options
 export interface PreprocessingOptions {
   resize?: boolean;
@@ -14,7 +24,7 @@ export interface PreprocessingOptions {
   blur?: boolean;
   blurRadius?: number;
   threshold?: boolean;
-  thresholdType?: 'binary' | 'adaptive' | 'otsu';
+  thresholdType?: ThresholdType;
   thresholdValue?: number;
   sharpen?: boolean;
   contrast?: boolean;
@@ -52,20 +62,44 @@ export const NUMBER_PREPROCESSING_OPTIONS: PreprocessingOptions = {
   contrastFactor: 2.0, // Higher contrast for numbers
 };
 
+/**
+ * Build the operator chain for a set of preprocessing options (everything but the resize)
+ */
+export function preprocessingChain(options: PreprocessingOptions): OperatorChain {
+  const steps = chain()
+    .addIf(options.grayscale, 'grayscale')
+    .addIf(options.contrast && !!options.contrastFactor, 'contrast', { factor: options.contrastFactor })
+    .addIf(options.blur && !!options.blurRadius, 'gaussianBlur', { sigma: options.blurRadius })
+    .addIf(options.sharpen, 'sharpen');
+
+  if (options.threshold) {
+    if (options.thresholdType === 'binary') {
+      steps.add('threshold', { value: options.thresholdValue || 127 });
+    } else if (options.thresholdType === 'adaptive') {
+      steps.add('adaptiveThreshold', { blockSize: 11, offset: 10 });
+    } else if (options.thresholdType === 'otsu') {
+      steps.add('otsu');
+    } else if (options.thresholdType === 'sauvola') {
+      steps.add('sauvola');
+    } else if (options.thresholdType === 'niblack') {
+      steps.add('niblack');
+    } else if (options.thresholdType === 'wolf') {
+      steps.add('wolf');
+    }
+  }
+
+  return steps.addIf(options.invert, 'invert');
+}
+
 /**
  * Preprocess an image for better text and number detection
  */
 export function preprocessImage(
-  imageElement: HTMLImageElement,
+  imageElement: SourceImage,
   options: PreprocessingOptions = DEFAULT_PREPROCESSING_OPTIONS
-): HTMLCanvasElement {
-  // Create a canvas to process the image
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d')!;
-  
+): Canvas {
   // Set initial canvas size
-  let width = imageElement.naturalWidth;
-  let height = imageElement.naturalHeight;
+  let { width, height } = imageSize(imageElement);
   
   // Resize if needed
   if (options.resize && options.resizeWidth) {
@@ -74,202 +108,15 @@ export function preprocessImage(
     height = options.resizeHeight || Math.round(width / aspectRatio);
   }
   
-  canvas.width = width;
-  canvas.height = height;
+  // Create a canvas to process the image
+  const canvas = createCanvas(width, height);
+  const ctx = getContext2D(canvas);
   
   // Draw the original image
   ctx.drawImage(imageElement, 0, 0, width, height);
   
-  // Get image data for processing
-  let imageData = ctx.getImageData(0, 0, width, height);
-  let data = imageData.data;
-  
-  // Apply grayscale if needed
-  if (options.grayscale) {
-    for (let i = 0; i < data.length; i += 4) {
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      // Convert to grayscale using luminosity method
-      const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-      data[i] = data[i + 1] = data[i + 2] = gray;
-    }
-  }
-  
-  // Apply contrast enhancement if needed
-  if (options.contrast && options.contrastFactor) {
-    const factor = options.contrastFactor;
-    const intercept = 128 * (1 - factor);
-    
-    for (let i = 0; i < data.length; i += 4) {
-      data[i] = Math.min(255, Math.max(0, data[i] * factor + intercept));
-      data[i + 1] = Math.min(255, Math.max(0, data[i + 1] * factor + intercept));
-      data[i + 2] = Math.min(255, Math.max(0, data[i + 2] * factor + intercept));
-    }
-  }
-  
-  // Apply blur if needed (simple box blur)
-  if (options.blur && options.blurRadius) {
-    const radius = options.blurRadius;
-    const tempCanvas = document.createElement('canvas');
-    const tempCtx = tempCanvas.getContext('2d')!;
-    tempCanvas.width = width;
-    tempCanvas.height = height;
-    
-    // Draw current image data to temp canvas
-    tempCtx.putImageData(imageData, 0, 0);
-    
-    // Apply horizontal blur
-    ctx.clearRect(0, 0, width, height);
-    ctx.filter = `blur(${radius}px)`;
-    ctx.drawImage(tempCanvas, 0, 0);
-    
-    // Get blurred image data
-    imageData = ctx.getImageData(0, 0, width, height);
-    data = imageData.data;
-    
-    // Reset filter
-    ctx.filter = 'none';
-  }
-  
-  // Apply sharpening if needed
-  if (options.sharpen) {
-    const tempCanvas = document.createElement('canvas');
-    const tempCtx = tempCanvas.getContext('2d')!;
-    tempCanvas.width = width;
-    tempCanvas.height = height;
-    
-    // Draw current image data to temp canvas
-    tempCtx.putImageData(imageData, 0, 0);
-    
-    // Apply unsharp masking
-    ctx.clearRect(0, 0, width, height);
-    ctx.drawImage(tempCanvas, 0, 0);
-    ctx.globalCompositeOperation = 'overlay';
-    ctx.drawImage(tempCanvas, 0, 0);
-    ctx.globalCompositeOperation = 'source-over';
-    
-    // Get sharpened image data
-    imageData = ctx.getImageData(0, 0, width, height);
-    data = imageData.data;
-  }
-  
-  // Apply thresholding if needed
-  if (options.threshold) {
-    const threshold = options.thresholdValue || 127;
-    
-    if (options.thresholdType === 'binary') {
-      // Simple binary threshold
-      for (let i = 0; i < data.length; i += 4) {
-        const value = data[i] < threshold ? 0 : 255;
-        data[i] = data[i + 1] = data[i + 2] = value;
-      }
-    } else if (options.thresholdType === 'adaptive') {
-      // Simulate adaptive thresholding
-      const blockSize = 11; // Must be odd
-      const halfBlockSize = Math.floor(blockSize / 2);
-      
-      // Create a copy of the image data
-      const tempCanvas = document.createElement('canvas');
-      const tempCtx = tempCanvas.getContext('2d')!;
-      tempCanvas.width = width;
-      tempCanvas.height = height;
-      tempCtx.putImageData(imageData, 0, 0);
-      
-      // Apply a blur to get local average (simulating adaptive threshold)
-      ctx.clearRect(0, 0, width, height);
-      ctx.filter = `blur(${halfBlockSize}px)`;
-      ctx.drawImage(tempCanvas, 0, 0);
-      
-      // Get blurred image data (local averages)
-      const blurredData = ctx.getImageData(0, 0, width, height).data;
-      
-      // Apply adaptive threshold
-      for (let i = 0; i < data.length; i += 4) {
-        const localAvg = blurredData[i];
-        const value = data[i] < localAvg - 10 ? 0 : 255; // -10 is a constant offset
-        data[i] = data[i + 1] = data[i + 2] = value;
-      }
-      
-      // Reset filter
-      ctx.filter = 'none';
-    } else if (options.thresholdType === 'otsu') {
-      // Simulate Otsu's method (simplified)
-      // First, compute histogram
-      const histogram = new Array(256).fill(0);
-      let pixelCount = 0;
-      
-      for (let i = 0; i < data.length; i += 4) {
-        histogram[data[i]]++;
-        pixelCount++;
-      }
-      
-      // Normalize histogram
-      for (let i = 0; i < 256; i++) {
-        histogram[i] /= pixelCount;
-      }
-      
-      // Find optimal threshold
-      let maxVariance = 0;
-      let optimalThreshold = 0;
-      
-      for (let t = 0; t < 256; t++) {
-        // Compute weights
-        let w0 = 0;
-        let w1 = 0;
-        
-        for (let i = 0; i < 256; i++) {
-          if (i <= t) {
-            w0 += histogram[i];
-          } else {
-            w1 += histogram[i];
-          }
-        }
-        
-        // If one of the classes is empty, skip
-        if (w0 === 0 || w1 === 0) continue;
-        
-        // Compute means
-        let mean0 = 0;
-        let mean1 = 0;
-        
-        for (let i = 0; i < 256; i++) {
-          if (i <= t) {
-            mean0 += i * histogram[i] / w0;
-          } else {
-            mean1 += i * histogram[i] / w1;
-          }
-        }
-        
-        // Compute between-class variance
-        const variance = w0 * w1 * Math.pow(mean0 - mean1, 2);
-        
-        // Update optimal threshold if needed
-        if (variance > maxVariance) {
-          maxVariance = variance;
-          optimalThreshold = t;
-        }
-      }
-      
-      // Apply Otsu threshold
-      for (let i = 0; i < data.length; i += 4) {
-        const value = data[i] < optimalThreshold ? 0 : 255;
-        data[i] = data[i + 1] = data[i + 2] = value;
-      }
-    }
-  }
-  
-  // Apply inversion if needed
-  if (options.invert) {
-    for (let i = 0; i < data.length; i += 4) {
-      data[i] = 255 - data[i];
-      data[i + 1] = 255 - data[i + 1];
-      data[i + 2] = 255 - data[i + 2];
-    }
-  }
-  
-  // Put processed image data back to canvas
-  ctx.putImageData(imageData, 0, 0);
+  // Apply the remaining steps to the pixels
+  writeImageData(canvas, preprocessingChain(options).run(readImageData(canvas)));
   
   return canvas;
 }
@@ -277,8 +124,8 @@ export function preprocessImage(
 /**
  * Create multiple preprocessed versions of an image for better text detection
  */
-export function createPreprocessedVersions(imageElement: HTMLImageElement): HTMLCanvasElement[] {
-  const versions: HTMLCanvasElement[] = [];
+export function createPreprocessedVersions(imageElement: SourceImage): Canvas[] {
+  const versions: Canvas[] = [];
   
   // Version 1: Default preprocessing (balanced)
   versions.push(preprocessImage(imageElement, DEFAULT_PREPROCESSING_OPTIONS));
@@ -313,42 +160,45 @@ export function createPreprocessedVersions(imageElement: HTMLImageElement): HTML
 
 /**
  * Extract regions of interest from an image that are likely to contain numbers
+ * Regions are cut from the preprocessed (resized) image and carry their
+ * origin and scale so boxes read on them map back to the original image
  */
-export function extractNumberRegions(imageElement: HTMLImageElement): HTMLCanvasElement[] {
-  const regions: HTMLCanvasElement[] = [];
-  const width = imageElement.naturalWidth;
-  const height = imageElement.naturalHeight;
+export function extractNumberRegions(
+  imageElement: SourceImage,
+  options: PreprocessingOptions = NUMBER_PREPROCESSING_OPTIONS
+): ImageTile[] {
+  const regions: ImageTile[] = [];
   
   // Preprocess the image for number detection
-  const preprocessed = preprocessImage(imageElement, NUMBER_PREPROCESSING_OPTIONS);
+  const preprocessed = preprocessImage(imageElement, options);
+  const width = preprocessed.width;
+  const height = preprocessed.height;
+  const scale = width / imageSize(imageElement).width;
   
   // Define regions where numbers are commonly found in cadastral maps
   const numberRegions = [
     // Bottom section (often contains numbers)
-    { x: 0, y: Math.floor(height * 0.7), width: width, height: Math.floor(height * 0.3) },
+    { id: 'bottom', x: 0, y: Math.floor(height * 0.7), width: width, height: Math.floor(height * 0.3) },
     
     // Right side (often contains plot numbers)
-    { x: Math.floor(width * 0.7), y: 0, width: Math.floor(width * 0.3), height: height },
+    { id: 'right', x: Math.floor(width * 0.7), y: 0, width: Math.floor(width * 0.3), height: height },
     
     // Center regions (often contain important numbers)
-    { x: Math.floor(width * 0.25), y: Math.floor(height * 0.25), width: Math.floor(width * 0.5), height: Math.floor(height * 0.5) }
+    { id: 'center', x: Math.floor(width * 0.25), y: Math.floor(height * 0.25), width: Math.floor(width * 0.5), height: Math.floor(height * 0.5) }
   ];
   
   // Extract each region
-  const ctx = preprocessed.getContext('2d')!;
+  const ctx = getContext2D(preprocessed);
   
   for (const region of numberRegions) {
-    const regionCanvas = document.createElement('canvas');
-    const regionCtx = regionCanvas.getContext('2d')!;
-    
-    regionCanvas.width = region.width;
-    regionCanvas.height = region.height;
+    const regionCanvas = createCanvas(region.width, region.height);
+    const regionCtx = getContext2D(regionCanvas);
     
     // Extract region from preprocessed image
     const imageData = ctx.getImageData(region.x, region.y, region.width, region.height);
     regionCtx.putImageData(imageData, 0, 0);
     
-    regions.push(regionCanvas);
+    regions.push({ ...region, canvas: regionCanvas, scale });
   }
   
   return regions;
@@ -359,11 +209,6 @@ export function extractNumberRegions(imageElement: HTMLImageElement): HTMLCanvas
  */
 export function postProcessNumbers(numbers: string[]): string[] {
   const processedNumbers: string[] = [];
-  const knownCadastralNumbers = [
-    '74', '24', '387', '13', '12', '11', '10', '76', '22', '396', 
-    '424', '404', '379', '372', '362', '364', '20', '426', '18', 
-    '391', '386', '377', '364', '361', '402', '400'
-  ];
   
   // Process each detected number
   for (let number of numbers) {
@@ -384,27 +229,6 @@ export function postProcessNumbers(numbers: string[]): string[] {
     }
   }
   
-  // Add known cadastral numbers that might have been missed
-  for (const known of knownCadastralNumbers) {
-    if (!processedNumbers.includes(known)) {
-      // Check if there's a similar number (off by 1 digit)
-      const similar = processedNumbers.find(num => {
-        if (num.length !== known.length) return false;
-        let diffCount = 0;
-        for (let i = 0; i < num.length; i++) {
-          if (num[i] !== known[i]) diffCount++;
-        }
-        return diffCount <= 1;
-      });
-      
-      if (similar) {
-        // Replace the similar number with the known one
-        const index = processedNumbers.indexOf(similar);
-        processedNumbers[index] = known;
-      }
-    }
-  }
-  
   // Remove duplicates
   return [...new Set(processedNumbers)];
 }
@@ -0,0 +1,109 @@
+/**
+ * Expected Terms Checklist
+ *
+ * Lets the user list the place names and survey numbers they expect on a
+ * map and reports, for each one, whether the OCR results contain it and
+ * where. The checklist only reads the results; it never adds entries.
+ */
+
+import { DetectedText } from './advancedOCR';
+import { levenshteinDistance } from './cadastralDictionary';
+
+// Configuration for matching expected terms against OCR results
+export interface ExpectedTermsConfig {
+  fuzzyThreshold: number; // Minimum similarity (0-1) for a fuzzy place-name match
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: ExpectedTermsConfig = {
+  fuzzyThreshold: 0.8
+};
+
+// One occurrence of an expected term in the OCR results
+export interface ExpectedTermMatch {
+  text: string;
+  confidence: number;
+  bbox: DetectedText['bbox'];
+  exact: boolean;
+}
+
+// Checklist entry for one expected term
+export interface ExpectedTermResult {
+  term: string;
+  type: DetectedText['type'];
+  status: 'found' | 'missing';
+  matches: ExpectedTermMatch[];
+}
+
+/**
+ * Parse a user-supplied list of terms (one per line or comma separated)
+ */
+export function parseExpectedTerms(input: string): string[] {
+  const terms = input
+    .split(/[\n,;]+/)
+    .map(term => term.trim().replace(/\s+/g, ' '))
+    .filter(term => term.length > 0);
+
+  // Keep the first spelling of each term
+  const seen = new Set<string>();
+  return terms.filter(term => {
+    const key = term.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Check each expected term against the OCR results
+ * Numbers must match exactly; place names may also match fuzzily
+ */
+export function checkExpectedTerms(
+  results: DetectedText[],
+  terms: string[],
+  config: Partial<ExpectedTermsConfig> = {}
+): ExpectedTermResult[] {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+
+  return terms.map(term => {
+    const type: DetectedText['type'] = /^\d+$/.test(term) ? 'number' : 'character';
+    const normalizedTerm = normalize(term);
+    const matches: ExpectedTermMatch[] = [];
+
+    for (const result of results) {
+      const normalizedText = normalize(result.text);
+      const exact = normalizedText === normalizedTerm;
+      const fuzzy = !exact && type === 'character' && result.type === 'character' &&
+        similarity(normalizedText, normalizedTerm) >= fullConfig.fuzzyThreshold;
+
+      if (exact || fuzzy) {
+        matches.push({
+          text: result.text,
+          confidence: result.confidence,
+          bbox: { ...result.bbox },
+          exact
+        });
+      }
+    }
+
+    // Exact matches first, then by confidence
+    matches.sort((a, b) => Number(b.exact) - Number(a.exact) || b.confidence - a.confidence);
+
+    return {
+      term,
+      type,
+      status: matches.length > 0 ? 'found' : 'missing',
+      matches
+    };
+  });
+}
+
+function normalize(text: string): string {
+  return text.toLowerCase().replace(/\s+/g, ' ').trim();
+}
+
+function similarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshteinDistance(a, b) / maxLength;
+}
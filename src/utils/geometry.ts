@@ -0,0 +1,167 @@
+/**
+ * Geometry Helpers for OCR Detections
+ *
+ * Bounding-box arithmetic shared by the OCR pipelines: mapping boxes read
+ * on a transformed image (rotated, scaled, cropped) back into the frame
+ * of the original image, and measuring how much two boxes overlap.
+ */
+
+import { DetectedText, Point, RotatedBox } from './advancedOCR';
+
+export type BBox = DetectedText['bbox'];
+
+/**
+ * Rotate a point clockwise by `angle` degrees around a center
+ */
+export function rotatePoint(point: Point, angle: number, center: Point): Point {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const dx = point.x - center.x;
+  const dy = point.y - center.y;
+  return { x: center.x + dx * cos - dy * sin, y: center.y + dx * sin + dy * cos };
+}
+
+/**
+ * Corners of a rotated box: top-left, top-right, bottom-right, bottom-left (of the unrotated box)
+ */
+export function rotatedBoxCorners(box: RotatedBox): Point[] {
+  const center = { x: box.cx, y: box.cy };
+  const halfWidth = box.width / 2;
+  const halfHeight = box.height / 2;
+  return [
+    { x: box.cx - halfWidth, y: box.cy - halfHeight },
+    { x: box.cx + halfWidth, y: box.cy - halfHeight },
+    { x: box.cx + halfWidth, y: box.cy + halfHeight },
+    { x: box.cx - halfWidth, y: box.cy + halfHeight }
+  ].map(corner => {
+    const rotated = rotatePoint(corner, box.angle, center);
+    return { x: Math.round(rotated.x), y: Math.round(rotated.y) };
+  });
+}
+
+/**
+ * Axis-aligned box enclosing a set of points
+ */
+export function pointsBbox(points: Point[]): BBox {
+  const xs = points.map(point => point.x);
+  const ys = points.map(point => point.y);
+  return {
+    x0: Math.round(Math.min(...xs)),
+    y0: Math.round(Math.min(...ys)),
+    x1: Math.round(Math.max(...xs)),
+    y1: Math.round(Math.max(...ys))
+  };
+}
+
+/**
+ * Map a box read on a rotated image back into the unrotated image frame
+ *
+ * The rotated image is assumed to be produced like rotateCanvas() in
+ * canvas.ts: the source is drawn centered on the rotated canvas and
+ * rotated clockwise by `angle` degrees around the center.
+ */
+export function unrotateBbox(
+  bbox: BBox,
+  angle: number,
+  rotated: { width: number; height: number },
+  source: { width: number; height: number }
+): BBox {
+  if (angle % 360 === 0) return { ...bbox };
+
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const rotatedCx = rotated.width / 2;
+  const rotatedCy = rotated.height / 2;
+  const sourceCx = source.width / 2;
+  const sourceCy = source.height / 2;
+
+  // Apply the inverse rotation to each corner and take the enclosing box
+  const corners: Array<[number, number]> = [
+    [bbox.x0, bbox.y0], [bbox.x1, bbox.y0], [bbox.x1, bbox.y1], [bbox.x0, bbox.y1]
+  ].map(([x, y]) => {
+    const dx = x - rotatedCx;
+    const dy = y - rotatedCy;
+    return [sourceCx + dx * cos + dy * sin, sourceCy - dx * sin + dy * cos];
+  });
+
+  const xs = corners.map(([x]) => x);
+  const ys = corners.map(([, y]) => y);
+  return {
+    x0: Math.round(Math.min(...xs)),
+    y0: Math.round(Math.min(...ys)),
+    x1: Math.round(Math.max(...xs)),
+    y1: Math.round(Math.max(...ys))
+  };
+}
+
+/**
+ * Map a box read on a tile back into the original (unscaled) image frame
+ * The tile origin is in the tiled image, which is `scale` times the original
+ */
+export function tileBboxToImage(
+  bbox: BBox,
+  tile: { x: number; y: number; scale: number }
+): BBox {
+  return {
+    x0: Math.round((bbox.x0 + tile.x) / tile.scale),
+    y0: Math.round((bbox.y0 + tile.y) / tile.scale),
+    x1: Math.round((bbox.x1 + tile.x) / tile.scale),
+    y1: Math.round((bbox.y1 + tile.y) / tile.scale)
+  };
+}
+
+/**
+ * Map a box read on a resized copy of an image back into the image frame
+ */
+export function rescaleBbox(
+  bbox: BBox,
+  resized: { width: number; height: number },
+  source: { width: number; height: number }
+): BBox {
+  const scaleX = source.width / resized.width;
+  const scaleY = source.height / resized.height;
+  return {
+    x0: Math.round(bbox.x0 * scaleX),
+    y0: Math.round(bbox.y0 * scaleY),
+    x1: Math.round(bbox.x1 * scaleX),
+    y1: Math.round(bbox.y1 * scaleY)
+  };
+}
+
+/**
+ * Area of a box (0 for degenerate boxes)
+ */
+export function bboxArea(bbox: BBox): number {
+  return Math.max(0, bbox.x1 - bbox.x0) * Math.max(0, bbox.y1 - bbox.y0);
+}
+
+/**
+ * Area of the intersection of two boxes
+ */
+export function intersectionArea(a: BBox, b: BBox): number {
+  const width = Math.min(a.x1, b.x1) - Math.max(a.x0, b.x0);
+  const height = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0);
+  return width > 0 && height > 0 ? width * height : 0;
+}
+
+/**
+ * Intersection over union of two boxes (0-1)
+ */
+export function bboxIoU(a: BBox, b: BBox): number {
+  const intersection = intersectionArea(a, b);
+  if (intersection === 0) return 0;
+  return intersection / (bboxArea(a) + bboxArea(b) - intersection);
+}
+
+/**
+ * Intersection over the area of the smaller box (0-1)
+ * Close to 1 when one box lies inside the other, e.g. a word cut off at a
+ * tile edge against the full word read on the neighbouring tile
+ */
+export function bboxOverlapRatio(a: BBox, b: BBox): number {
+  const intersection = intersectionArea(a, b);
+  if (intersection === 0) return 0;
+  return intersection / Math.min(bboxArea(a), bboxArea(b));
+}
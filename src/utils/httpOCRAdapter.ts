@@ -0,0 +1,210 @@
+/**
+ * HTTP OCR-Server Adapter
+ *
+ * Client for PaddleOCR-style OCR servers (PaddleOCR, EasyOCR or anything
+ * speaking the same protocol). The adapter posts the base64 tile to the
+ * server's /ocr endpoint and maps the polygon/text/score response to
+ * DetectedText.
+ *
+ * Request:  POST {endpoint}/ocr  { "image": "<base64>", "use_angle_cls": true }
+ * Response: { "results": [{ "polygon": [[x, y], ...], "text": "...", "score": 0.97 }] }
+ *           or the raw PaddleOCR list: [[[[x, y], ...], ["text", 0.97]], ...]
+ *
+ * scripts/mock-ocr-server.mjs replays recorded responses for offline testing.
+ */
+
+import { DetectedText } from './advancedOCR';
+import {
+  OCREngineAdapter,
+  OCREngineId,
+  OCREngineImage,
+  OCREngineOptions,
+  registerOCREngine,
+  toBase64,
+  toDetectedText
+} from './ocrEngineRegistry';
+
+// Configuration for an HTTP OCR server
+export interface HttpOCRAdapterConfig {
+  name: string;                      // Display name used in logs
+  endpoint: string;                  // Base URL of the server, e.g. http://localhost:8866
+  path: string;                      // Recognition route on the server
+  timeoutMs: number;                 // Abort the request after this many milliseconds
+  headers: Record<string, string>;   // Extra request headers (auth tokens, ...)
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: Omit<HttpOCRAdapterConfig, 'endpoint'> = {
+  name: 'OCR server',
+  path: '/ocr',
+  timeoutMs: 30000,
+  headers: {}
+};
+
+// A point of a text polygon as returned by PaddleOCR
+type PolygonPoint = [number, number];
+
+// One recognized line in the normalized response format
+export interface OCRServerLine {
+  polygon: PolygonPoint[];
+  text: string;
+  score: number; // 0-1
+}
+
+// Raw PaddleOCR line: [polygon, [text, score]]
+type PaddleOCRRawLine = [PolygonPoint[], [string, number]];
+
+/**
+ * Raised when the OCR server answers with an error or an unreadable body
+ */
+export class OCRServerError extends Error {
+  readonly status: number | null;
+
+  constructor(message: string, status: number | null = null) {
+    super(message);
+    this.name = 'OCRServerError';
+    this.status = status;
+  }
+}
+
+/**
+ * OCR engine adapter backed by an HTTP OCR server
+ */
+export class HttpOCRAdapter implements OCREngineAdapter {
+  readonly name: string;
+  private config: HttpOCRAdapterConfig;
+
+  constructor(config: Partial<HttpOCRAdapterConfig> & Pick<HttpOCRAdapterConfig, 'endpoint'>) {
+    this.config = { ...DEFAULT_CONFIG, ...config };
+    this.name = this.config.name;
+  }
+
+  async recognize(image: OCREngineImage, options: OCREngineOptions = {}): Promise<DetectedText[]> {
+    const url = this.config.endpoint.replace(/\/+$/, '') + this.config.path;
+    const body = JSON.stringify({
+      image: await toBase64(image),
+      use_angle_cls: options.useAngleClassification ?? true
+    });
+
+    // Abort on timeout or when the caller cancels the run
+    options.signal?.throwIfAborted();
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.config.timeoutMs);
+    const cancel = () => controller.abort();
+    options.signal?.addEventListener('abort', cancel);
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.config.headers },
+        body,
+        signal: controller.signal
+      });
+    } catch (error) {
+      options.signal?.throwIfAborted();
+      const reason = controller.signal.aborted
+        ? `timed out after ${this.config.timeoutMs}ms`
+        : error instanceof Error ? error.message : String(error);
+      throw new OCRServerError(`${this.name} request to ${url} failed: ${reason}`);
+    } finally {
+      clearTimeout(timeout);
+      options.signal?.removeEventListener('abort', cancel);
+    }
+
+    if (!response.ok) {
+      throw new OCRServerError(`${this.name} responded with HTTP ${response.status}`, response.status);
+    }
+
+    let responseBody: unknown;
+    try {
+      responseBody = await response.json();
+    } catch {
+      options.signal?.throwIfAborted();
+      throw new OCRServerError(`${this.name} returned a body that is not JSON`, response.status);
+    }
+
+    return parseOCRServerResponse(responseBody).flatMap(line => {
+      const detected = toDetectedText(line.text, line.score * 100, polygonToBbox(line.polygon));
+      return detected ? [detected] : [];
+    });
+  }
+}
+
+/**
+ * Normalize an OCR server response to a list of lines
+ * @throws OCRServerError if the body matches neither supported format
+ */
+export function parseOCRServerResponse(body: unknown): OCRServerLine[] {
+  // Normalized format: { results: [...] }
+  if (body && typeof body === 'object' && !Array.isArray(body)) {
+    const { results, error } = body as { results?: unknown; error?: unknown };
+    if (typeof error === 'string') {
+      throw new OCRServerError(`OCR server error: ${error}`);
+    }
+    if (Array.isArray(results)) {
+      return results.map(result => {
+        const { polygon, text, score } = result as Partial<OCRServerLine>;
+        if (!isPolygon(polygon) || typeof text !== 'string' || typeof score !== 'number') {
+          throw new OCRServerError('OCR server returned a malformed result entry');
+        }
+        return { polygon, text, score };
+      });
+    }
+  }
+
+  // Raw PaddleOCR format: [[polygon, [text, score]], ...]
+  if (Array.isArray(body)) {
+    return (body as PaddleOCRRawLine[]).map(line => {
+      const [polygon, recognition] = Array.isArray(line) ? line : [];
+      if (!isPolygon(polygon) || !Array.isArray(recognition) ||
+          typeof recognition[0] !== 'string' || typeof recognition[1] !== 'number') {
+        throw new OCRServerError('OCR server returned a malformed PaddleOCR line');
+      }
+      return { polygon, text: recognition[0], score: recognition[1] };
+    });
+  }
+
+  throw new OCRServerError('OCR server response has neither a results list nor PaddleOCR lines');
+}
+
+/**
+ * Axis-aligned bounding box of a text polygon
+ */
+export function polygonToBbox(polygon: PolygonPoint[]): DetectedText['bbox'] {
+  const xs = polygon.map(([x]) => x);
+  const ys = polygon.map(([, y]) => y);
+  return {
+    x0: Math.min(...xs),
+    y0: Math.min(...ys),
+    x1: Math.max(...xs),
+    y1: Math.max(...ys)
+  };
+}
+
+function isPolygon(value: unknown): value is PolygonPoint[] {
+  return Array.isArray(value) && value.length > 0 && value.every(point =>
+    Array.isArray(point) && point.length === 2 &&
+    typeof point[0] === 'number' && typeof point[1] === 'number'
+  );
+}
+
+/**
+ * Register HTTP adapters for the OCR servers configured in the environment
+ * (VITE_PADDLEOCR_URL, VITE_EASYOCR_URL)
+ */
+export function registerHttpOCREnginesFromEnv(): OCREngineId[] {
+  const servers: Array<{ id: OCREngineId; name: string; endpoint: string | undefined }> = [
+    { id: 'paddleocr', name: 'PaddleOCR server', endpoint: import.meta.env.VITE_PADDLEOCR_URL },
+    { id: 'easyocr', name: 'EasyOCR server', endpoint: import.meta.env.VITE_EASYOCR_URL }
+  ];
+
+  const registered: OCREngineId[] = [];
+  for (const { id, name, endpoint } of servers) {
+    if (endpoint) {
+      registerOCREngine(id, new HttpOCRAdapter({ name, endpoint }));
+      registered.push(id);
+    }
+  }
+  return registered;
+}
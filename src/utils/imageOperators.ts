@@ -0,0 +1,813 @@
+/**
+ * Image Operator Library
+ *
+ * The preprocessing building blocks shared by every OCR path: pure
+ * functions over ImageData (the input is never modified) and a chain
+ * builder that applies a list of operator steps. Steps are plain data
+ * ({ op, params }), so a chain can be saved, shown step by step and
+ * replayed. The preprocessing modules (imagePreprocessing,
+ * enhancedPreprocessing, improvedPreprocessing, blackTextExtraction,
+ * mapSpecializedOCR) are expressed on top of these operators.
+ *
+ * Operators that look at intensity use the luminance of the pixel, so
+ * they work on colour and grayscale input alike; their output is gray.
+ */
+
+import { createCanvas, getContext2D, imageDataToCanvas, readImageData } from './canvas';
+import { INK_LAYERS, extractInkLayers } from './colorLayers';
+import { removeLines } from './lineRemoval';
+
+// Parameters of each operator
+export interface OperatorParams {
+  grayscale: Record<string, never>;
+  contrast: { factor: number };                     // Linear stretch around mid-gray
+  gaussianBlur: { sigma: number };
+  sharpen: Record<string, never>;                   // 3x3 Laplacian sharpening
+  sobel: Record<string, never>;                     // Edge magnitude
+  clahe: { tileSize: number; clipLimit: number };   // Contrast limited histogram equalization
+  threshold: { value: number };                     // Global threshold (darker -> black)
+  otsu: Record<string, never>;                      // Global threshold chosen by Otsu's method
+  adaptiveThreshold: { blockSize: number; offset: number }; // Local mean threshold
+  niblack: { blockSize: number; k: number };        // Local mean + k * standard deviation
+  sauvola: { blockSize: number; k: number; range: number }; // Niblack scaled by the local contrast (uneven illumination)
+  wolf: { blockSize: number; k: number };           // Sauvola normalized by the sheet's contrast
+  invert: Record<string, never>;
+  dilate: { size: number };                         // Max filter (grows light areas)
+  erode: { size: number };                          // Min filter (grows dark strokes)
+  median: { size: number };                         // Median filter (salt-and-pepper noise)
+  blackText: { threshold: number };                 // Keep near-black pixels, whiten the rest
+  inkLayers: { black: number; red: number; blue: number; green: number; clusters: number }; // Keep the ink layers set to 1 (colour separation)
+  removeLines: { length: number; angleStep: number; dashGap: number }; // Remove boundary lines and hatching, keep glyphs
+  resize: { scale: number; width: number; height: number }; // Scale, or explicit size (0 = derive)
+}
+
+export type OperatorName = keyof OperatorParams;
+
+// One step of a chain
+export type OperatorStep = {
+  [N in OperatorName]: { op: N; params?: Partial<OperatorParams[N]> }
+}[OperatorName];
+
+// Default parameters of each operator
+export const OPERATOR_DEFAULTS: { [N in OperatorName]: OperatorParams[N] } = {
+  grayscale: {},
+  contrast: { factor: 1.5 },
+  gaussianBlur: { sigma: 1 },
+  sharpen: {},
+  sobel: {},
+  clahe: { tileSize: 32, clipLimit: 3 },
+  threshold: { value: 127 },
+  otsu: {},
+  adaptiveThreshold: { blockSize: 11, offset: 10 },
+  niblack: { blockSize: 25, k: -0.2 },
+  sauvola: { blockSize: 25, k: 0.34, range: 128 },
+  wolf: { blockSize: 25, k: 0.5 },
+  invert: {},
+  dilate: { size: 3 },
+  erode: { size: 3 },
+  median: { size: 3 },
+  blackText: { threshold: 80 },
+  inkLayers: { black: 1, red: 0, blue: 0, green: 0, clusters: 8 },
+  removeLines: { length: 60, angleStep: 15, dashGap: 6 },
+  resize: { scale: 1, width: 0, height: 0 }
+};
+
+// Display names of the operators
+export const OPERATOR_LABELS: Record<OperatorName, string> = {
+  grayscale: 'Grayscale',
+  contrast: 'Contrast',
+  gaussianBlur: 'Gaussian blur',
+  sharpen: 'Sharpen',
+  sobel: 'Edges (Sobel)',
+  clahe: 'CLAHE',
+  threshold: 'Threshold',
+  otsu: 'Otsu threshold',
+  adaptiveThreshold: 'Adaptive threshold',
+  niblack: 'Niblack threshold',
+  sauvola: 'Sauvola threshold',
+  wolf: 'Wolf threshold',
+  invert: 'Invert',
+  dilate: 'Dilate',
+  erode: 'Erode (thicken text)',
+  median: 'Median (denoise)',
+  blackText: 'Black-text isolation',
+  inkLayers: 'Ink layers (colour separation)',
+  removeLines: 'Line / hatching removal',
+  resize: 'Resize / upscale'
+};
+
+// Allowed range of each numeric parameter (for validation and sliders)
+export interface ParamRange {
+  min: number;
+  max: number;
+  step: number;
+}
+
+export const OPERATOR_PARAM_RANGES: { [N in OperatorName]: { [K in keyof OperatorParams[N]]: ParamRange } } = {
+  grayscale: {},
+  contrast: { factor: { min: 0.1, max: 5, step: 0.1 } },
+  gaussianBlur: { sigma: { min: 0, max: 10, step: 0.1 } },
+  sharpen: {},
+  sobel: {},
+  clahe: { tileSize: { min: 8, max: 256, step: 8 }, clipLimit: { min: 1, max: 10, step: 0.5 } },
+  threshold: { value: { min: 0, max: 255, step: 1 } },
+  otsu: {},
+  adaptiveThreshold: { blockSize: { min: 3, max: 101, step: 2 }, offset: { min: -50, max: 50, step: 1 } },
+  niblack: { blockSize: { min: 3, max: 151, step: 2 }, k: { min: -1, max: 1, step: 0.05 } },
+  sauvola: {
+    blockSize: { min: 3, max: 151, step: 2 },
+    k: { min: 0, max: 1, step: 0.01 },
+    range: { min: 1, max: 255, step: 1 }
+  },
+  wolf: { blockSize: { min: 3, max: 151, step: 2 }, k: { min: 0, max: 1, step: 0.05 } },
+  invert: {},
+  dilate: { size: { min: 1, max: 15, step: 2 } },
+  erode: { size: { min: 1, max: 15, step: 2 } },
+  median: { size: { min: 1, max: 15, step: 2 } },
+  blackText: { threshold: { min: 0, max: 255, step: 1 } },
+  inkLayers: {
+    black: { min: 0, max: 1, step: 1 },
+    red: { min: 0, max: 1, step: 1 },
+    blue: { min: 0, max: 1, step: 1 },
+    green: { min: 0, max: 1, step: 1 },
+    clusters: { min: 3, max: 16, step: 1 }
+  },
+  removeLines: {
+    length: { min: 10, max: 500, step: 5 },
+    angleStep: { min: 5, max: 90, step: 5 },
+    dashGap: { min: 0, max: 30, step: 1 }
+  },
+  resize: {
+    scale: { min: 0.1, max: 6, step: 0.1 },
+    width: { min: 0, max: 10000, step: 1 },
+    height: { min: 0, max: 10000, step: 1 }
+  }
+};
+
+/**
+ * Copy an image
+ */
+export function cloneImageData(image: ImageData): ImageData {
+  return new ImageData(new Uint8ClampedArray(image.data), image.width, image.height);
+}
+
+/**
+ * Copy a rectangle of an image (clamped to the image)
+ */
+export function crop(image: ImageData, x: number, y: number, width: number, height: number): ImageData {
+  const x0 = Math.max(0, Math.floor(x));
+  const y0 = Math.max(0, Math.floor(y));
+  const x1 = Math.min(image.width, Math.ceil(x + width));
+  const y1 = Math.min(image.height, Math.ceil(y + height));
+  const cropWidth = Math.max(1, x1 - x0);
+  const cropHeight = Math.max(1, y1 - y0);
+  const output = new Uint8ClampedArray(cropWidth * cropHeight * 4);
+  for (let row = 0; row < cropHeight && y0 + row < image.height; row++) {
+    const start = ((y0 + row) * image.width + x0) * 4;
+    output.set(image.data.subarray(start, start + Math.min(cropWidth, image.width - x0) * 4), row * cropWidth * 4);
+  }
+  return new ImageData(output, cropWidth, cropHeight);
+}
+
+/**
+ * Luminance (0-255) of every pixel
+ */
+export function luminance(image: ImageData): Float32Array {
+  const { data } = image;
+  const gray = new Float32Array(image.width * image.height);
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    gray[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+  }
+  return gray;
+}
+
+/**
+ * Build a gray image (alpha kept from `like`) from one value per pixel
+ */
+function fromGray(gray: ArrayLike<number>, like: ImageData): ImageData {
+  const output = new Uint8ClampedArray(like.data.length);
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    output[i] = output[i + 1] = output[i + 2] = gray[p];
+    output[i + 3] = like.data[i + 3];
+  }
+  return new ImageData(output, like.width, like.height);
+}
+
+/**
+ * Apply a per-pixel binary decision: true -> black, false -> white
+ */
+function binarize(image: ImageData, isDark: (gray: number, pixel: number) => boolean): ImageData {
+  const gray = luminance(image);
+  const output = new Uint8Array(gray.length);
+  for (let p = 0; p < gray.length; p++) {
+    output[p] = isDark(gray[p], p) ? 0 : 255;
+  }
+  return fromGray(output, image);
+}
+
+/**
+ * Convert to grayscale (luminosity method)
+ */
+export function grayscale(image: ImageData): ImageData {
+  return fromGray(luminance(image), image);
+}
+
+/**
+ * Stretch contrast around mid-gray: v' = factor * v + 128 * (1 - factor)
+ */
+export function contrast(image: ImageData, factor: number = OPERATOR_DEFAULTS.contrast.factor): ImageData {
+  const output = cloneImageData(image);
+  const { data } = output;
+  const intercept = 128 * (1 - factor);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = data[i] * factor + intercept;
+    data[i + 1] = data[i + 1] * factor + intercept;
+    data[i + 2] = data[i + 2] * factor + intercept;
+  }
+  return output;
+}
+
+/**
+ * Invert the colours
+ */
+export function invert(image: ImageData): ImageData {
+  const output = cloneImageData(image);
+  const { data } = output;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = 255 - data[i];
+    data[i + 1] = 255 - data[i + 1];
+    data[i + 2] = 255 - data[i + 2];
+  }
+  return output;
+}
+
+/**
+ * Gaussian blur (separable, edges clamped)
+ */
+export function gaussianBlur(image: ImageData, sigma: number = OPERATOR_DEFAULTS.gaussianBlur.sigma): ImageData {
+  if (sigma <= 0) return cloneImageData(image);
+
+  const radius = Math.max(1, Math.ceil(sigma * 3));
+  const kernel = new Float32Array(radius * 2 + 1);
+  let sum = 0;
+  for (let k = -radius; k <= radius; k++) {
+    kernel[k + radius] = Math.exp(-(k * k) / (2 * sigma * sigma));
+    sum += kernel[k + radius];
+  }
+  for (let k = 0; k < kernel.length; k++) kernel[k] /= sum;
+
+  const { width, height } = image;
+  const temp = new Float32Array(image.data.length);
+  const output = cloneImageData(image);
+
+  // Horizontal pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sx = Math.min(width - 1, Math.max(0, x + k));
+        const i = (y * width + sx) * 4;
+        const w = kernel[k + radius];
+        r += image.data[i] * w;
+        g += image.data[i + 1] * w;
+        b += image.data[i + 2] * w;
+      }
+      const o = (y * width + x) * 4;
+      temp[o] = r;
+      temp[o + 1] = g;
+      temp[o + 2] = b;
+    }
+  }
+
+  // Vertical pass
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let k = -radius; k <= radius; k++) {
+        const sy = Math.min(height - 1, Math.max(0, y + k));
+        const i = (sy * width + x) * 4;
+        const w = kernel[k + radius];
+        r += temp[i] * w;
+        g += temp[i + 1] * w;
+        b += temp[i + 2] * w;
+      }
+      const o = (y * width + x) * 4;
+      output.data[o] = r;
+      output.data[o + 1] = g;
+      output.data[o + 2] = b;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Apply a 3x3 kernel to each colour channel (edges clamped)
+ */
+function convolve3x3(image: ImageData, kernel: number[]): ImageData {
+  const { width, height, data } = image;
+  const output = cloneImageData(image);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let r = 0, g = 0, b = 0;
+      for (let ky = -1; ky <= 1; ky++) {
+        const sy = Math.min(height - 1, Math.max(0, y + ky));
+        for (let kx = -1; kx <= 1; kx++) {
+          const sx = Math.min(width - 1, Math.max(0, x + kx));
+          const i = (sy * width + sx) * 4;
+          const w = kernel[(ky + 1) * 3 + (kx + 1)];
+          r += data[i] * w;
+          g += data[i + 1] * w;
+          b += data[i + 2] * w;
+        }
+      }
+      const o = (y * width + x) * 4;
+      output.data[o] = r;
+      output.data[o + 1] = g;
+      output.data[o + 2] = b;
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Sharpen with a 3x3 Laplacian kernel
+ */
+export function sharpen(image: ImageData): ImageData {
+  return convolve3x3(image, [0, -1, 0, -1, 5, -1, 0, -1, 0]);
+}
+
+/**
+ * Sobel edge magnitude
+ */
+export function sobel(image: ImageData): ImageData {
+  const { width, height } = image;
+  const gray = luminance(image);
+  const magnitude = new Float32Array(gray.length);
+  const at = (x: number, y: number) =>
+    gray[Math.min(height - 1, Math.max(0, y)) * width + Math.min(width - 1, Math.max(0, x))];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const gx = -at(x - 1, y - 1) - 2 * at(x - 1, y) - at(x - 1, y + 1) +
+        at(x + 1, y - 1) + 2 * at(x + 1, y) + at(x + 1, y + 1);
+      const gy = -at(x - 1, y - 1) - 2 * at(x, y - 1) - at(x + 1, y - 1) +
+        at(x - 1, y + 1) + 2 * at(x, y + 1) + at(x + 1, y + 1);
+      magnitude[y * width + x] = Math.sqrt(gx * gx + gy * gy);
+    }
+  }
+
+  return fromGray(magnitude, image);
+}
+
+/**
+ * CLAHE-like contrast enhancement: histogram equalization per tile with a
+ * clip limit; tiles smaller than 8 pixels on a side are left as they are
+ */
+export function clahe(
+  image: ImageData,
+  tileSize: number = OPERATOR_DEFAULTS.clahe.tileSize,
+  clipLimit: number = OPERATOR_DEFAULTS.clahe.clipLimit
+): ImageData {
+  const { width, height } = image;
+  const gray = Uint8ClampedArray.from(luminance(image));
+
+  for (let y = 0; y < height; y += tileSize) {
+    for (let x = 0; x < width; x += tileSize) {
+      const tileWidth = Math.min(tileSize, width - x);
+      const tileHeight = Math.min(tileSize, height - y);
+      if (tileWidth < 8 || tileHeight < 8) continue;
+
+      // Histogram of this tile
+      const histogram = new Float64Array(256);
+      const pixelCount = tileWidth * tileHeight;
+      for (let ty = 0; ty < tileHeight; ty++) {
+        for (let tx = 0; tx < tileWidth; tx++) {
+          histogram[gray[(y + ty) * width + (x + tx)]]++;
+        }
+      }
+
+      // Clip and redistribute the excess evenly
+      const clipThreshold = (clipLimit * pixelCount) / 256;
+      let clippedPixels = 0;
+      for (let i = 0; i < 256; i++) {
+        if (histogram[i] > clipThreshold) {
+          clippedPixels += histogram[i] - clipThreshold;
+          histogram[i] = clipThreshold;
+        }
+      }
+      const redistributePerBin = clippedPixels / 256;
+
+      // Normalized cumulative distribution
+      const cdf = new Uint8ClampedArray(256);
+      let cumulative = 0;
+      for (let i = 0; i < 256; i++) {
+        cumulative += histogram[i] + redistributePerBin;
+        cdf[i] = Math.round((cumulative * 255) / pixelCount);
+      }
+
+      for (let ty = 0; ty < tileHeight; ty++) {
+        for (let tx = 0; tx < tileWidth; tx++) {
+          const p = (y + ty) * width + (x + tx);
+          gray[p] = cdf[gray[p]];
+        }
+      }
+    }
+  }
+
+  return fromGray(gray, image);
+}
+
+/**
+ * Global threshold: pixels darker than `value` become black, the rest white
+ */
+export function threshold(image: ImageData, value: number = OPERATOR_DEFAULTS.threshold.value): ImageData {
+  return binarize(image, gray => gray < value);
+}
+
+/**
+ * Otsu's threshold level (0-255) for an image
+ */
+export function otsuLevel(image: ImageData): number {
+  const gray = luminance(image);
+  const histogram = new Float64Array(256);
+  for (let p = 0; p < gray.length; p++) {
+    histogram[Math.round(gray[p])]++;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * histogram[i];
+
+  let sumB = 0;
+  let wB = 0;
+  let maxVariance = 0;
+  let level = 0;
+
+  for (let i = 0; i < 256; i++) {
+    wB += histogram[i];
+    if (wB === 0) continue;
+    const wF = gray.length - wB;
+    if (wF === 0) break;
+
+    sumB += i * histogram[i];
+    const mB = sumB / wB;
+    const mF = (sum - sumB) / wF;
+    const variance = wB * wF * (mB - mF) * (mB - mF);
+    if (variance > maxVariance) {
+      maxVariance = variance;
+      level = i;
+    }
+  }
+
+  return level;
+}
+
+/**
+ * Global threshold at Otsu's level (the level itself belongs to the dark class)
+ */
+export function otsu(image: ImageData): ImageData {
+  const level = otsuLevel(image);
+  return binarize(image, gray => Math.round(gray) <= level);
+}
+
+/**
+ * Summed-area table of a per-pixel value, (width + 1) x (height + 1)
+ */
+export function integralImage(values: ArrayLike<number>, width: number, height: number): Float64Array {
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let rowSum = 0;
+    for (let x = 0; x < width; x++) {
+      rowSum += values[y * width + x];
+      integral[(y + 1) * (width + 1) + (x + 1)] = integral[y * (width + 1) + (x + 1)] + rowSum;
+    }
+  }
+  return integral;
+}
+
+/**
+ * Sum of a window of a summed-area table (x1/y1 exclusive)
+ */
+export function windowSum(integral: Float64Array, width: number, x0: number, y0: number, x1: number, y1: number): number {
+  const stride = width + 1;
+  return integral[y1 * stride + x1] - integral[y0 * stride + x1] - integral[y1 * stride + x0] + integral[y0 * stride + x0];
+}
+
+/**
+ * Adaptive threshold against the local mean of a blockSize x blockSize window
+ * Pixels darker than (mean - offset) become black. O(1) per pixel via an integral image
+ */
+export function adaptiveThreshold(
+  image: ImageData,
+  blockSize: number = OPERATOR_DEFAULTS.adaptiveThreshold.blockSize,
+  offset: number = OPERATOR_DEFAULTS.adaptiveThreshold.offset
+): ImageData {
+  const { width, height } = image;
+  const gray = luminance(image);
+  const integral = integralImage(gray, width, height);
+  const half = Math.floor(blockSize / 2);
+
+  return binarize(image, (value, p) => {
+    const x = p % width;
+    const y = (p - x) / width;
+    const x0 = Math.max(0, x - half);
+    const y0 = Math.max(0, y - half);
+    const x1 = Math.min(width, x + half + 1);
+    const y1 = Math.min(height, y + half + 1);
+    const mean = windowSum(integral, width, x0, y0, x1, y1) / ((x1 - x0) * (y1 - y0));
+    return value < mean - offset;
+  });
+}
+
+// Gray level, mean and standard deviation over the blockSize x blockSize window of every pixel
+interface LocalStatistics {
+  gray: Float32Array;
+  mean: Float32Array;
+  deviation: Float32Array;
+}
+
+/**
+ * Local mean and standard deviation, O(1) per pixel via integral images of
+ * the gray levels and their squares
+ */
+function localStatistics(image: ImageData, blockSize: number): LocalStatistics {
+  const { width, height } = image;
+  const gray = luminance(image);
+  const integral = integralImage(gray, width, height);
+  const squaredIntegral = integralImage(gray.map(value => value * value), width, height);
+  const half = Math.floor(blockSize / 2);
+  const mean = new Float32Array(gray.length);
+  const deviation = new Float32Array(gray.length);
+
+  for (let y = 0; y < height; y++) {
+    const y0 = Math.max(0, y - half);
+    const y1 = Math.min(height, y + half + 1);
+    for (let x = 0; x < width; x++) {
+      const x0 = Math.max(0, x - half);
+      const x1 = Math.min(width, x + half + 1);
+      const area = (x1 - x0) * (y1 - y0);
+      const m = windowSum(integral, width, x0, y0, x1, y1) / area;
+      const variance = windowSum(squaredIntegral, width, x0, y0, x1, y1) / area - m * m;
+      mean[y * width + x] = m;
+      deviation[y * width + x] = Math.sqrt(Math.max(0, variance));
+    }
+  }
+
+  return { gray, mean, deviation };
+}
+
+/**
+ * Black where the gray level is below a threshold computed per pixel
+ */
+function localBinarize(image: ImageData, stats: LocalStatistics, threshold: (mean: number, deviation: number) => number): ImageData {
+  const { gray, mean, deviation } = stats;
+  const output = new Uint8Array(gray.length);
+  for (let p = 0; p < gray.length; p++) {
+    output[p] = gray[p] < threshold(mean[p], deviation[p]) ? 0 : 255;
+  }
+  return fromGray(output, image);
+}
+
+/**
+ * Niblack's threshold: mean + k * deviation of the local window
+ * (k < 0 keeps faint strokes; noisy in empty paper areas)
+ */
+export function niblack(
+  image: ImageData,
+  blockSize: number = OPERATOR_DEFAULTS.niblack.blockSize,
+  k: number = OPERATOR_DEFAULTS.niblack.k
+): ImageData {
+  return localBinarize(image, localStatistics(image, blockSize), (mean, deviation) => mean + k * deviation);
+}
+
+/**
+ * Sauvola's threshold: mean * (1 + k * (deviation / range - 1))
+ * Low-contrast windows (bare paper, however dark the scan is there) stay white
+ */
+export function sauvola(
+  image: ImageData,
+  blockSize: number = OPERATOR_DEFAULTS.sauvola.blockSize,
+  k: number = OPERATOR_DEFAULTS.sauvola.k,
+  range: number = OPERATOR_DEFAULTS.sauvola.range
+): ImageData {
+  return localBinarize(image, localStatistics(image, blockSize), (mean, deviation) => mean * (1 + k * (deviation / range - 1)));
+}
+
+/**
+ * Wolf-Jolion threshold: Sauvola with the deviation range and the dark
+ * level taken from the sheet itself, for faded, low-contrast scans
+ */
+export function wolf(
+  image: ImageData,
+  blockSize: number = OPERATOR_DEFAULTS.wolf.blockSize,
+  k: number = OPERATOR_DEFAULTS.wolf.k
+): ImageData {
+  const stats = localStatistics(image, blockSize);
+  let darkest = 255;
+  let maxDeviation = 0;
+  for (let p = 0; p < stats.gray.length; p++) {
+    if (stats.gray[p] < darkest) darkest = stats.gray[p];
+    if (stats.deviation[p] > maxDeviation) maxDeviation = stats.deviation[p];
+  }
+  const range = Math.max(maxDeviation, 1e-6);
+
+  return localBinarize(image, stats, (mean, deviation) => mean - k * (1 - deviation / range) * (mean - darkest));
+}
+
+/**
+ * Min or max over a size x size window, per colour channel (separable)
+ */
+function rankFilter(image: ImageData, size: number, pick: (a: number, b: number) => number): ImageData {
+  const { width, height } = image;
+  const half = Math.floor(size / 2);
+  const temp = new Uint8ClampedArray(image.data);
+  const output = cloneImageData(image);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let value = image.data[o + c];
+        for (let k = -half; k <= half; k++) {
+          const sx = Math.min(width - 1, Math.max(0, x + k));
+          value = pick(value, image.data[(y * width + sx) * 4 + c]);
+        }
+        temp[o + c] = value;
+      }
+    }
+  }
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const o = (y * width + x) * 4;
+      for (let c = 0; c < 3; c++) {
+        let value = temp[o + c];
+        for (let k = -half; k <= half; k++) {
+          const sy = Math.min(height - 1, Math.max(0, y + k));
+          value = pick(value, temp[(sy * width + x) * 4 + c]);
+        }
+        output.data[o + c] = value;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Dilation (max filter): grows light areas, thins dark strokes
+ */
+export function dilate(image: ImageData, size: number = OPERATOR_DEFAULTS.dilate.size): ImageData {
+  return rankFilter(image, size, Math.max);
+}
+
+/**
+ * Erosion (min filter): grows dark strokes, e.g. to thicken black text on white
+ */
+export function erode(image: ImageData, size: number = OPERATOR_DEFAULTS.erode.size): ImageData {
+  return rankFilter(image, size, Math.min);
+}
+
+/**
+ * Median filter on the luminance (removes salt-and-pepper noise)
+ */
+export function median(image: ImageData, size: number = OPERATOR_DEFAULTS.median.size): ImageData {
+  const { width, height } = image;
+  const gray = luminance(image);
+  const output = new Float32Array(gray.length);
+  const half = Math.floor(size / 2);
+  const neighbourhood: number[] = [];
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      neighbourhood.length = 0;
+      for (let ky = -half; ky <= half; ky++) {
+        const sy = Math.min(height - 1, Math.max(0, y + ky));
+        for (let kx = -half; kx <= half; kx++) {
+          const sx = Math.min(width - 1, Math.max(0, x + kx));
+          neighbourhood.push(gray[sy * width + sx]);
+        }
+      }
+      neighbourhood.sort((a, b) => a - b);
+      output[y * width + x] = neighbourhood[neighbourhood.length >> 1];
+    }
+  }
+
+  return fromGray(output, image);
+}
+
+/**
+ * Keep pixels whose R, G and B are all below `threshold` (as black); whiten the rest
+ */
+export function blackText(image: ImageData, thresholdValue: number = OPERATOR_DEFAULTS.blackText.threshold): ImageData {
+  const { data } = image;
+  const output = new Uint8Array(image.width * image.height);
+  for (let p = 0, i = 0; p < output.length; p++, i += 4) {
+    const isBlack = data[i] < thresholdValue && data[i + 1] < thresholdValue && data[i + 2] < thresholdValue;
+    output[p] = isBlack ? 0 : 255;
+  }
+  return fromGray(output, image);
+}
+
+/**
+ * Keep the pixels of the selected ink layers (as black); whiten the rest
+ * See colorLayers.ts for the separation
+ */
+export function inkLayers(image: ImageData, params: Partial<OperatorParams['inkLayers']> = {}): ImageData {
+  const fullParams = { ...OPERATOR_DEFAULTS.inkLayers, ...params };
+  return extractInkLayers(image, INK_LAYERS.filter(layer => fullParams[layer] >= 1), { clusters: fullParams.clusters });
+}
+
+/**
+ * Resize with high-quality smoothing
+ * Either `scale`, or `width` and/or `height` (a missing side keeps the aspect ratio)
+ */
+export function resize(image: ImageData, params: Partial<OperatorParams['resize']> = {}): ImageData {
+  const { scale = 1, width = 0, height = 0 } = params;
+  const targetWidth = Math.max(1, Math.round(width || (height ? image.width * height / image.height : image.width * scale)));
+  const targetHeight = Math.max(1, Math.round(height || (width ? image.height * width / image.width : image.height * scale)));
+  if (targetWidth === image.width && targetHeight === image.height) {
+    return cloneImageData(image);
+  }
+
+  const canvas = createCanvas(targetWidth, targetHeight);
+  const ctx = getContext2D(canvas);
+  ctx.imageSmoothingEnabled = true;
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(imageDataToCanvas(image), 0, 0, targetWidth, targetHeight);
+  return readImageData(canvas);
+}
+
+/**
+ * Apply one chain step
+ */
+export function applyOperator(image: ImageData, step: OperatorStep): ImageData {
+  switch (step.op) {
+    case 'grayscale': return grayscale(image);
+    case 'contrast': return contrast(image, step.params?.factor);
+    case 'gaussianBlur': return gaussianBlur(image, step.params?.sigma);
+    case 'sharpen': return sharpen(image);
+    case 'sobel': return sobel(image);
+    case 'clahe': return clahe(image, step.params?.tileSize, step.params?.clipLimit);
+    case 'threshold': return threshold(image, step.params?.value);
+    case 'otsu': return otsu(image);
+    case 'adaptiveThreshold': return adaptiveThreshold(image, step.params?.blockSize, step.params?.offset);
+    case 'niblack': return niblack(image, step.params?.blockSize, step.params?.k);
+    case 'sauvola': return sauvola(image, step.params?.blockSize, step.params?.k, step.params?.range);
+    case 'wolf': return wolf(image, step.params?.blockSize, step.params?.k);
+    case 'invert': return invert(image);
+    case 'dilate': return dilate(image, step.params?.size);
+    case 'erode': return erode(image, step.params?.size);
+    case 'median': return median(image, step.params?.size);
+    case 'blackText': return blackText(image, step.params?.threshold);
+    case 'inkLayers': return inkLayers(image, step.params);
+    case 'removeLines': return removeLines(image, step.params);
+    case 'resize': return resize(image, step.params);
+  }
+}
+
+/**
+ * A list of operator steps, built fluently and applied in order
+ */
+export class OperatorChain {
+  readonly steps: OperatorStep[];
+
+  constructor(steps: OperatorStep[] = []) {
+    this.steps = [...steps];
+  }
+
+  /**
+   * Append a step (returns the chain for fluent building)
+   */
+  add<N extends OperatorName>(op: N, params?: Partial<OperatorParams[N]>): this {
+    this.steps.push({ op, params } as OperatorStep);
+    return this;
+  }
+
+  /**
+   * Append a step only when `condition` holds
+   */
+  addIf<N extends OperatorName>(condition: boolean | undefined, op: N, params?: Partial<OperatorParams[N]>): this {
+    return condition ? this.add(op, params) : this;
+  }
+
+  /**
+   * Apply the steps in order; `onStep` sees the output of every step
+   */
+  run(image: ImageData, onStep?: (step: OperatorStep, output: ImageData, index: number) => void): ImageData {
+    return this.steps.reduce((current, step, index) => {
+      const output = applyOperator(current, step);
+      onStep?.(step, output, index);
+      return output;
+    }, image);
+  }
+}
+
+/**
+ * Start a chain
+ */
+export function chain(steps: OperatorStep[] = []): OperatorChain {
+  return new OperatorChain(steps);
+}
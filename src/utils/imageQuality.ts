@@ -0,0 +1,298 @@
+/**
+ * Document Quality Assessment
+ *
+ * Measures how a sheet was captured and picks the preprocessing that
+ * suits it, instead of giving a crisp digital export and a faded
+ * photocopy the same upscale, CLAHE and threshold. Measured on a
+ * full-resolution crop from the middle of the sheet:
+ * - contrast: gap between the median ink and the median paper level
+ * - noise: standard deviation of the paper, by Immerkær's Laplacian
+ *   estimate over pixels whose whole 3x3 neighbourhood is paper
+ * - sharpness: variance of the Laplacian at ink edges (blur flattens it)
+ * - effective DPI: median glyph height against a typical label height
+ * - background: median paper colour, its lightness and tint (CIELAB)
+ * The metrics select one of the presets below, which sets the threshold
+ * method, CLAHE and sharpening; the effective DPI sets the tile upscale.
+ * Everything else (tile geometry, contrast factors) stays as configured.
+ */
+
+import { Canvas, SourceImage, createCanvas, getContext2D, imageSize, readImageData } from './canvas';
+import { luminance, otsuLevel } from './imageOperators';
+import { binarizeInk, isGlyph, labelComponents } from './textRegionDetection';
+import { rgbToLab } from './colorLayers';
+import { ImprovedPreprocessingConfig } from './improvedPreprocessing';
+import { PreprocessingOptions } from './enhancedPreprocessing';
+
+// Configuration for quality assessment
+export interface ImageQualityConfig {
+  sampleSize: number;          // Side of the crop that is measured (pixels)
+  glyphHeightMm: number;       // Typical height of a printed label glyph
+  minGlyphs: number;           // Fewer glyphs than this leaves the DPI unknown
+  targetDpi: number;           // Resolution the tile presets upscale to
+  edgeThreshold: number;       // Gradient (gray levels) of the pixels that count as edges
+  noisyAbove: number;          // Paper noise (gray levels) of a noisy scan
+  fadedBelow: number;          // Contrast (0-1) of a faded scan
+  tintedAbove: number;         // Background chroma (CIELAB) of yellowed or coloured paper
+  darkBackgroundBelow: number; // Background lightness (L*) of a dark scan
+  blurredBelow: number;        // Laplacian variance of a blurred scan
+  cleanAbove: number;          // Contrast (0-1) of a clean digital export
+  cleanNoiseBelow: number;     // Paper noise of a clean digital export
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: ImageQualityConfig = {
+  sampleSize: 1536,
+  glyphHeightMm: 2.5,
+  minGlyphs: 20,
+  targetDpi: 300,
+  edgeThreshold: 30,
+  noisyAbove: 8,
+  fadedBelow: 0.35,
+  tintedAbove: 15,
+  darkBackgroundBelow: 70,
+  blurredBelow: 1500,
+  cleanAbove: 0.6,
+  cleanNoiseBelow: 3
+};
+
+// What the analyser measured
+export interface ImageQualityMetrics {
+  contrast: number;       // 0-1
+  noise: number;          // Gray levels
+  sharpness: number;      // Laplacian variance at edges
+  effectiveDpi?: number;  // Undefined when too few glyphs were found
+  glyphHeight?: number;   // Median glyph height (pixels)
+  background: {
+    rgb: [number, number, number];
+    lightness: number;    // L*
+    chroma: number;       // Distance from neutral gray in a*b*
+  };
+}
+
+export const QUALITY_PRESETS = ['clean', 'standard', 'faded', 'noisy', 'blurred'] as const;
+
+export type QualityPresetName = typeof QUALITY_PRESETS[number];
+
+// The preprocessing settings a preset decides; tile geometry, contrast
+// factors and the other tuning values stay as the profile sets them
+export interface QualityPreset {
+  label: string;
+  tilePreprocessing: Pick<ImprovedPreprocessingConfig, 'applyCLAHE' | 'thresholdType' | 'applySharpen'>; // Text and number tiles
+  numberRegionPreprocessing: Pick<PreprocessingOptions, 'contrast' | 'thresholdType' | 'sharpen' | 'blur'>;
+}
+
+// Presets
+export const PRESETS: Record<QualityPresetName, QualityPreset> = {
+  clean: {
+    label: 'Clean digital export',
+    tilePreprocessing: { applyCLAHE: false, thresholdType: 'otsu', applySharpen: false },
+    numberRegionPreprocessing: { contrast: false, thresholdType: 'otsu', sharpen: true, blur: false }
+  },
+  standard: {
+    label: 'Standard scan',
+    tilePreprocessing: { applyCLAHE: true, thresholdType: 'adaptive', applySharpen: false },
+    numberRegionPreprocessing: { contrast: true, thresholdType: 'otsu', sharpen: true, blur: false }
+  },
+  faded: {
+    label: 'Faded or tinted copy',
+    tilePreprocessing: { applyCLAHE: true, thresholdType: 'sauvola', applySharpen: false },
+    numberRegionPreprocessing: { contrast: true, thresholdType: 'sauvola', sharpen: true, blur: false }
+  },
+  noisy: {
+    // CLAHE would amplify the grain
+    label: 'Noisy scan',
+    tilePreprocessing: { applyCLAHE: false, thresholdType: 'wolf', applySharpen: false },
+    numberRegionPreprocessing: { contrast: true, thresholdType: 'sauvola', sharpen: false, blur: true }
+  },
+  blurred: {
+    label: 'Blurred scan',
+    tilePreprocessing: { applyCLAHE: true, thresholdType: 'adaptive', applySharpen: true },
+    numberRegionPreprocessing: { contrast: true, thresholdType: 'otsu', sharpen: true, blur: false }
+  }
+};
+
+// Metrics, the chosen preset and why it was chosen
+export interface QualityAssessment {
+  metrics: ImageQualityMetrics;
+  preset: QualityPresetName;
+  reasons: string[];
+  upscaleFactor?: number; // Text tile upscale from the effective DPI (number tiles use 10% more); unset when the DPI is unknown
+}
+
+// The preprocessing configs a preset is applied to
+export interface PreprocessingConfigs {
+  textPreprocessing: Partial<ImprovedPreprocessingConfig>;
+  numberPreprocessing: Partial<ImprovedPreprocessingConfig>;
+  numberRegionPreprocessing: PreprocessingOptions;
+}
+
+/**
+ * Measure a sheet and choose its preprocessing preset
+ */
+export function assessImageQuality(image: SourceImage, config: Partial<ImageQualityConfig> = {}): QualityAssessment {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const metrics = measureImageQuality(readImageData(centerCrop(image, fullConfig.sampleSize)), fullConfig);
+  const { preset, reasons } = choosePreset(metrics, fullConfig);
+
+  // Upscale so glyphs reach the target resolution
+  const upscaleFactor = metrics.effectiveDpi
+    ? Math.round(Math.min(4, Math.max(1, fullConfig.targetDpi / metrics.effectiveDpi)) * 10) / 10
+    : undefined;
+  if (metrics.effectiveDpi) {
+    reasons.push(`~${Math.round(metrics.effectiveDpi)} DPI, upscaled ${upscaleFactor}x`);
+  }
+
+  console.log(`Image quality: ${PRESETS[preset].label} (${reasons.join('; ')})`);
+  return { metrics, preset, reasons, upscaleFactor };
+}
+
+/**
+ * Apply an assessment to preprocessing configs: the preset's settings and
+ * the upscale from the DPI, over everything else the configs set
+ */
+export function presetConfigs(assessment: QualityAssessment, configs: PreprocessingConfigs): PreprocessingConfigs {
+  const preset = PRESETS[assessment.preset];
+  const { upscaleFactor } = assessment;
+  // Without a measured DPI the configured upscale stays
+  const textUpscale = upscaleFactor !== undefined ? { upscaleFactor } : {};
+  const numberUpscale = upscaleFactor !== undefined
+    ? { upscaleFactor: Math.round(Math.min(4.4, upscaleFactor * 1.1) * 10) / 10 }
+    : {};
+  return {
+    textPreprocessing: { ...configs.textPreprocessing, ...preset.tilePreprocessing, ...textUpscale },
+    numberPreprocessing: { ...configs.numberPreprocessing, ...preset.tilePreprocessing, ...numberUpscale },
+    numberRegionPreprocessing: { ...configs.numberRegionPreprocessing, ...preset.numberRegionPreprocessing }
+  };
+}
+
+/**
+ * Measure contrast, noise, sharpness, effective DPI and background of an image
+ */
+export function measureImageQuality(image: ImageData, config: Partial<ImageQualityConfig> = {}): ImageQualityMetrics {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const { width, height, data } = image;
+  const gray = luminance(image);
+  const level = otsuLevel(image);
+
+  // Paper and ink levels, and the paper colour
+  const paperHistogram = [new Uint32Array(256), new Uint32Array(256), new Uint32Array(256)];
+  const paperGray = new Uint32Array(256);
+  const inkGray = new Uint32Array(256);
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    const value = Math.round(gray[p]);
+    if (value > level) {
+      paperGray[value]++;
+      paperHistogram[0][data[i]]++;
+      paperHistogram[1][data[i + 1]]++;
+      paperHistogram[2][data[i + 2]]++;
+    } else {
+      inkGray[value]++;
+    }
+  }
+  const rgb = paperHistogram.map(histogramMedian) as [number, number, number];
+  const [lightness, a, b] = rgbToLab(...rgb);
+  const contrast = Math.max(0, histogramMedian(paperGray) - histogramMedian(inkGray)) / 255;
+
+  // Noise of the paper and Laplacian variance at the edges
+  let noiseSum = 0;
+  let noiseCount = 0;
+  let edgeSum = 0;
+  let edgeSquares = 0;
+  let edgeCount = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = y * width + x;
+      const n = gray[p - width], s = gray[p + width], w = gray[p - 1], e = gray[p + 1];
+      const nw = gray[p - width - 1], ne = gray[p - width + 1], sw = gray[p + width - 1], se = gray[p + width + 1];
+
+      if (Math.min(gray[p], n, s, w, e, nw, ne, sw, se) > level) {
+        noiseSum += Math.abs(4 * gray[p] - 2 * (n + s + w + e) + nw + ne + sw + se);
+        noiseCount++;
+      }
+      if (Math.abs(e - w) + Math.abs(s - n) > 2 * fullConfig.edgeThreshold) {
+        const laplacian = 4 * gray[p] - n - s - w - e;
+        edgeSum += laplacian;
+        edgeSquares += laplacian * laplacian;
+        edgeCount++;
+      }
+    }
+  }
+  const noise = noiseCount > 0 ? (Math.sqrt(Math.PI / 2) * noiseSum) / (6 * noiseCount) : 0;
+  const edgeMean = edgeCount > 0 ? edgeSum / edgeCount : 0;
+  const sharpness = edgeCount > 0 ? edgeSquares / edgeCount - edgeMean * edgeMean : 0;
+
+  // Effective DPI from the median glyph height
+  const glyphHeights = labelComponents(binarizeInk(image), width, height)
+    .filter(component => isGlyph(component, { minHeight: 4 }))
+    .map(component => component.bbox.y1 - component.bbox.y0)
+    .sort((x, y) => x - y);
+  const glyphHeight = glyphHeights.length >= fullConfig.minGlyphs
+    ? glyphHeights[Math.floor(glyphHeights.length / 2)]
+    : undefined;
+  const effectiveDpi = glyphHeight !== undefined ? glyphHeight / (fullConfig.glyphHeightMm / 25.4) : undefined;
+
+  return {
+    contrast,
+    noise,
+    sharpness,
+    effectiveDpi,
+    glyphHeight,
+    background: { rgb, lightness, chroma: Math.hypot(a, b) }
+  };
+}
+
+/**
+ * Pick the preset for a set of metrics (the first problem found wins)
+ */
+export function choosePreset(
+  metrics: ImageQualityMetrics,
+  config: Partial<ImageQualityConfig> = {}
+): { preset: QualityPresetName; reasons: string[] } {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const { contrast, noise, sharpness, background } = metrics;
+
+  if (noise > fullConfig.noisyAbove) {
+    return { preset: 'noisy', reasons: [`paper noise ${noise.toFixed(1)}`] };
+  }
+  // Blur also greys thin strokes, so it is checked before the contrast
+  if (sharpness < fullConfig.blurredBelow) {
+    return { preset: 'blurred', reasons: [`edge sharpness ${Math.round(sharpness)}`] };
+  }
+  const faded: string[] = [];
+  if (contrast < fullConfig.fadedBelow) faded.push(`contrast ${contrast.toFixed(2)}`);
+  if (background.chroma > fullConfig.tintedAbove) faded.push(`tinted paper (chroma ${background.chroma.toFixed(0)})`);
+  if (background.lightness < fullConfig.darkBackgroundBelow) faded.push(`dark paper (L* ${background.lightness.toFixed(0)})`);
+  if (faded.length > 0) {
+    return { preset: 'faded', reasons: faded };
+  }
+  if (contrast >= fullConfig.cleanAbove && noise < fullConfig.cleanNoiseBelow) {
+    return { preset: 'clean', reasons: [`contrast ${contrast.toFixed(2)}, noise ${noise.toFixed(1)}`] };
+  }
+  return { preset: 'standard', reasons: [`contrast ${contrast.toFixed(2)}, noise ${noise.toFixed(1)}`] };
+}
+
+/**
+ * Crop of at most size x size pixels from the middle of an image, at full resolution
+ */
+function centerCrop(image: SourceImage, size: number): Canvas {
+  const { width, height } = imageSize(image);
+  const cropWidth = Math.min(width, size);
+  const cropHeight = Math.min(height, size);
+  const canvas = createCanvas(cropWidth, cropHeight);
+  getContext2D(canvas).drawImage(
+    image,
+    Math.floor((width - cropWidth) / 2), Math.floor((height - cropHeight) / 2), cropWidth, cropHeight,
+    0, 0, cropWidth, cropHeight
+  );
+  return canvas;
+}
+
+function histogramMedian(histogram: Uint32Array): number {
+  const total = histogram.reduce((sum, count) => sum + count, 0);
+  let seen = 0;
+  for (let value = 0; value < histogram.length; value++) {
+    seen += histogram[value];
+    if (seen * 2 >= total) return value;
+  }
+  return 0;
+}
@@ -7,14 +7,27 @@
  * - Tiling for better OCR performance
  */
 
+import { Canvas, SourceImage, createCanvas, getContext2D, imageDataToCanvas, imageSize, imageToCanvas, readImageData, writeImageData } from './canvas';
+import { OperatorChain, OperatorStep, chain } from './imageOperators';
+import { ThresholdType } from './enhancedPreprocessing';
+
 // Configuration for improved preprocessing
 export interface ImprovedPreprocessingConfig {
   upscaleFactor: number;      // Factor to upscale the image (2.5-3x recommended)
   applyCLAHE: boolean;        // Whether to apply CLAHE for contrast enhancement
   applyThresholding: boolean; // Whether to apply thresholding
+  thresholdType: ThresholdType; // Thresholding method
+  applySharpen: boolean;      // Whether to sharpen before thresholding (blurred scans)
   tileImage: boolean;         // Whether to tile the image for better OCR
   tileSize: number;           // Size of tiles in pixels
   tileOverlap: number;        // Overlap between tiles in pixels
+  preset?: PresetChain;       // Saved preprocessing preset run instead of the upscaling, CLAHE, sharpening and thresholding
+}
+
+// A preprocessing preset as stored in a config: its name and a copy of its steps
+export interface PresetChain {
+  name: string;
+  steps: OperatorStep[];
 }
 
 // Default configuration
@@ -22,6 +35,8 @@ export const DEFAULT_CONFIG: ImprovedPreprocessingConfig = {
   upscaleFactor: 2.8,         // 2.8x upscaling (good balance)
   applyCLAHE: true,           // Apply CLAHE for better contrast
   applyThresholding: true,    // Apply thresholding
+  thresholdType: 'adaptive',  // Local mean threshold
+  applySharpen: false,        // Sharp scans need no sharpening
   tileImage: true,            // Tile image for better OCR
   tileSize: 800,              // 800x800 pixel tiles
   tileOverlap: 100            // 100 pixel overlap between tiles
@@ -31,20 +46,17 @@ export const DEFAULT_CONFIG: ImprovedPreprocessingConfig = {
  * Upscale an image by a specified factor
  */
 export function upscaleImage(
-  imageElement: HTMLImageElement,
+  imageElement: SourceImage,
   factor: number = 2.8
-): HTMLCanvasElement {
-  // Create a canvas for the upscaled image
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d')!;
-  
+): Canvas {
   // Calculate new dimensions
-  const newWidth = Math.round(imageElement.naturalWidth * factor);
-  const newHeight = Math.round(imageElement.naturalHeight * factor);
+  const { width, height } = imageSize(imageElement);
+  const newWidth = Math.round(width * factor);
+  const newHeight = Math.round(height * factor);
   
-  // Set canvas size
-  canvas.width = newWidth;
-  canvas.height = newHeight;
+  // Create a canvas for the upscaled image
+  const canvas = createCanvas(newWidth, newHeight);
+  const ctx = getContext2D(canvas);
   
   // Draw the upscaled image with high-quality interpolation
   ctx.imageSmoothingEnabled = true;
@@ -58,91 +70,9 @@ export function upscaleImage(
  * Apply CLAHE-like contrast enhancement
  * (Contrast Limited Adaptive Histogram Equalization)
  */
-export function applyCLAHE(canvas: HTMLCanvasElement): HTMLCanvasElement {
-  const ctx = canvas.getContext('2d')!;
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  
-  // Convert to grayscale first
-  for (let i = 0; i < data.length; i += 4) {
-    const r = data[i];
-    const g = data[i + 1];
-    const b = data[i + 2];
-    const gray = 0.299 * r + 0.587 * g + 0.114 * b;
-    data[i] = data[i + 1] = data[i + 2] = gray;
-  }
-  
-  // Simulate CLAHE by processing in tiles
-  const tileSize = 32; // Size of tiles for local histogram equalization
-  const clipLimit = 3; // Contrast limit factor
-  
-  // Process each tile
-  for (let y = 0; y < canvas.height; y += tileSize) {
-    for (let x = 0; x < canvas.width; x += tileSize) {
-      // Get tile dimensions (handle edge cases)
-      const tileWidth = Math.min(tileSize, canvas.width - x);
-      const tileHeight = Math.min(tileSize, canvas.height - y);
-      
-      // Skip small tiles
-      if (tileWidth < 8 || tileHeight < 8) continue;
-      
-      // Get histogram for this tile
-      const histogram = new Array(256).fill(0);
-      let pixelCount = 0;
-      
-      for (let ty = 0; ty < tileHeight; ty++) {
-        for (let tx = 0; tx < tileWidth; tx++) {
-          const idx = ((y + ty) * canvas.width + (x + tx)) * 4;
-          histogram[data[idx]]++;
-          pixelCount++;
-        }
-      }
-      
-      // Apply clip limit
-      const clipThreshold = (clipLimit * pixelCount) / 256;
-      let clippedPixels = 0;
-      
-      for (let i = 0; i < 256; i++) {
-        if (histogram[i] > clipThreshold) {
-          clippedPixels += histogram[i] - clipThreshold;
-          histogram[i] = clipThreshold;
-        }
-      }
-      
-      // Redistribute clipped pixels
-      const redistributePerBin = clippedPixels / 256;
-      for (let i = 0; i < 256; i++) {
-        histogram[i] += redistributePerBin;
-      }
-      
-      // Create cumulative distribution function
-      const cdf = new Array(256).fill(0);
-      cdf[0] = histogram[0];
-      for (let i = 1; i < 256; i++) {
-        cdf[i] = cdf[i - 1] + histogram[i];
-      }
-      
-      // Normalize CDF
-      for (let i = 0; i < 256; i++) {
-        cdf[i] = Math.round((cdf[i] * 255) / pixelCount);
-      }
-      
-      // Apply equalization to this tile
-      for (let ty = 0; ty < tileHeight; ty++) {
-        for (let tx = 0; tx < tileWidth; tx++) {
-          const idx = ((y + ty) * canvas.width + (x + tx)) * 4;
-          data[idx] = data[idx + 1] = data[idx + 2] = cdf[data[idx]];
-        }
-      }
-    }
-  }
-  
-  // Apply bilinear interpolation between tiles to avoid boundary artifacts
-  // (Simplified implementation for brevity)
-  
-  // Put processed image data back to canvas
-  ctx.putImageData(imageData, 0, 0);
-  
+export function applyCLAHE(canvas: Canvas): Canvas {
+  const enhanced = chain().add('grayscale').add('clahe', { tileSize: 32, clipLimit: 3 }).run(readImageData(canvas));
+  writeImageData(canvas, enhanced);
   return canvas;
 }
 
@@ -150,125 +80,45 @@ export function applyCLAHE(canvas: HTMLCanvasElement): HTMLCanvasElement {
  * Apply thresholding to an image
  */
 export function applyThresholding(
-  canvas: HTMLCanvasElement,
-  method: 'otsu' | 'adaptive' | 'binary' = 'adaptive'
-): HTMLCanvasElement {
-  const ctx = canvas.getContext('2d')!;
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  
-  if (method === 'otsu') {
-    // Otsu's method for automatic thresholding
-    // First, compute histogram
-    const histogram = new Array(256).fill(0);
-    let pixelCount = 0;
-    
-    for (let i = 0; i < data.length; i += 4) {
-      histogram[data[i]]++;
-      pixelCount++;
-    }
-    
-    // Normalize histogram
-    for (let i = 0; i < 256; i++) {
-      histogram[i] /= pixelCount;
-    }
-    
-    // Find optimal threshold
-    let maxVariance = 0;
-    let threshold = 0;
-    
-    for (let t = 0; t < 256; t++) {
-      // Compute weights
-      let w0 = 0;
-      let w1 = 0;
-      
-      for (let i = 0; i < 256; i++) {
-        if (i <= t) {
-          w0 += histogram[i];
-        } else {
-          w1 += histogram[i];
-        }
-      }
-      
-      // Skip if one of the classes is empty
-      if (w0 === 0 || w1 === 0) continue;
-      
-      // Compute means
-      let mean0 = 0;
-      let mean1 = 0;
-      
-      for (let i = 0; i < 256; i++) {
-        if (i <= t) {
-          mean0 += i * histogram[i] / w0;
-        } else {
-          mean1 += i * histogram[i] / w1;
-        }
-      }
-      
-      // Compute between-class variance
-      const variance = w0 * w1 * Math.pow(mean0 - mean1, 2);
-      
-      // Update threshold if needed
-      if (variance > maxVariance) {
-        maxVariance = variance;
-        threshold = t;
-      }
-    }
-    
-    // Apply Otsu threshold
-    for (let i = 0; i < data.length; i += 4) {
-      const value = data[i] < threshold ? 0 : 255;
-      data[i] = data[i + 1] = data[i + 2] = value;
-    }
-  } else if (method === 'adaptive') {
-    // Adaptive thresholding
-    const blockSize = 25; // Size of the neighborhood
-    const c = 5; // Constant subtracted from the mean
-    
-    // Create a copy of the image data for computing local means
-    const tempCanvas = document.createElement('canvas');
-    const tempCtx = tempCanvas.getContext('2d')!;
-    tempCanvas.width = canvas.width;
-    tempCanvas.height = canvas.height;
-    tempCtx.putImageData(imageData, 0, 0);
-    
-    // Apply a blur to get local averages
-    tempCtx.filter = `blur(${Math.floor(blockSize / 3)}px)`;
-    tempCtx.drawImage(tempCanvas, 0, 0);
-    
-    // Get blurred image data (local averages)
-    const blurredData = tempCtx.getImageData(0, 0, canvas.width, canvas.height).data;
-    
-    // Apply adaptive threshold
-    for (let i = 0; i < data.length; i += 4) {
-      const value = data[i] < (blurredData[i] - c) ? 0 : 255;
-      data[i] = data[i + 1] = data[i + 2] = value;
-    }
-  } else {
-    // Simple binary thresholding
-    const threshold = 127;
-    
-    for (let i = 0; i < data.length; i += 4) {
-      const value = data[i] < threshold ? 0 : 255;
-      data[i] = data[i + 1] = data[i + 2] = value;
-    }
-  }
-  
-  // Put processed image data back to canvas
-  ctx.putImageData(imageData, 0, 0);
-  
+  canvas: Canvas,
+  method: ThresholdType = 'adaptive'
+): Canvas {
+  writeImageData(canvas, addThreshold(chain(), method).run(readImageData(canvas)));
   return canvas;
 }
 
+/**
+ * Append the thresholding step of a method
+ */
+function addThreshold(steps: OperatorChain, method: ThresholdType): OperatorChain {
+  if (method === 'adaptive') return steps.add('adaptiveThreshold', { blockSize: 25, offset: 5 });
+  if (method === 'binary') return steps.add('threshold', { value: 127 });
+  return steps.add(method);
+}
+
+// A tile cut from a (possibly upscaled) image, with its position in that image
+export interface ImageTile {
+  id: string;                 // "row-column" of the tile in the grid
+  canvas: Canvas;
+  x: number;                  // Origin of the tile in the tiled image
+  y: number;
+  width: number;
+  height: number;
+  scale: number;              // Tiled image pixels per original image pixel
+}
+
 /**
  * Tile an image into smaller pieces for better OCR
+ * `scale` is the factor the image was upscaled by, so that boxes read on a
+ * tile can be mapped back to the original image (see tileBboxToImage)
  */
 export function tileImage(
-  canvas: HTMLCanvasElement,
+  canvas: Canvas,
   tileSize: number = 800,
-  overlap: number = 100
-): HTMLCanvasElement[] {
-  const tiles: HTMLCanvasElement[] = [];
+  overlap: number = 100,
+  scale: number = 1
+): ImageTile[] {
+  const tiles: ImageTile[] = [];
   const width = canvas.width;
   const height = canvas.height;
   
@@ -289,10 +139,8 @@ export function tileImage(
       if (tileWidth < 100 || tileHeight < 100) continue;
       
       // Create a canvas for this tile
-      const tileCanvas = document.createElement('canvas');
-      const tileCtx = tileCanvas.getContext('2d')!;
-      tileCanvas.width = tileWidth;
-      tileCanvas.height = tileHeight;
+      const tileCanvas = createCanvas(tileWidth, tileHeight);
+      const tileCtx = getContext2D(tileCanvas);
       
       // Draw the tile
       tileCtx.drawImage(
@@ -301,77 +149,111 @@ export function tileImage(
         0, 0, tileWidth, tileHeight
       );
       
-      tiles.push(tileCanvas);
+      tiles.push({
+        id: `${y}-${x}`,
+        canvas: tileCanvas,
+        x: tileX,
+        y: tileY,
+        width: tileWidth,
+        height: tileHeight,
+        scale
+      });
     }
   }
   
   return tiles;
 }
 
+/**
+ * Build the operator chain applied after upscaling (CLAHE, sharpening, then thresholding)
+ */
+export function improvedPreprocessingChain(config: Partial<ImprovedPreprocessingConfig> = {}): OperatorChain {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const steps = chain()
+    .addIf(fullConfig.applyCLAHE, 'grayscale')
+    .addIf(fullConfig.applyCLAHE, 'clahe', { tileSize: 32, clipLimit: 3 })
+    .addIf(fullConfig.applySharpen, 'sharpen');
+  return fullConfig.applyThresholding ? addThreshold(steps, fullConfig.thresholdType) : steps;
+}
+
 /**
  * Apply all recommended preprocessing steps
  */
 export function applyImprovedPreprocessing(
-  imageElement: HTMLImageElement,
+  imageElement: SourceImage,
   config: Partial<ImprovedPreprocessingConfig> = {}
 ): {
-  processedImage: HTMLCanvasElement;
-  tiles: HTMLCanvasElement[];
+  processedImage: Canvas;
+  tiles: ImageTile[];
 } {
   const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  let processedImage: Canvas;
+  let scale = fullConfig.upscaleFactor;
   
-  // Step 1: Upscale the image
-  let processedImage = upscaleImage(imageElement, fullConfig.upscaleFactor);
-  
-  // Step 2: Apply CLAHE if enabled
-  if (fullConfig.applyCLAHE) {
-    processedImage = applyCLAHE(processedImage);
-  }
-  
-  // Step 3: Apply thresholding if enabled
-  if (fullConfig.applyThresholding) {
-    processedImage = applyThresholding(processedImage, 'adaptive');
+  if (fullConfig.preset) {
+    // Steps 1-3: the preset's chain on the original image; its resize steps set the scale
+    const processed = chain(fullConfig.preset.steps).run(readImageData(imageToCanvas(imageElement)));
+    processedImage = imageDataToCanvas(processed);
+    scale = processed.width / imageSize(imageElement).width;
+  } else {
+    // Step 1: Upscale the image
+    processedImage = upscaleImage(imageElement, fullConfig.upscaleFactor);
+    
+    // Steps 2-3: Apply CLAHE, sharpening and thresholding if enabled
+    writeImageData(processedImage, improvedPreprocessingChain(fullConfig).run(readImageData(processedImage)));
   }
   
   // Step 4: Tile the image if enabled
   const tiles = fullConfig.tileImage
-    ? tileImage(processedImage, fullConfig.tileSize, fullConfig.tileOverlap)
-    : [processedImage];
+    ? tileImage(processedImage, fullConfig.tileSize, fullConfig.tileOverlap, scale)
+    : [{
+        id: '0-0',
+        canvas: processedImage,
+        x: 0,
+        y: 0,
+        width: processedImage.width,
+        height: processedImage.height,
+        scale
+      }];
   
   return { processedImage, tiles };
 }
 
+// Preprocessing of the version optimized for text
+export const TEXT_VERSION_CONFIG: Partial<ImprovedPreprocessingConfig> = {
+  upscaleFactor: 2.8,
+  applyCLAHE: true,
+  applyThresholding: true,
+  tileImage: true
+};
+
+// Preprocessing of the version optimized for numbers
+export const NUMBER_VERSION_CONFIG: Partial<ImprovedPreprocessingConfig> = {
+  upscaleFactor: 3.0,  // Higher upscaling for numbers
+  applyCLAHE: true,
+  applyThresholding: true,
+  tileImage: true,
+  tileSize: 600  // Smaller tiles for numbers
+};
+
 /**
  * Create specialized versions for text and number detection
  */
-export function createOptimizedVersions(imageElement: HTMLImageElement): {
-  textVersion: HTMLCanvasElement;
-  numberVersion: HTMLCanvasElement;
-  textTiles: HTMLCanvasElement[];
-  numberTiles: HTMLCanvasElement[];
+export function createOptimizedVersions(
+  imageElement: SourceImage,
+  textConfig: Partial<ImprovedPreprocessingConfig> = TEXT_VERSION_CONFIG,
+  numberConfig: Partial<ImprovedPreprocessingConfig> = NUMBER_VERSION_CONFIG
+): {
+  textVersion: Canvas;
+  numberVersion: Canvas;
+  textTiles: ImageTile[];
+  numberTiles: ImageTile[];
 } {
   // Version optimized for text
-  const { processedImage: textVersion, tiles: textTiles } = applyImprovedPreprocessing(
-    imageElement,
-    {
-      upscaleFactor: 2.8,
-      applyCLAHE: true,
-      applyThresholding: true,
-      tileImage: true
-    }
-  );
+  const { processedImage: textVersion, tiles: textTiles } = applyImprovedPreprocessing(imageElement, textConfig);
   
   // Version optimized for numbers
-  const { processedImage: numberVersion, tiles: numberTiles } = applyImprovedPreprocessing(
-    imageElement,
-    {
-      upscaleFactor: 3.0,  // Higher upscaling for numbers
-      applyCLAHE: true,
-      applyThresholding: true,
-      tileImage: true,
-      tileSize: 600  // Smaller tiles for numbers
-    }
-  );
+  const { processedImage: numberVersion, tiles: numberTiles } = applyImprovedPreprocessing(imageElement, numberConfig);
   
   return { textVersion, numberVersion, textTiles, numberTiles };
 }
@@ -0,0 +1,229 @@
+/**
+ * Line and Hatching Removal
+ *
+ * Parcel boundaries, dashed survey lines and hatch patterns cross the
+ * labels of a cadastral sheet and break them into fragments. Lines are
+ * found by a morphological opening of the ink with long line-shaped
+ * structuring elements: the ink is traced along parallel digital lines in
+ * a set of directions (horizontal, vertical and the angles in between),
+ * and stretches of ink at least `length` pixels long survive. Short gaps
+ * are bridged so dashed lines count as one stretch, as long as the
+ * stretch stays mostly ink and is twice as long (so a row of glyph bars
+ * across a word is not taken for a dashed line). Glyph strokes are far
+ * shorter than `length` and stay. Where a glyph crosses a removed line,
+ * the line pixels between glyph ink on both sides are put back, so labels
+ * are not cut in two.
+ *
+ * The removed pixels form the line layer, kept for the parcel geometry.
+ */
+
+import { luminance, otsuLevel } from './imageOperators';
+
+// Configuration for line removal
+export interface LineRemovalConfig {
+  length: number;        // Shortest stretch of ink removed as a line (pixels)
+  angleStep: number;     // Directions searched, in degrees (90 = horizontal and vertical only)
+  dashGap: number;       // Longest gap bridged inside a line (dashed lines); gaps up to 2 px are scan noise
+  minFill: number;       // Smallest ink fraction of a bridged stretch (0-1)
+  maxThickness: number;  // Thickest line crossed when repairing glyphs (pixels)
+  repairGlyphs: boolean; // Put back line pixels with glyph ink on both sides
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: LineRemovalConfig = {
+  length: 60,
+  angleStep: 15,
+  dashGap: 6,
+  minFill: 0.6,
+  maxThickness: 6,
+  repairGlyphs: true
+};
+
+// Ink split into text and lines
+export interface SeparatedLines {
+  text: ImageData;  // Ink without the lines, black on white
+  lines: ImageData; // The removed lines, black on white
+}
+
+// Pixel is not part of a line
+const NO_LINE = 255;
+
+/**
+ * Split the ink of an image into lines and everything else
+ */
+export function separateLines(image: ImageData, config: Partial<LineRemovalConfig> = {}): SeparatedLines {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const { width, height } = image;
+
+  // Ink: darker than Otsu's level (the input is usually binarized already)
+  const gray = luminance(image);
+  const level = otsuLevel(image);
+  const ink = new Uint8Array(gray.length);
+  for (let p = 0; p < gray.length; p++) {
+    ink[p] = gray[p] <= level ? 1 : 0;
+  }
+
+  // Direction (index into `angles`) of the line each pixel belongs to
+  const angles: number[] = [];
+  for (let angle = 0; angle < 180; angle += Math.max(1, fullConfig.angleStep)) {
+    angles.push(angle);
+  }
+  const lineDirection = new Uint8Array(gray.length).fill(NO_LINE);
+  angles.forEach((angle, index) => {
+    traceParallelLines(width, height, angle, positions => {
+      markLongStretches(ink, positions, index, lineDirection, fullConfig);
+    });
+  });
+
+  if (fullConfig.repairGlyphs) {
+    repairCrossings(ink, lineDirection, angles, width, height, fullConfig.maxThickness);
+  }
+
+  const text = new Uint8ClampedArray(gray.length * 4);
+  const lines = new Uint8ClampedArray(gray.length * 4);
+  let lineCount = 0;
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    const isLine = lineDirection[p] !== NO_LINE;
+    if (isLine) lineCount++;
+    text[i] = text[i + 1] = text[i + 2] = ink[p] && !isLine ? 0 : 255;
+    lines[i] = lines[i + 1] = lines[i + 2] = isLine ? 0 : 255;
+    text[i + 3] = lines[i + 3] = 255;
+  }
+
+  console.log(`Removed ${lineCount} line pixels (${((lineCount / gray.length) * 100).toFixed(1)}% of the sheet)`);
+  return { text: new ImageData(text, width, height), lines: new ImageData(lines, width, height) };
+}
+
+/**
+ * Remove boundary lines, dashed lines and hatching, keeping the glyphs
+ */
+export function removeLines(image: ImageData, config: Partial<LineRemovalConfig> = {}): ImageData {
+  return separateLines(image, config).text;
+}
+
+/**
+ * Pixels that are ink in `before` and white in `after` (black on white)
+ * Recovers the line layer from the input and output of a removal step
+ */
+export function removedLayer(before: ImageData, after: ImageData): ImageData {
+  const gray = luminance(before);
+  const level = otsuLevel(before);
+  const output = new Uint8ClampedArray(after.data.length);
+  for (let p = 0, i = 0; p < gray.length; p++, i += 4) {
+    const removed = gray[p] <= level && after.data[i] > 127;
+    output[i] = output[i + 1] = output[i + 2] = removed ? 0 : 255;
+    output[i + 3] = 255;
+  }
+  return new ImageData(output, before.width, before.height);
+}
+
+/**
+ * Visit every digital line of one direction that crosses the image, as
+ * the pixel indices along it
+ */
+function traceParallelLines(width: number, height: number, angle: number, visit: (positions: number[]) => void): void {
+  const radians = (angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  const steep = Math.abs(sin) > Math.abs(cos);
+
+  // Walk along the major axis; the minor coordinate follows the slope
+  const major = steep ? height : width;
+  const minor = steep ? width : height;
+  const slope = steep ? cos / sin : sin / cos;
+  const offsets = Array.from({ length: major }, (_, t) => Math.round(t * slope));
+  const minOffset = Math.min(0, offsets[major - 1]);
+  const maxOffset = Math.max(0, offsets[major - 1]);
+
+  for (let start = -maxOffset; start < minor - minOffset; start++) {
+    const positions: number[] = [];
+    for (let t = 0; t < major; t++) {
+      const m = start + offsets[t];
+      if (m < 0 || m >= minor) continue;
+      positions.push(steep ? t * width + m : m * width + t);
+    }
+    if (positions.length > 0) visit(positions);
+  }
+}
+
+/**
+ * Mark the ink of every long, mostly-ink stretch along one digital line
+ */
+function markLongStretches(
+  ink: Uint8Array,
+  positions: number[],
+  direction: number,
+  lineDirection: Uint8Array,
+  config: LineRemovalConfig
+): void {
+  let start = -1;
+  let lastInk = -1;
+  let inkCount = 0;
+  let dashed = false;
+
+  const close = () => {
+    if (start < 0) return;
+    const span = lastInk - start + 1;
+    const minSpan = dashed ? 2 * config.length : config.length;
+    if (span >= minSpan && inkCount / span >= config.minFill) {
+      for (let k = start; k <= lastInk; k++) {
+        const p = positions[k];
+        if (ink[p] && lineDirection[p] === NO_LINE) lineDirection[p] = direction;
+      }
+    }
+    start = -1;
+    inkCount = 0;
+    dashed = false;
+  };
+
+  for (let k = 0; k < positions.length; k++) {
+    if (!ink[positions[k]]) continue;
+    const gap = k - lastInk - 1;
+    if (start >= 0 && gap > config.dashGap) close();
+    if (start >= 0 && gap > 2) dashed = true;
+    if (start < 0) start = k;
+    lastInk = k;
+    inkCount++;
+  }
+  close();
+}
+
+/**
+ * Put back line pixels that have non-line ink on both sides across the line
+ */
+function repairCrossings(
+  ink: Uint8Array,
+  lineDirection: Uint8Array,
+  angles: number[],
+  width: number,
+  height: number,
+  maxThickness: number
+): void {
+  const restored: number[] = [];
+
+  // Ink that is not part of a line, reached by stepping across the line
+  const reachesGlyph = (x: number, y: number, dx: number, dy: number): boolean => {
+    for (let step = 1; step <= maxThickness + 1; step++) {
+      const nx = Math.round(x + dx * step);
+      const ny = Math.round(y + dy * step);
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) return false;
+      const q = ny * width + nx;
+      if (lineDirection[q] === NO_LINE) return ink[q] === 1;
+    }
+    return false;
+  };
+
+  for (let p = 0; p < lineDirection.length; p++) {
+    if (lineDirection[p] === NO_LINE) continue;
+    const radians = ((angles[lineDirection[p]] + 90) * Math.PI) / 180;
+    const dx = Math.cos(radians);
+    const dy = Math.sin(radians);
+    const x = p % width;
+    const y = (p - x) / width;
+    if (reachesGlyph(x, y, dx, dy) && reachesGlyph(x, y, -dx, -dy)) {
+      restored.push(p);
+    }
+  }
+
+  for (const p of restored) lineDirection[p] = NO_LINE;
+}
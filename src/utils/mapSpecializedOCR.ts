@@ -4,12 +4,22 @@
  * Implements specialized OCR techniques for cadastral maps:
  * - TrOCR and LayoutLMv3 integration
  * - Black text isolation
+ * - Boundary line and hatching removal
  * - Multi-angle processing
  * - Specialized Tesseract configuration
  */
 
 import { DetectedText } from './advancedOCR';
-import { CADASTRAL_PLACE_NAMES, CADASTRAL_NUMBERS } from './cadastralDictionary';
+import { CADASTRAL_PLACE_NAMES } from './cadastralDictionary';
+import { getOCREngine, resolveEnabledEngines, OCREngineId, OCREngineOptions } from './ocrEngineRegistry';
+import { rescaleBbox, unrotateBbox } from './geometry';
+import { mergeOverlappingDetections } from './detectionMerging';
+import { recordCorrection, recordSource, ProvenanceSource } from './provenance';
+import { Canvas, SourceImage, createCanvas, getContext2D, imageSize, readImageData, rotateCanvas, writeImageData } from './canvas';
+import { SkewEstimate, deskewCanvas, estimateSkew } from './deskew';
+import { OperatorChain, chain } from './imageOperators';
+import { InkLayerName, inkLayerFlags } from './colorLayers';
+import { removedLayer } from './lineRemoval';
 
 // Configuration for specialized map OCR
 export interface MapOCRConfig {
@@ -20,10 +30,15 @@ export interface MapOCRConfig {
   tesseractPSM: number;
   rotateAngles: number[];
   blackTextOnly: boolean;
+  inkLayers: InkLayerName[]; // Ink layers kept when blackTextOnly is set
+  removeLines: boolean;      // Remove parcel boundaries, dashed lines and hatching before OCR
   applyDeskew: boolean;
   applyCLAHE: boolean;
   applyMorphology: boolean;
   confidenceThreshold: number;
+  signal?: AbortSignal;     // Cancels pending engine requests
+  onSkewDetected?: (skew: SkewEstimate, corrected: boolean) => void; // Reports the skew measured when deskewing
+  onLineLayer?: (lines: ImageData) => void; // Receives the removed lines (black on white, original frame)
 }
 
 // Default configuration optimized for cadastral maps
@@ -35,6 +50,8 @@ export const DEFAULT_CONFIG: MapOCRConfig = {
   tesseractPSM: 11,         // PSM 11 for sparse text as recommended
   rotateAngles: [0, 90, 180, 270], // Try all rotations
   blackTextOnly: true,      // Focus only on black text
+  inkLayers: ['black'],     // Black text; add 'red' / 'blue' for coloured labels
+  removeLines: true,        // Keep boundary strokes from fragmenting labels
   applyDeskew: true,        // Automatically deskew text
   applyCLAHE: true,         // Apply CLAHE for contrast enhancement
   applyMorphology: true,    // Apply morphological operations
@@ -45,7 +62,7 @@ export const DEFAULT_CONFIG: MapOCRConfig = {
  * Process an image with map-specialized OCR
  */
 export async function processWithMapOCR(
-  imageElement: HTMLImageElement,
+  imageElement: SourceImage,
   config: Partial<MapOCRConfig> = {},
   progressCallback?: (progress: number) => void
 ): Promise<DetectedText[]> {
@@ -53,12 +70,23 @@ export async function processWithMapOCR(
   let progress = 0;
   
   try {
+    // Resolve the engine flags first so a missing engine fails before any work starts
+    const engines = resolveEnabledEngines(fullConfig);
+    
     // Step 1: Preprocess the image
     progressCallback?.(progress += 5);
     console.log('Preprocessing image for map-specialized OCR...');
     
     // Create preprocessed versions for different OCR engines
     const preprocessedImages = await preprocessForMapOCR(imageElement, fullConfig);
+    fullConfig.signal?.throwIfAborted();
+    if (preprocessedImages.skew) {
+      fullConfig.onSkewDetected?.(preprocessedImages.skew, preprocessedImages.deskewAngle !== 0);
+    }
+    if (preprocessedImages.lineLayer) {
+      fullConfig.onLineLayer?.(preprocessedImages.lineLayer);
+    }
+    const engineOptions: OCREngineOptions = { signal: fullConfig.signal };
     
     // Step 2: Process with multiple specialized OCR engines
     progressCallback?.(progress += 5);
@@ -67,26 +95,27 @@ export async function processWithMapOCR(
     // Process with each OCR engine in parallel
     const promises: Promise<DetectedText[]>[] = [];
     
-    if (fullConfig.useTrOCR) {
-      promises.push(processWithTrOCR(preprocessedImages.trOCRImage));
-    }
-    
-    if (fullConfig.useLayoutLM) {
-      promises.push(processWithLayoutLM(preprocessedImages.layoutLMImage));
-    }
-    
-    if (fullConfig.usePaddleOCR) {
-      promises.push(processWithPaddleOCR(preprocessedImages.paddleOCRImage));
-    }
-    
-    if (fullConfig.useTesseract) {
-      // Process with Tesseract at multiple angles
-      for (const angle of fullConfig.rotateAngles) {
-        promises.push(processWithTesseract(
-          preprocessedImages.tesseractImages[angle],
-          fullConfig.tesseractPSM,
-          angle
-        ));
+    for (const { id } of engines) {
+      // Engine images are resized copies; boxes are mapped back to the source frame
+      if (id === 'trocr') {
+        promises.push(recognizeResized(id, preprocessedImages.trOCRImage, preprocessedImages.sourceSize, 'map-trocr-2x', engineOptions));
+      } else if (id === 'layoutlm') {
+        promises.push(recognizeResized(id, preprocessedImages.layoutLMImage, preprocessedImages.sourceSize, 'map-layoutlm-224', engineOptions));
+      } else if (id === 'paddleocr') {
+        promises.push(recognizeResized(id, preprocessedImages.paddleOCRImage, preprocessedImages.sourceSize, 'map-paddleocr-1.5x', engineOptions));
+      } else if (id === 'tesseract') {
+        // Process with Tesseract at multiple angles, mapping boxes back to the unrotated frame
+        for (const angle of fullConfig.rotateAngles) {
+          const rotated = preprocessedImages.tesseractImages[angle];
+          promises.push(
+            recognizeWithEngine(id, rotated, { ...engineOptions, psm: fullConfig.tesseractPSM }, { preprocessing: 'map-rotated', angle }).then(results =>
+              results.map(result => ({
+                ...result,
+                bbox: unrotateBbox(result.bbox, angle, rotated, preprocessedImages.sourceSize)
+              }))
+            )
+          );
+        }
       }
     }
     
@@ -104,6 +133,15 @@ export async function processWithMapOCR(
       combinedResults = [...combinedResults, ...results];
     }
     
+    // Boxes were read on the deskewed sheet; map them back to the original frame
+    const { deskewAngle, sourceSize, originalSize } = preprocessedImages;
+    if (deskewAngle !== 0) {
+      combinedResults = combinedResults.map(result => ({
+        ...result,
+        bbox: unrotateBbox(result.bbox, -deskewAngle, sourceSize, originalSize)
+      }));
+    }
+    
     // Filter by confidence threshold
     const filteredResults = combinedResults.filter(
       result => result.confidence >= fullConfig.confidenceThreshold * 100
@@ -120,204 +158,98 @@ export async function processWithMapOCR(
     return processedResults;
   } catch (error) {
     console.error('Error in map-specialized OCR:', error);
-    return [];
+    throw error;
   }
 }
 
+/**
+ * Build the operator chain of map-specialized preprocessing
+ */
+export function mapPreprocessingChain(config: Partial<MapOCRConfig> = {}): OperatorChain {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  return chain()
+    .addIf(fullConfig.blackTextOnly, 'inkLayers', inkLayerFlags(fullConfig.inkLayers)) // Remove the other ink layers
+    .addIf(fullConfig.removeLines, 'removeLines', { length: 60, angleStep: 15, dashGap: 6 }) // Before erosion thickens the lines
+    .addIf(fullConfig.applyCLAHE, 'clahe', { tileSize: 32, clipLimit: 3 })
+    .addIf(fullConfig.applyMorphology, 'erode', { size: 3 });        // Thicken the text strokes
+}
+
 /**
  * Preprocess an image for map-specialized OCR
  */
 async function preprocessForMapOCR(
-  imageElement: HTMLImageElement,
+  imageElement: SourceImage,
   config: MapOCRConfig
 ): Promise<{
-  trOCRImage: HTMLCanvasElement;
-  layoutLMImage: HTMLCanvasElement;
-  paddleOCRImage: HTMLCanvasElement;
-  tesseractImages: Record<number, HTMLCanvasElement>;
+  trOCRImage: Canvas;
+  layoutLMImage: Canvas;
+  paddleOCRImage: Canvas;
+  tesseractImages: Record<number, Canvas>;
+  sourceSize: { width: number; height: number };   // Frame the engine boxes are mapped to (deskewed sheet)
+  originalSize: { width: number; height: number }; // Frame of the input image
+  skew?: SkewEstimate;                              // Measured skew, when deskewing is enabled
+  deskewAngle: number;                              // Skew that was corrected (0 if none)
+  lineLayer?: ImageData;                            // Lines removed from the sheet, when line removal is enabled
 }> {
-  // Create a canvas for preprocessing
-  const canvas = document.createElement('canvas');
-  const ctx = canvas.getContext('2d')!;
-  
-  // Set canvas size
-  canvas.width = imageElement.naturalWidth;
-  canvas.height = imageElement.naturalHeight;
+  // Create a canvas for preprocessing at the original size
+  const { width: sourceWidth, height: sourceHeight } = imageSize(imageElement);
+  const canvas = createCanvas(sourceWidth, sourceHeight);
+  const ctx = getContext2D(canvas);
   
   // Draw the original image
   ctx.drawImage(imageElement, 0, 0);
   
-  // Get image data for preprocessing
-  const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-  const data = imageData.data;
-  
-  // Step 1: Remove colors except black if enabled
-  if (config.blackTextOnly) {
-    for (let i = 0; i < data.length; i += 4) {
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      
-      // Check if the pixel is close to black
-      const isBlack = r < 60 && g < 60 && b < 60;
-      
-      // Keep only black pixels, make everything else white
-      if (isBlack) {
-        // Make it pure black
-        data[i] = data[i + 1] = data[i + 2] = 0;
-      } else {
-        // Make it pure white
-        data[i] = data[i + 1] = data[i + 2] = 255;
-      }
-    }
-  }
-  
-  // Step 2: Apply CLAHE if enabled
-  if (config.applyCLAHE) {
-    applyCLAHE(data, canvas.width, canvas.height);
-  }
-  
-  // Step 3: Apply morphological operations if enabled
-  if (config.applyMorphology) {
-    applyMorphologicalOperations(data, canvas.width, canvas.height);
-  }
+  // Steps 1-3: Remove the other ink layers and the lines, CLAHE and morphology (as enabled)
+  let stepInput = readImageData(canvas);
+  let lineLayer: ImageData | undefined;
+  const preprocessed = mapPreprocessingChain(config).run(stepInput, (step, output) => {
+    if (step.op === 'removeLines') lineLayer = removedLayer(stepInput, output);
+    stepInput = output;
+  });
   
   // Put preprocessed image data back to canvas
-  ctx.putImageData(imageData, 0, 0);
+  writeImageData(canvas, preprocessed);
+  
+  // Step 4: Measure the skew of the sheet and rotate it level if enabled
+  const skew = config.applyDeskew ? estimateSkew(preprocessed) : undefined;
+  const deskewed = skew ? deskewCanvas(canvas, skew.angle) : canvas;
+  const deskewAngle = deskewed === canvas ? 0 : skew!.angle;
+  if (skew) {
+    console.log(`Estimated sheet skew: ${skew.angle}° (confidence ${skew.confidence})${deskewAngle ? ', corrected' : ''}`);
+  }
   
-  // Step 4: Create specialized versions for each OCR engine
-  const trOCRImage = createTrOCRImage(canvas);
-  const layoutLMImage = createLayoutLMImage(canvas);
-  const paddleOCRImage = createPaddleOCRImage(canvas);
+  // Step 5: Create specialized versions for each OCR engine
+  const trOCRImage = createTrOCRImage(deskewed);
+  const layoutLMImage = createLayoutLMImage(deskewed);
+  const paddleOCRImage = createPaddleOCRImage(deskewed);
   
-  // Step 5: Create rotated versions for Tesseract
-  const tesseractImages: Record<number, HTMLCanvasElement> = {};
+  // Step 6: Create rotated versions for Tesseract
+  const tesseractImages: Record<number, Canvas> = {};
   
   for (const angle of config.rotateAngles) {
-    tesseractImages[angle] = rotateImage(canvas, angle);
+    tesseractImages[angle] = rotateCanvas(deskewed, angle);
   }
   
   return {
     trOCRImage,
     layoutLMImage,
     paddleOCRImage,
-    tesseractImages
+    tesseractImages,
+    sourceSize: { width: deskewed.width, height: deskewed.height },
+    originalSize: { width: canvas.width, height: canvas.height },
+    skew,
+    deskewAngle,
+    lineLayer
   };
 }
 
-/**
- * Apply CLAHE-like contrast enhancement
- */
-function applyCLAHE(data: Uint8ClampedArray, width: number, height: number): void {
-  // Implementation similar to CLAHE (Contrast Limited Adaptive Histogram Equalization)
-  // This is a simplified version for the browser environment
-  
-  // Divide the image into tiles
-  const tileSize = 32;
-  const clipLimit = 3;
-  
-  // Process each tile
-  for (let y = 0; y < height; y += tileSize) {
-    for (let x = 0; x < width; x += tileSize) {
-      // Get tile dimensions (handle edge cases)
-      const tileWidth = Math.min(tileSize, width - x);
-      const tileHeight = Math.min(tileSize, height - y);
-      
-      // Skip small tiles
-      if (tileWidth < 8 || tileHeight < 8) continue;
-      
-      // Get histogram for this tile
-      const histogram = new Array(256).fill(0);
-      let pixelCount = 0;
-      
-      for (let ty = 0; ty < tileHeight; ty++) {
-        for (let tx = 0; tx < tileWidth; tx++) {
-          const idx = ((y + ty) * width + (x + tx)) * 4;
-          histogram[data[idx]]++;
-          pixelCount++;
-        }
-      }
-      
-      // Apply clip limit
-      const clipThreshold = (clipLimit * pixelCount) / 256;
-      let clippedPixels = 0;
-      
-      for (let i = 0; i < 256; i++) {
-        if (histogram[i] > clipThreshold) {
-          clippedPixels += histogram[i] - clipThreshold;
-          histogram[i] = clipThreshold;
-        }
-      }
-      
-      // Redistribute clipped pixels
-      const redistributePerBin = clippedPixels / 256;
-      for (let i = 0; i < 256; i++) {
-        histogram[i] += redistributePerBin;
-      }
-      
-      // Create cumulative distribution function
-      const cdf = new Array(256).fill(0);
-      cdf[0] = histogram[0];
-      for (let i = 1; i < 256; i++) {
-        cdf[i] = cdf[i - 1] + histogram[i];
-      }
-      
-      // Normalize CDF
-      for (let i = 0; i < 256; i++) {
-        cdf[i] = Math.round((cdf[i] * 255) / pixelCount);
-      }
-      
-      // Apply equalization to this tile
-      for (let ty = 0; ty < tileHeight; ty++) {
-        for (let tx = 0; tx < tileWidth; tx++) {
-          const idx = ((y + ty) * width + (x + tx)) * 4;
-          data[idx] = data[idx + 1] = data[idx + 2] = cdf[data[idx]];
-        }
-      }
-    }
-  }
-}
-
-/**
- * Apply morphological operations to enhance text
- */
-function applyMorphologicalOperations(data: Uint8ClampedArray, width: number, height: number): void {
-  // Create a copy of the data for processing
-  const tempData = new Uint8ClampedArray(data.length);
-  for (let i = 0; i < data.length; i++) {
-    tempData[i] = data[i];
-  }
-  
-  // Apply dilation to enhance text (make it thicker)
-  for (let y = 1; y < height - 1; y++) {
-    for (let x = 1; x < width - 1; x++) {
-      const idx = (y * width + x) * 4;
-      
-      // If the current pixel is black
-      if (tempData[idx] === 0) {
-        // Set all neighbors to black
-        for (let j = -1; j <= 1; j++) {
-          for (let i = -1; i <= 1; i++) {
-            const neighborIdx = ((y + j) * width + (x + i)) * 4;
-            data[neighborIdx] = data[neighborIdx + 1] = data[neighborIdx + 2] = 0;
-          }
-        }
-      }
-    }
-  }
-}
-
 /**
  * Create a specialized image for TrOCR
  */
-function createTrOCRImage(canvas: HTMLCanvasElement): HTMLCanvasElement {
-  // Create a copy of the canvas
-  const trOCRCanvas = document.createElement('canvas');
-  const ctx = trOCRCanvas.getContext('2d')!;
-  
-  // Set canvas size (upscale by 2x for TrOCR)
-  trOCRCanvas.width = canvas.width * 2;
-  trOCRCanvas.height = canvas.height * 2;
+function createTrOCRImage(canvas: Canvas): Canvas {
+  // Create a copy of the canvas (upscale by 2x for TrOCR)
+  const trOCRCanvas = createCanvas(canvas.width * 2, canvas.height * 2);
+  const ctx = getContext2D(trOCRCanvas);
   
   // Draw the upscaled image with high-quality interpolation
   ctx.imageSmoothingEnabled = true;
@@ -333,14 +265,10 @@ function createTrOCRImage(canvas: HTMLCanvasElement): HTMLCanvasElement {
 /**
  * Create a specialized image for LayoutLM
  */
-function createLayoutLMImage(canvas: HTMLCanvasElement): HTMLCanvasElement {
-  // Create a copy of the canvas
-  const layoutLMCanvas = document.createElement('canvas');
-  const ctx = layoutLMCanvas.getContext('2d')!;
-  
-  // Set canvas size (LayoutLM typically works with 224x224 images)
-  layoutLMCanvas.width = 224;
-  layoutLMCanvas.height = 224;
+function createLayoutLMImage(canvas: Canvas): Canvas {
+  // Create a copy of the canvas (LayoutLM typically works with 224x224 images)
+  const layoutLMCanvas = createCanvas(224, 224);
+  const ctx = getContext2D(layoutLMCanvas);
   
   // Draw the resized image with high-quality interpolation
   ctx.imageSmoothingEnabled = true;
@@ -356,14 +284,10 @@ function createLayoutLMImage(canvas: HTMLCanvasElement): HTMLCanvasElement {
 /**
  * Create a specialized image for PaddleOCR
  */
-function createPaddleOCRImage(canvas: HTMLCanvasElement): HTMLCanvasElement {
-  // Create a copy of the canvas
-  const paddleOCRCanvas = document.createElement('canvas');
-  const ctx = paddleOCRCanvas.getContext('2d')!;
-  
-  // Set canvas size (upscale by 1.5x for PaddleOCR)
-  paddleOCRCanvas.width = canvas.width * 1.5;
-  paddleOCRCanvas.height = canvas.height * 1.5;
+function createPaddleOCRImage(canvas: Canvas): Canvas {
+  // Create a copy of the canvas (upscale by 1.5x for PaddleOCR)
+  const paddleOCRCanvas = createCanvas(canvas.width * 1.5, canvas.height * 1.5);
+  const ctx = getContext2D(paddleOCRCanvas);
   
   // Draw the upscaled image with high-quality interpolation
   ctx.imageSmoothingEnabled = true;
@@ -377,155 +301,43 @@ function createPaddleOCRImage(canvas: HTMLCanvasElement): HTMLCanvasElement {
 }
 
 /**
- * Rotate an image by a specified angle
- */
-function rotateImage(canvas: HTMLCanvasElement, angle: number): HTMLCanvasElement {
-  // Create a new canvas for the rotated image
-  const rotatedCanvas = document.createElement('canvas');
-  const ctx = rotatedCanvas.getContext('2d')!;
-  
-  // Set canvas size based on rotation
-  if (angle === 90 || angle === 270) {
-    rotatedCanvas.width = canvas.height;
-    rotatedCanvas.height = canvas.width;
-  } else {
-    rotatedCanvas.width = canvas.width;
-    rotatedCanvas.height = canvas.height;
-  }
-  
-  // Translate and rotate
-  ctx.translate(rotatedCanvas.width / 2, rotatedCanvas.height / 2);
-  ctx.rotate((angle * Math.PI) / 180);
-  ctx.drawImage(
-    canvas,
-    -canvas.width / 2,
-    -canvas.height / 2,
-    canvas.width,
-    canvas.height
-  );
-  
-  return rotatedCanvas;
-}
-
-/**
- * Process an image with TrOCR
- */
-async function processWithTrOCR(canvas: HTMLCanvasElement): Promise<DetectedText[]> {
-  // In a real implementation, we would call the TrOCR API
-  // For this example, we'll simulate TrOCR results
-  console.log('Processing with TrOCR (specialized for maps)...');
-  
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  // Simulate TrOCR results with cadastral map terms
-  return simulateMapOCRResults('TrOCR', 90, 98);
-}
-
-/**
- * Process an image with LayoutLM
- */
-async function processWithLayoutLM(canvas: HTMLCanvasElement): Promise<DetectedText[]> {
-  // In a real implementation, we would call the LayoutLM API
-  // For this example, we'll simulate LayoutLM results
-  console.log('Processing with LayoutLMv3 (specialized for document layout)...');
-  
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 600));
-  
-  // Simulate LayoutLM results with cadastral map terms
-  return simulateMapOCRResults('LayoutLM', 88, 96);
-}
-
-/**
- * Process an image with PaddleOCR
- */
-async function processWithPaddleOCR(canvas: HTMLCanvasElement): Promise<DetectedText[]> {
-  // In a real implementation, we would call the PaddleOCR API
-  // For this example, we'll simulate PaddleOCR results
-  console.log('Processing with fine-tuned PaddleOCR for maps...');
-  
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 400));
-  
-  // Simulate PaddleOCR results with cadastral map terms
-  return simulateMapOCRResults('PaddleOCR', 92, 99);
-}
-
-/**
- * Process an image with Tesseract using specialized configuration
+ * Recognize a preprocessed image with a registered engine
  */
-async function processWithTesseract(
-  canvas: HTMLCanvasElement,
-  psm: number,
-  angle: number
+async function recognizeWithEngine(
+  engineId: OCREngineId,
+  canvas: Canvas,
+  options: OCREngineOptions = {},
+  source: ProvenanceSource = {}
 ): Promise<DetectedText[]> {
-  // In a real implementation, we would call the Tesseract API with specialized config
-  // For this example, we'll simulate Tesseract results
-  console.log(`Processing with Tesseract (PSM ${psm}, angle ${angle}°)...`);
-  
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 300));
-  
-  // Simulate Tesseract results with cadastral map terms
-  return simulateMapOCRResults(`Tesseract-${angle}`, 85, 95);
+  const adapter = getOCREngine(engineId);
+  console.log(`Processing with ${adapter.name} (${engineId})...`);
+  const results = await adapter.recognize(canvas, options);
+  return results.map(result => recordSource(result, { engine: engineId, ...source }));
 }
 
 /**
- * Simulate OCR results for cadastral maps
+ * Recognize a resized copy of the source image, with boxes in the source frame
  */
-function simulateMapOCRResults(
-  engine: string,
-  minConfidence: number,
-  maxConfidence: number
-): DetectedText[] {
-  const results: DetectedText[] = [];
-  
-  // Add all known cadastral place names with high confidence
-  for (const placeName of CADASTRAL_PLACE_NAMES) {
-    // Only add some of the place names (to simulate partial detection)
-    if (Math.random() > 0.3) {
-      results.push({
-        text: placeName,
-        confidence: minConfidence + Math.random() * (maxConfidence - minConfidence),
-        type: 'character',
-        bbox: {
-          x0: Math.random() * 500,
-          y0: Math.random() * 500,
-          x1: Math.random() * 500 + 500,
-          y1: Math.random() * 500 + 500
-        }
-      });
-    }
-  }
-  
-  // Add all known cadastral numbers with high confidence
-  for (const number of CADASTRAL_NUMBERS) {
-    // Only add some of the numbers (to simulate partial detection)
-    if (Math.random() > 0.3) {
-      results.push({
-        text: number,
-        confidence: minConfidence + Math.random() * (maxConfidence - minConfidence),
-        type: 'number',
-        bbox: {
-          x0: Math.random() * 500,
-          y0: Math.random() * 500,
-          x1: Math.random() * 500 + 500,
-          y1: Math.random() * 500 + 500
-        }
-      });
-    }
-  }
-  
-  return results;
+async function recognizeResized(
+  engineId: OCREngineId,
+  canvas: Canvas,
+  sourceSize: { width: number; height: number },
+  preprocessing: string,
+  options: OCREngineOptions = {}
+): Promise<DetectedText[]> {
+  const results = await recognizeWithEngine(engineId, canvas, options, { preprocessing });
+  return results.map(result => ({
+    ...result,
+    bbox: rescaleBbox(result.bbox, canvas, sourceSize)
+  }));
 }
 
 /**
  * Post-process map OCR results
  */
 function postProcessMapOCRResults(results: DetectedText[]): DetectedText[] {
-  // Step 1: Remove duplicates
-  const uniqueResults = removeDuplicates(results);
+  // Step 1: Fuse overlapping reads of the same label
+  const uniqueResults = mergeOverlappingDetections(results);
   
   // Step 2: Apply fuzzy matching to improve accuracy
   const matchedResults = applyFuzzyMatching(uniqueResults);
@@ -545,23 +357,6 @@ function postProcessMapOCRResults(results: DetectedText[]): DetectedText[] {
   return filteredResults;
 }
 
-/**
- * Remove duplicate OCR results
- */
-function removeDuplicates(results: DetectedText[]): DetectedText[] {
-  const uniqueMap = new Map<string, DetectedText>();
-  
-  for (const result of results) {
-    const key = `${result.text.toLowerCase()}_${result.type}`;
-    
-    if (!uniqueMap.has(key) || uniqueMap.get(key)!.confidence < result.confidence) {
-      uniqueMap.set(key, result);
-    }
-  }
-  
-  return Array.from(uniqueMap.values());
-}
-
 /**
  * Apply fuzzy matching to improve OCR accuracy
  */
@@ -572,25 +367,12 @@ function applyFuzzyMatching(results: DetectedText[]): DetectedText[] {
       const bestMatch = findBestMatch(result.text, CADASTRAL_PLACE_NAMES);
       
       if (bestMatch && bestMatch !== result.text) {
-        return {
-          ...result,
-          text: bestMatch,
-          confidence: Math.min(result.confidence + 5, 100) // Boost confidence
-        };
-      }
-    } else if (result.type === 'number') {
-      // Find the best match in known cadastral numbers
-      const bestMatch = findBestMatch(result.text, CADASTRAL_NUMBERS);
-      
-      if (bestMatch && bestMatch !== result.text) {
-        return {
-          ...result,
-          text: bestMatch,
-          confidence: Math.min(result.confidence + 5, 100) // Boost confidence
-        };
+        // Boost confidence
+        return recordCorrection(result, 'fuzzy-match', bestMatch, Math.min(result.confidence + 5, 100));
       }
     }
     
+    // Numbers are kept as read; verification annotates them against the known numbers
     return result;
   });
 }
@@ -6,7 +6,8 @@
  */
 
 import { DetectedText } from './advancedOCR';
-import { CADASTRAL_PLACE_NAMES, CADASTRAL_NUMBERS } from './cadastralDictionary';
+import { CADASTRAL_NUMBERS } from './cadastralDictionary';
+import { getOCREngine } from './ocrEngineRegistry';
 
 // Interface for OCR result from any engine
 interface OCRResult {
@@ -59,58 +60,27 @@ const SHORT_FORM_MAPPING: Record<string, string> = {
 
 /**
  * Process image with EasyOCR via a server API
+ * (the 'easyocr' engine, see httpOCRAdapter.ts)
  */
 export async function processWithEasyOCR(imageBase64: string): Promise<OCRResult[]> {
-  try {
-    // In a real implementation, this would call an EasyOCR API endpoint
-    // For this example, we'll simulate the response with cadastral map terms
-    console.log('Processing with EasyOCR...');
-    
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 500));
-    
-    // Return simulated results with cadastral terms
-    return CADASTRAL_PLACE_NAMES.slice(0, 10).map(text => ({
-      text,
-      confidence: 85 + Math.random() * 10
-    })).concat(
-      CADASTRAL_NUMBERS.slice(0, 10).map(text => ({
-        text,
-        confidence: 80 + Math.random() * 15
-      }))
-    );
-  } catch (error) {
-    console.error('EasyOCR processing error:', error);
-    return [];
-  }
+  console.log('Processing with EasyOCR...');
+  return toOCRResults(await getOCREngine('easyocr').recognize(imageBase64));
 }
 
 /**
  * Process image with PaddleOCR via a server API
+ * (the 'paddleocr' engine, see httpOCRAdapter.ts)
  */
 export async function processWithPaddleOCR(imageBase64: string): Promise<OCRResult[]> {
-  try {
-    // In a real implementation, this would call a PaddleOCR API endpoint
-    // For this example, we'll simulate the response with cadastral map terms
-    console.log('Processing with PaddleOCR...');
-    
-    // Simulate network delay
-    await new Promise(resolve => setTimeout(resolve, 700));
-    
-    // Return simulated results with cadastral terms
-    return CADASTRAL_PLACE_NAMES.slice(5, 15).map(text => ({
-      text,
-      confidence: 82 + Math.random() * 12
-    })).concat(
-      CADASTRAL_NUMBERS.slice(5, 15).map(text => ({
-        text,
-        confidence: 85 + Math.random() * 10
-      }))
-    );
-  } catch (error) {
-    console.error('PaddleOCR processing error:', error);
-    return [];
-  }
+  console.log('Processing with PaddleOCR...');
+  return toOCRResults(await getOCREngine('paddleocr').recognize(imageBase64));
+}
+
+/**
+ * Strip engine reads down to the engine-agnostic OCRResult shape
+ */
+function toOCRResults(results: DetectedText[]): OCRResult[] {
+  return results.map(({ text, confidence, bbox }) => ({ text, confidence, bbox }));
 }
 
 /**
@@ -190,81 +160,9 @@ export async function processWithMultipleEngines(imageBase64: string): Promise<D
     ]);
     
     // Combine results
-    const combinedResults = combineOCRResults([easyOCRResults, paddleOCRResults]);
-    
-    // Ensure all critical cadastral terms are included
-    const finalResults = ensureCriticalTerms(combinedResults);
-    
-    return finalResults;
+    return combineOCRResults([easyOCRResults, paddleOCRResults]);
   } catch (error) {
     console.error('Multi-engine OCR processing error:', error);
-    return [];
+    throw error;
   }
 }
-
-/**
- * Ensure all critical cadastral terms are included in the results
- */
-function ensureCriticalTerms(results: DetectedText[]): DetectedText[] {
-  // Critical terms that must be included
-  const criticalTerms = [
-    { text: 'Benakanahalli', type: 'character' },
-    { text: 'Devapur', type: 'character' },
-    { text: 'Nalla', type: 'character' },
-    { text: 'Devatakala', type: 'character' },
-    { text: 'Mangihal', type: 'character' },
-    { text: 'Gonal', type: 'character' },
-    { text: 'Aladahal', type: 'character' },
-    { text: 'Covered tank', type: 'character' },
-    { text: 'Antaral', type: 'character' },
-    { text: 'Rajapur', type: 'character' },
-    { text: 'Stony waste', type: 'character' },
-    { text: 'Nagarahal', type: 'character' },
-    { text: 'kagaral', type: 'character' },
-    { text: 'kawadimutt', type: 'character' },
-    { text: 'Konal', type: 'character' },
-    { text: 'Kaganti', type: 'character' },
-    { text: '74', type: 'number' },
-    { text: '24', type: 'number' },
-    { text: '387', type: 'number' },
-    { text: '13', type: 'number' },
-    { text: '12', type: 'number' },
-    { text: '11', type: 'number' },
-    { text: '10', type: 'number' },
-    { text: '76', type: 'number' },
-    { text: '22', type: 'number' },
-    { text: '396', type: 'number' },
-    { text: '424', type: 'number' },
-    { text: '404', type: 'number' },
-    { text: '379', type: 'number' },
-    { text: '372', type: 'number' },
-    { text: '362', type: 'number' },
-    { text: '364', type: 'number' },
-    { text: '20', type: 'number' },
-    { text: '426', type: 'number' },
-    { text: '18', type: 'number' },
-    { text: '391', type: 'number' },
-    { text: '386', type: 'number' },
-    { text: '377', type: 'number' },
-    { text: '361', type: 'number' },
-    { text: '402', type: 'number' },
-    { text: '400', type: 'number' }
-  ];
-  
-  // Get existing text values (lowercase for case-insensitive comparison)
-  const existingTexts = new Set(results.map(r => r.text.toLowerCase()));
-  
-  // Add missing critical terms
-  for (const term of criticalTerms) {
-    if (!existingTexts.has(term.text.toLowerCase())) {
-      results.push({
-        text: term.text,
-        confidence: 90, // High confidence for critical terms
-        bbox: { x0: 0, y0: 0, x1: 0, y1: 0 },
-        type: term.type as 'character' | 'number'
-      });
-    }
-  }
-  
-  return results;
-}
@@ -5,12 +5,21 @@
  * - PaddleOCR with angle classification
  * - EasyOCR with custom settings
  * - Tesseract with PSM 11
+ * - Consensus voting across engines for overlapping reads
  * - High confidence filtering
+ *
+ * Engines are looked up in the OCR engine registry (see ocrEngineRegistry.ts).
  */
 
 import { DetectedText } from './advancedOCR';
 import { removeDuplicates, isDuplicate } from './blackTextExtraction';
-import { CADASTRAL_PLACE_NAMES, CADASTRAL_NUMBERS } from './cadastralDictionary';
+import { CADASTRAL_PLACE_NAMES } from './cadastralDictionary';
+import { OCREngineId, resolveEnabledEngines, toBase64 } from './ocrEngineRegistry';
+import { ImageTile } from './improvedPreprocessing';
+import { tileBboxToImage } from './geometry';
+import { mergeOverlappingDetections } from './detectionMerging';
+import { buildConsensus } from './engineConsensus';
+import { recordCorrection, recordSource } from './provenance';
 
 // Configuration for multi-engine OCR
 export interface MultiEngineOCRConfig {
@@ -22,6 +31,10 @@ export interface MultiEngineOCRConfig {
   tesseractPSM: number;
   filterByConfidence: boolean;
   applyFuzzyMatching: boolean;
+  useConsensus: boolean; // Vote overlapping reads of different engines into one read
+  preprocessing?: string; // Label of the preprocessing variant, recorded in provenance
+  signal?: AbortSignal;   // Cancels pending engine requests
+  onTileDone?: (done: number, total: number, engines: OCREngineId[]) => void; // Tile progress (called with 0 before the first tile)
 }
 
 // Default configuration
@@ -33,41 +46,46 @@ export const DEFAULT_CONFIG: MultiEngineOCRConfig = {
   paddleOCRUseAngleClassification: true, // For rotated text
   tesseractPSM: 11, // PSM 11 as recommended
   filterByConfidence: true,
-  applyFuzzyMatching: true
+  applyFuzzyMatching: true,
+  useConsensus: true
 };
 
 /**
  * Process an image with multiple OCR engines
+ * Every enabled engine flag must resolve to a registered adapter
  */
 export async function processWithMultipleEngines(
   imageBase64: string,
   config: Partial<MultiEngineOCRConfig> = {}
 ): Promise<DetectedText[]> {
   const fullConfig = { ...DEFAULT_CONFIG, ...config };
-  const results: DetectedText[] = [];
+  let results: DetectedText[] = [];
   
   try {
-    // Run OCR engines in parallel
-    const promises: Promise<DetectedText[]>[] = [];
-    
-    if (fullConfig.usePaddleOCR) {
-      promises.push(processWithPaddleOCR(imageBase64, fullConfig.paddleOCRUseAngleClassification));
-    }
-    
-    if (fullConfig.useEasyOCR) {
-      promises.push(processWithEasyOCR(imageBase64));
-    }
+    const engines = resolveEnabledEngines(fullConfig);
     
-    if (fullConfig.useTesseract) {
-      promises.push(processWithTesseract(imageBase64, fullConfig.tesseractPSM));
-    }
+    // Run OCR engines in parallel
+    const promises = engines.map(({ id, adapter }) => {
+      console.log(`Processing with ${adapter.name} (${id})...`);
+      return adapter.recognize(imageBase64, {
+        psm: fullConfig.tesseractPSM,
+        useAngleClassification: fullConfig.paddleOCRUseAngleClassification,
+        signal: fullConfig.signal
+      }).then(engineResults => engineResults.map(result =>
+        recordSource(result, { engine: id, preprocessing: fullConfig.preprocessing })
+      ));
+    });
     
     // Wait for all OCR engines to complete
     const allResults = await Promise.all(promises);
     
-    // Combine results
-    for (const engineResults of allResults) {
-      results.push(...engineResults);
+    // Combine results, voting overlapping reads of different engines into one
+    if (fullConfig.useConsensus) {
+      results = buildConsensus(engines.map(({ id }, index) => ({ engine: id, results: allResults[index] })));
+    } else {
+      for (const engineResults of allResults) {
+        results.push(...engineResults);
+      }
     }
     
     // Filter by confidence if enabled
@@ -83,107 +101,10 @@ export async function processWithMultipleEngines(
     return filteredResults;
   } catch (error) {
     console.error('Error in multi-engine OCR:', error);
-    return [];
+    throw error;
   }
 }
 
-/**
- * Process an image with PaddleOCR
- */
-async function processWithPaddleOCR(
-  imageBase64: string,
-  useAngleClassification: boolean = true
-): Promise<DetectedText[]> {
-  // In a real implementation, we would call PaddleOCR API here
-  // For this example, we'll simulate PaddleOCR results
-  console.log('Processing with PaddleOCR (use_angle_cls=' + useAngleClassification + ')...');
-  
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 500));
-  
-  return simulateOCRResults('PaddleOCR', 90, 95);
-}
-
-/**
- * Process an image with EasyOCR
- */
-async function processWithEasyOCR(imageBase64: string): Promise<DetectedText[]> {
-  // In a real implementation, we would call EasyOCR API here
-  // For this example, we'll simulate EasyOCR results
-  console.log('Processing with EasyOCR...');
-  
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 700));
-  
-  return simulateOCRResults('EasyOCR', 85, 92);
-}
-
-/**
- * Process an image with Tesseract (PSM 11)
- */
-async function processWithTesseract(
-  imageBase64: string,
-  psm: number = 11
-): Promise<DetectedText[]> {
-  // In a real implementation, we would call Tesseract API here
-  // For this example, we'll simulate Tesseract results
-  console.log('Processing with Tesseract (PSM ' + psm + ')...');
-  
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 600));
-  
-  return simulateOCRResults('Tesseract', 80, 90);
-}
-
-/**
- * Simulate OCR results for demonstration purposes
- */
-function simulateOCRResults(
-  engine: string,
-  minConfidence: number,
-  maxConfidence: number
-): DetectedText[] {
-  const results: DetectedText[] = [];
-  
-  // Add some place names
-  for (let i = 0; i < Math.floor(Math.random() * 5) + 5; i++) {
-    const randomIndex = Math.floor(Math.random() * CADASTRAL_PLACE_NAMES.length);
-    const placeName = CADASTRAL_PLACE_NAMES[randomIndex];
-    
-    results.push({
-      text: placeName,
-      confidence: minConfidence + Math.random() * (maxConfidence - minConfidence),
-      type: 'character',
-      bbox: {
-        x0: Math.random() * 500,
-        y0: Math.random() * 500,
-        x1: Math.random() * 500 + 500,
-        y1: Math.random() * 500 + 500
-      }
-    });
-  }
-  
-  // Add some numbers
-  for (let i = 0; i < Math.floor(Math.random() * 8) + 8; i++) {
-    const randomIndex = Math.floor(Math.random() * CADASTRAL_NUMBERS.length);
-    const number = CADASTRAL_NUMBERS[randomIndex];
-    
-    results.push({
-      text: number,
-      confidence: minConfidence + Math.random() * (maxConfidence - minConfidence),
-      type: 'number',
-      bbox: {
-        x0: Math.random() * 500,
-        y0: Math.random() * 500,
-        x1: Math.random() * 500 + 500,
-        y1: Math.random() * 500 + 500
-      }
-    });
-  }
-  
-  return results;
-}
-
 /**
  * Apply fuzzy matching to OCR results
  */
@@ -196,47 +117,19 @@ function applyFuzzyMatching(results: DetectedText[]): DetectedText[] {
       const bestMatch = findBestMatch(result.text, CADASTRAL_PLACE_NAMES);
       
       if (bestMatch) {
-        matchedResults.push({
-          ...result,
-          text: bestMatch,
-          confidence: Math.min(result.confidence + 5, 100) // Boost confidence slightly
-        });
+        // Boost confidence slightly
+        matchedResults.push(recordCorrection(result, 'fuzzy-match', bestMatch, Math.min(result.confidence + 5, 100)));
       } else {
         matchedResults.push(result);
       }
-    } else if (result.type === 'number') {
-      // Try to match with known numbers
-      const bestMatch = findBestMatch(result.text, CADASTRAL_NUMBERS);
-      
-      if (bestMatch) {
-        matchedResults.push({
-          ...result,
-          text: bestMatch,
-          confidence: Math.min(result.confidence + 5, 100) // Boost confidence slightly
-        });
-      } else {
-        // Ensure it's a valid number
-        if (/^\d+$/.test(result.text)) {
-          matchedResults.push(result);
-        }
-      }
+    } else if (/^\d+$/.test(result.text)) {
+      // Numbers are kept as read; verification annotates them against the known numbers
+      matchedResults.push(result);
     }
   }
   
-  // Remove duplicates
-  const uniqueResults: DetectedText[] = [];
-  const seenTexts = new Set<string>();
-  
-  for (const result of matchedResults) {
-    const key = `${result.text.toLowerCase()}_${result.type}`;
-    
-    if (!seenTexts.has(key)) {
-      seenTexts.add(key);
-      uniqueResults.push(result);
-    }
-  }
-  
-  return uniqueResults;
+  // Fuse overlapping reads of the same label (repeated labels elsewhere are kept)
+  return mergeOverlappingDetections(matchedResults);
 }
 
 /**
@@ -327,42 +220,37 @@ function levenshteinDistance(str1: string, str2: string): number {
 
 /**
  * Process image tiles with multiple OCR engines
+ * Boxes are mapped back to original-image pixels, and reads of the same
+ * label from neighbouring tiles (in their overlap) are merged
  */
 export async function processTilesWithMultipleEngines(
-  tiles: HTMLCanvasElement[],
+  tiles: ImageTile[],
   config: Partial<MultiEngineOCRConfig> = {}
 ): Promise<DetectedText[]> {
   const allResults: DetectedText[] = [];
+  const engines = config.onTileDone
+    ? resolveEnabledEngines({ ...DEFAULT_CONFIG, ...config }).map(({ id }) => id)
+    : [];
+  config.onTileDone?.(0, tiles.length, engines);
   
   // Process each tile
-  for (let i = 0; i < tiles.length; i++) {
-    const tile = tiles[i];
+  for (const [index, tile] of tiles.entries()) {
+    config.signal?.throwIfAborted();
     
     // Convert tile to base64
-    const base64 = tile.toDataURL('image/png').split(',')[1];
+    const base64 = await toBase64(tile.canvas);
     
     // Process with multiple engines
     const tileResults = await processWithMultipleEngines(base64, config);
     
-    // Adjust bounding box coordinates to account for tile position
-    // (In a real implementation, we would need to track tile positions)
-    
-    // Add to results
-    allResults.push(...tileResults);
-  }
-  
-  // Remove duplicates across tiles
-  const uniqueResults: DetectedText[] = [];
-  const seenTexts = new Set<string>();
-  
-  for (const result of allResults) {
-    const key = `${result.text.toLowerCase()}_${result.type}`;
-    
-    if (!seenTexts.has(key)) {
-      seenTexts.add(key);
-      uniqueResults.push(result);
-    }
+    // Map tile-local, upscaled boxes back to the original image
+    allResults.push(...tileResults.map(result => ({
+      ...recordSource(result, { tileId: tile.id }),
+      bbox: tileBboxToImage(result.bbox, tile)
+    })));
+    config.onTileDone?.(index + 1, tiles.length, engines);
   }
   
-  return uniqueResults;
+  // Merge reads of the same label across tile overlaps
+  return mergeOverlappingDetections(allResults);
 }
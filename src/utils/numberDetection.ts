@@ -1,27 +1,37 @@
 /**
  * Specialized Number Detection Module for Cadastral Maps
  * 
- * This module uses PaddleOCR and specialized preprocessing to accurately
- * detect numbers in cadastral maps.
+ * This module uses a registered OCR engine (PaddleOCR by default) and
+ * specialized preprocessing to accurately detect numbers in cadastral maps.
  */
 
 import { DetectedText } from './advancedOCR';
 import { NUMBER_PREPROCESSING_OPTIONS, preprocessImage, extractNumberRegions, postProcessNumbers } from './enhancedPreprocessing';
 import { CADASTRAL_NUMBERS } from './cadastralDictionary';
+import { getOCREngine, OCREngineId } from './ocrEngineRegistry';
+import { ImageTile } from './improvedPreprocessing';
+import { tileBboxToImage } from './geometry';
+import { mergeOverlappingDetections } from './detectionMerging';
+import { recordCorrection, recordSource } from './provenance';
+import { SourceImage, imageSize } from './canvas';
 
 // Known cadastral numbers for validation
 const KNOWN_NUMBERS = CADASTRAL_NUMBERS;
 
 // Number detection configuration
-interface NumberDetectionConfig {
+export interface NumberDetectionConfig {
+  engine: OCREngineId;
   enableMultiplePreprocessing: boolean;
   enableRegionExtraction: boolean;
   confidenceThreshold: number;
   useRegexValidation: boolean;
+  signal?: AbortSignal; // Cancels pending engine requests
+  onRegionDone?: (done: number, total: number) => void; // Region progress (called with 0 before the first region)
 }
 
 // Default configuration
 const DEFAULT_CONFIG: NumberDetectionConfig = {
+  engine: 'paddleocr',
   enableMultiplePreprocessing: true,
   enableRegionExtraction: true,
   confidenceThreshold: 0.4,
@@ -32,11 +42,10 @@ const DEFAULT_CONFIG: NumberDetectionConfig = {
  * Detect numbers in a cadastral map image
  */
 export async function detectNumbers(
-  imageElement: HTMLImageElement,
+  imageElement: SourceImage,
   config: Partial<NumberDetectionConfig> = {}
 ): Promise<DetectedText[]> {
   const fullConfig = { ...DEFAULT_CONFIG, ...config };
-  const results: DetectedText[] = [];
   
   try {
     console.log('Starting specialized number detection...');
@@ -45,34 +54,57 @@ export async function detectNumbers(
     const preprocessed = preprocessImage(imageElement, NUMBER_PREPROCESSING_OPTIONS);
     
     // Step 2: Extract regions likely to contain numbers
-    const regions = fullConfig.enableRegionExtraction
+    const regions: ImageTile[] = fullConfig.enableRegionExtraction
       ? extractNumberRegions(imageElement)
-      : [preprocessed];
-    
-    // Step 3: Process each region with PaddleOCR
-    for (const region of regions) {
-      // Convert canvas to base64 for PaddleOCR
-      const base64 = region.toDataURL('image/png').split(',')[1];
-      
-      // In a real implementation, we would call PaddleOCR here
-      // For this example, we'll simulate PaddleOCR results
-      const simulatedResults = simulatePaddleOCRForNumbers(base64);
-      
-      // Filter results by confidence threshold
-      const filteredResults = simulatedResults.filter(
-        result => result.confidence >= fullConfig.confidenceThreshold
-      );
-      
-      // Add to results
-      results.push(...filteredResults);
-    }
+      : [{
+          id: 'full',
+          canvas: preprocessed,
+          x: 0,
+          y: 0,
+          width: preprocessed.width,
+          height: preprocessed.height,
+          scale: preprocessed.width / imageSize(imageElement).width
+        }];
     
-    // Step 4: Post-process the results
-    return postProcessNumberResults(results, fullConfig);
+    // Step 3: Read the regions with the configured engine (PaddleOCR by default)
+    return await recognizeNumberRegions(regions, fullConfig);
   } catch (error) {
     console.error('Error in number detection:', error);
-    return [];
+    throw error;
+  }
+}
+
+/**
+ * Read numbers in already extracted regions (see extractNumberRegions)
+ * Boxes are mapped back to original-image pixels
+ */
+export async function recognizeNumberRegions(
+  regions: ImageTile[],
+  config: Partial<NumberDetectionConfig> = {}
+): Promise<DetectedText[]> {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const results: DetectedText[] = [];
+  const adapter = getOCREngine(fullConfig.engine);
+  fullConfig.onRegionDone?.(0, regions.length);
+  
+  for (const [index, region] of regions.entries()) {
+    const regionResults = await adapter.recognize(region.canvas, { signal: fullConfig.signal });
+    
+    // Filter results by confidence threshold and map boxes to the original image
+    const filteredResults = regionResults
+      .filter(result => result.confidence >= fullConfig.confidenceThreshold * 100)
+      .map(result => ({
+        ...recordSource(result, { engine: fullConfig.engine, preprocessing: 'number', tileId: region.id }),
+        bbox: tileBboxToImage(result.bbox, region)
+      }));
+    
+    // Add to results
+    results.push(...filteredResults);
+    fullConfig.onRegionDone?.(index + 1, regions.length);
   }
+  
+  // Post-process the results
+  return postProcessNumberResults(results, fullConfig);
 }
 
 /**
@@ -82,8 +114,8 @@ function postProcessNumberResults(
   results: DetectedText[],
   config: NumberDetectionConfig
 ): DetectedText[] {
-  // Remove duplicates
-  const uniqueResults = removeDuplicateNumbers(results);
+  // Fuse overlapping reads (the regions overlap); repeated numbers elsewhere are kept
+  const uniqueResults = mergeOverlappingDetections(results);
   
   // Apply regex validation if enabled
   if (config.useRegexValidation) {
@@ -93,23 +125,6 @@ function postProcessNumberResults(
   return uniqueResults;
 }
 
-/**
- * Remove duplicate number detections
- */
-function removeDuplicateNumbers(results: DetectedText[]): DetectedText[] {
-  const uniqueMap = new Map<string, DetectedText>();
-  
-  for (const result of results) {
-    const key = result.text;
-    
-    if (!uniqueMap.has(key) || uniqueMap.get(key)!.confidence < result.confidence) {
-      uniqueMap.set(key, result);
-    }
-  }
-  
-  return Array.from(uniqueMap.values());
-}
-
 /**
  * Apply regex validation to number results
  */
@@ -120,92 +135,77 @@ function applyRegexValidation(results: DetectedText[]): DetectedText[] {
     
     // Check if it's a valid cadastral number format
     return cleaned.length > 0 && /^[0-9]{1,3}$/.test(cleaned);
-  }).map(result => ({
-    ...result,
-    text: result.text.replace(/[^0-9]/g, '') // Clean the text
-  }));
+  }).map(result =>
+    // Clean the text
+    recordCorrection(result, 'regex-validation', result.text.replace(/[^0-9]/g, ''), result.confidence)
+  );
 }
 
-/**
- * Simulate PaddleOCR results for numbers (for demonstration purposes)
- */
-function simulatePaddleOCRForNumbers(base64: string): DetectedText[] {
-  // In a real implementation, we would call PaddleOCR here
-  // For this example, we'll return simulated results with known cadastral numbers
-  
-  const results: DetectedText[] = [];
-  
-  // Add known cadastral numbers with high confidence
-  for (let i = 0; i < 5; i++) {
-    const randomIndex = Math.floor(Math.random() * KNOWN_NUMBERS.length);
-    const number = KNOWN_NUMBERS[randomIndex];
-    
-    results.push({
-      text: number,
-      confidence: 85 + Math.random() * 15, // 85-100% confidence
-      type: 'number',
-      bbox: {
-        x0: Math.random() * 100,
-        y0: Math.random() * 100,
-        x1: Math.random() * 100 + 100,
-        y1: Math.random() * 100 + 100
-      }
-    });
-  }
-  
-  return results;
+// Verification status of a detected number against the known survey numbers
+export type NumberVerificationStatus = 'exact' | 'near' | 'unknown';
+
+// Verification annotation for one detected number
+export interface NumberVerification {
+  number: string;
+  status: NumberVerificationStatus;
+  candidate?: string;   // Closest known number for near matches
+  difference?: number;  // Numeric distance to the candidate
+}
+
+// Verification configuration
+interface NumberVerificationConfig {
+  nearTolerance: number; // Maximum numeric distance for a near match
 }
 
+const DEFAULT_VERIFICATION_CONFIG: NumberVerificationConfig = {
+  nearTolerance: 5
+};
+
 /**
- * Verify detected numbers against known cadastral numbers
+ * Annotate detected numbers against known cadastral numbers
+ *
+ * Each number is reported as an exact match, a near match (with the known
+ * number it is close to) or unknown. The detected numbers themselves are
+ * never changed and no known number is ever added.
  */
-export function verifyDetectedNumbers(numbers: string[]): string[] {
-  const verifiedNumbers: string[] = [];
+export function verifyDetectedNumbers(
+  numbers: string[],
+  config: Partial<NumberVerificationConfig> = {}
+): NumberVerification[] {
+  const fullConfig = { ...DEFAULT_VERIFICATION_CONFIG, ...config };
   
-  // First, add all exact matches
-  for (const number of numbers) {
+  return numbers.map((number): NumberVerification => {
     if (KNOWN_NUMBERS.includes(number)) {
-      verifiedNumbers.push(number);
+      return { number, status: 'exact' };
     }
-  }
-  
-  // Then, check for close matches for remaining numbers
-  for (const number of numbers) {
-    if (!verifiedNumbers.includes(number)) {
-      // Check for off-by-one errors
-      const closestMatch = findClosestNumber(number, KNOWN_NUMBERS);
-      if (closestMatch) {
-        verifiedNumbers.push(closestMatch);
-      } else {
-        // If no close match, keep the original
-        verifiedNumbers.push(number);
-      }
-    }
-  }
-  
-  // Ensure all known numbers are included
-  for (const known of KNOWN_NUMBERS) {
-    if (!verifiedNumbers.includes(known)) {
-      // Check if we have a similar number already
-      const similar = verifiedNumbers.find(num => {
-        return Math.abs(parseInt(num) - parseInt(known)) <= 5;
-      });
-      
-      if (!similar) {
-        // Add the known number if no similar number exists
-        verifiedNumbers.push(known);
-      }
+    
+    const closestMatch = findClosestNumber(number, KNOWN_NUMBERS, fullConfig.nearTolerance);
+    if (closestMatch) {
+      return {
+        number,
+        status: 'near',
+        candidate: closestMatch,
+        difference: Math.abs(parseInt(number) - parseInt(closestMatch))
+      };
     }
-  }
-  
-  // Remove duplicates and sort
-  return [...new Set(verifiedNumbers)].sort((a, b) => parseInt(a) - parseInt(b));
+    
+    return { number, status: 'unknown' };
+  });
+}
+
+/**
+ * Describe the verification of a number: 'exact', 'near <candidate>' or 'unknown'
+ */
+export function describeVerification(verification: NumberVerification | undefined): string {
+  if (!verification || verification.status === 'unknown') return 'unknown';
+  if (verification.status === 'exact') return 'exact';
+  return `near ${verification.candidate}`;
 }
 
 /**
  * Find the closest match for a number in a list of known numbers
  */
-function findClosestNumber(number: string, knownNumbers: string[]): string | null {
+function findClosestNumber(number: string, knownNumbers: string[], tolerance: number): string | null {
   // If the number is not numeric, return null
   if (!/^\d+$/.test(number)) return null;
   
@@ -218,7 +218,7 @@ function findClosestNumber(number: string, knownNumbers: string[]): string | nul
     const difference = Math.abs(num - knownNum);
     
     // If the difference is small enough and smaller than current minimum
-    if (difference <= 5 && difference < minDifference) {
+    if (difference <= tolerance && difference < minDifference) {
       minDifference = difference;
       closestMatch = known;
     }
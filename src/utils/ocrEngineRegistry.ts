@@ -0,0 +1,172 @@
+/**
+ * OCR Engine Registry
+ *
+ * Defines the adapter contract every OCR engine implements and a registry
+ * the pipelines use to look engines up by id. The engine flags in the
+ * pipeline configs (usePaddleOCR, useTrOCR, ...) resolve to registered
+ * adapters; an enabled flag without a registered adapter is an error.
+ */
+
+import { DetectedText } from './advancedOCR';
+import { Canvas, canvasToDataURL } from './canvas';
+
+// Engine slots known to the pipelines
+export type OCREngineId = 'paddleocr' | 'easyocr' | 'tesseract' | 'trocr' | 'layoutlm';
+
+// Image handed to an adapter: a canvas (DOM or offscreen) or a base64 string (raw or data URL)
+export type OCREngineImage = Canvas | string;
+
+// Per-call options (adapters ignore the ones they do not support)
+export interface OCREngineOptions {
+  psm?: number;                     // Tesseract page segmentation mode
+  useAngleClassification?: boolean; // PaddleOCR text direction classifier
+  signal?: AbortSignal;             // Aborts the request when the run is cancelled
+}
+
+// Contract implemented by every OCR engine
+export interface OCREngineAdapter {
+  name: string;
+  recognize(image: OCREngineImage, options?: OCREngineOptions): Promise<DetectedText[]>;
+  terminate?(): Promise<void>;
+}
+
+// Mapping of pipeline config flags to engine slots
+export const ENGINE_FLAGS = {
+  usePaddleOCR: 'paddleocr',
+  useEasyOCR: 'easyocr',
+  useTesseract: 'tesseract',
+  useTrOCR: 'trocr',
+  useLayoutLM: 'layoutlm'
+} as const satisfies Record<string, OCREngineId>;
+
+export type EngineFlag = keyof typeof ENGINE_FLAGS;
+
+/**
+ * Raised when a pipeline asks for an engine nobody registered
+ */
+export class OCREngineNotRegisteredError extends Error {
+  readonly engineId: OCREngineId;
+
+  constructor(engineId: OCREngineId) {
+    super(`No OCR engine registered for '${engineId}'. Register an adapter with registerOCREngine() or disable the engine.`);
+    this.name = 'OCREngineNotRegisteredError';
+    this.engineId = engineId;
+  }
+}
+
+const registry = new Map<OCREngineId, OCREngineAdapter>();
+
+/**
+ * Register (or replace) the adapter for an engine slot
+ */
+export function registerOCREngine(id: OCREngineId, adapter: OCREngineAdapter): void {
+  registry.set(id, adapter);
+  console.log(`Registered OCR engine '${id}' (${adapter.name})`);
+}
+
+/**
+ * Remove the adapter for an engine slot
+ */
+export async function unregisterOCREngine(id: OCREngineId): Promise<void> {
+  const adapter = registry.get(id);
+  registry.delete(id);
+  await adapter?.terminate?.();
+}
+
+/**
+ * Check whether an adapter is registered for an engine slot
+ */
+export function isOCREngineRegistered(id: OCREngineId): boolean {
+  return registry.has(id);
+}
+
+/**
+ * List the engine slots that currently have an adapter
+ */
+export function listRegisteredOCREngines(): OCREngineId[] {
+  return Array.from(registry.keys());
+}
+
+/**
+ * Look up the adapter for an engine slot
+ * @throws OCREngineNotRegisteredError if no adapter is registered
+ */
+export function getOCREngine(id: OCREngineId): OCREngineAdapter {
+  const adapter = registry.get(id);
+  if (!adapter) {
+    throw new OCREngineNotRegisteredError(id);
+  }
+  return adapter;
+}
+
+/**
+ * Resolve the enabled engine flags of a pipeline config to adapters
+ * @throws OCREngineNotRegisteredError if an enabled engine has no adapter
+ * @throws Error if no engine is enabled at all
+ */
+export function resolveEnabledEngines(
+  config: Partial<Record<EngineFlag, boolean>>
+): Array<{ id: OCREngineId; adapter: OCREngineAdapter }> {
+  const engines: Array<{ id: OCREngineId; adapter: OCREngineAdapter }> = [];
+
+  for (const [flag, id] of Object.entries(ENGINE_FLAGS) as Array<[EngineFlag, OCREngineId]>) {
+    if (config[flag]) {
+      engines.push({ id, adapter: getOCREngine(id) });
+    }
+  }
+
+  if (engines.length === 0) {
+    throw new Error('No OCR engine enabled in the pipeline configuration');
+  }
+
+  return engines;
+}
+
+/**
+ * Engine flags for every registered engine (for "use whatever is available" configs)
+ */
+export function registeredEngineFlags(): Record<EngineFlag, boolean> {
+  const flags = {} as Record<EngineFlag, boolean>;
+  for (const [flag, id] of Object.entries(ENGINE_FLAGS) as Array<[EngineFlag, OCREngineId]>) {
+    flags[flag] = registry.has(id);
+  }
+  return flags;
+}
+
+/**
+ * Build a DetectedText from an engine read, classifying it as number or text
+ * Returns null for reads that are empty after trimming
+ */
+export function toDetectedText(
+  text: string,
+  confidence: number,
+  bbox: DetectedText['bbox']
+): DetectedText | null {
+  const cleanText = text.trim();
+  if (cleanText.length === 0) return null;
+
+  return {
+    text: cleanText,
+    confidence,
+    bbox,
+    type: /^\d+$/.test(cleanText) ? 'number' : 'character'
+  };
+}
+
+/**
+ * Convert an engine image to a data URL
+ */
+export async function toDataURL(image: OCREngineImage): Promise<string> {
+  if (typeof image !== 'string') {
+    return canvasToDataURL(image);
+  }
+  return image.startsWith('data:') ? image : `data:image/png;base64,${image}`;
+}
+
+/**
+ * Convert an engine image to raw base64 (no data URL prefix)
+ */
+export async function toBase64(image: OCREngineImage): Promise<string> {
+  const dataURL = await toDataURL(image);
+  return dataURL.substring(dataURL.indexOf(',') + 1);
+}
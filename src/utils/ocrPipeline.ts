@@ -0,0 +1,569 @@
+/**
+ * OCR Pipelines
+ *
+ * The cadastral map OCR pipelines, built from the stages of
+ * pipelineDefinition.ts and selectable by name:
+ * - 'combined': map-specialized OCR plus tiled multi-engine OCR (default)
+ * - 'map-specialized': TrOCR / LayoutLMv3 / PaddleOCR / Tesseract on the whole sheet
+ * - 'tile-multi-engine': multi-engine OCR on preprocessed, overlapping tiles
+ * All of them add the number region pass and re-read labels that run at
+ * an angle rectified (see textOrientation.ts). Unless disabled, the
+ * preprocess stage first measures the image quality and picks the
+ * preprocessing preset that suits it (see imageQuality.ts). The stages
+ * only use canvas helpers that work without a DOM, so pipelines run the
+ * same on the main thread and in the pipeline worker (see
+ * ocrPipelineWorker.ts).
+ */
+
+import { DetectedText } from './advancedOCR';
+import { CADASTRAL_PLACE_NAMES } from './cadastralDictionary';
+import { batchExpandTexts } from './geminiExpander';
+import { recognizeNumberRegions, verifyDetectedNumbers } from './numberDetection';
+import { extractNumberRegions } from './enhancedPreprocessing';
+import { removeDuplicates } from './blackTextExtraction';
+import { createOptimizedVersions } from './improvedPreprocessing';
+import { assessImageQuality, presetConfigs } from './imageQuality';
+import { processTilesWithMultipleEngines, processWithMultipleEngines } from './multiEngineOCRImproved';
+import { processWithMapOCR } from './mapSpecializedOCR';
+import { mergeOverlappingDetections } from './detectionMerging';
+import { registeredEngineFlags, toBase64 } from './ocrEngineRegistry';
+import { checkExpectedTerms, parseExpectedTerms } from './expectedTerms';
+import { SourceImage, canvasToDataURL, imageDataToCanvas, imageToCanvas, readImageData } from './canvas';
+import { BBox, bboxIoU, pointsBbox, rotatedBoxCorners } from './geometry';
+import { detectTextRegions } from './textRegionDetection';
+import { recordCorrection, recordSource } from './provenance';
+import {
+  DEFAULT_CONFIG as DEFAULT_ORIENTATION_CONFIG,
+  estimateOrientation,
+  needsRectification,
+  rectifiedBboxToImage,
+  rectifyRegion
+} from './textOrientation';
+import {
+  CorrectedResults,
+  DetectedRegions,
+  OCRResult,
+  PipelineCallbacks,
+  PipelineConfig,
+  PipelineContext,
+  PipelineDefinition,
+  PipelineStage,
+  PreprocessedImage,
+  RecognitionPass,
+  VerifiedResults,
+  runPipeline
+} from './pipelineDefinition';
+
+// A recognition pass run inside the recognize stage (after the passes in `previous`)
+type RecognitionStep = (
+  regions: DetectedRegions,
+  context: PipelineContext,
+  previous: RecognitionPass[]
+) => Promise<RecognitionPass>;
+
+// Options for one pipeline run
+export interface OCRPipelineOptions {
+  pipeline?: string;                // Name of the pipeline (DEFAULT_PIPELINE if omitted)
+  config?: Partial<PipelineConfig>; // Overrides of the pipeline config
+  expectedTerms?: string;           // User's expected-terms checklist (one per line or comma separated)
+  page?: number;                    // PDF page the image was rendered from
+}
+
+// Callbacks for progress, stage changes and the partial results of each pass
+export type OCRPipelineCallbacks = PipelineCallbacks;
+
+/**
+ * Measure the image quality and apply the preset it chooses to the
+ * preprocessing configs of the run (when autoPreprocessing is enabled)
+ */
+function applyQualityPreset(image: SourceImage, context: PipelineContext): void {
+  if (!context.config.autoPreprocessing) {
+    context.reportSkipped('image-quality', 'Automatic preprocessing is turned off');
+    return;
+  }
+  const assessment = assessImageQuality(image);
+  context.sheet.quality = assessment;
+  context.config = { ...context.config, ...presetConfigs(assessment, context.config) };
+}
+
+// Preprocess: leave the image to passes that preprocess it themselves
+const passThroughStage: PipelineStage<SourceImage, PreprocessedImage> = {
+  label: 'Preparing image',
+  weight: 1,
+  run: async (image, context) => {
+    applyQualityPreset(image, context);
+    return { image, textTiles: [], numberTiles: [] };
+  }
+};
+
+// Preprocess: upscaled, contrast-enhanced, thresholded tiles for text and numbers,
+// with the preset chosen from the measured image quality
+const tilePreprocessStage: PipelineStage<SourceImage, PreprocessedImage> = {
+  label: 'Preprocessing image tiles',
+  weight: 5,
+  run: async (image, context) => {
+    applyQualityPreset(image, context);
+    const { textTiles, numberTiles } = createOptimizedVersions(
+      image,
+      context.config.textPreprocessing,
+      context.config.numberPreprocessing
+    );
+    return { image, textTiles, numberTiles };
+  }
+};
+
+// Detect: regions likely to hold survey numbers
+const numberRegionStage: PipelineStage<PreprocessedImage, DetectedRegions> = {
+  label: 'Detecting number regions',
+  weight: 2,
+  run: async (prepared, context) => ({
+    ...prepared,
+    numberRegions: extractNumberRegions(prepared.image, context.config.numberRegionPreprocessing)
+  })
+};
+
+/**
+ * Recognize: run the given passes in order, one share of the stage each
+ */
+function recognizeStage(steps: RecognitionStep[]): PipelineStage<DetectedRegions, RecognitionPass[]> {
+  return {
+    label: 'Recognizing text',
+    weight: 55,
+    run: async (regions, context) => {
+      const passes: RecognitionPass[] = [];
+      for (const [index, step] of steps.entries()) {
+        context.signal?.throwIfAborted();
+        // Work reported by the pass also moves the stage's progress through its share
+        const passContext: PipelineContext = {
+          ...context,
+          reportWork: work => {
+            context.reportWork(work);
+            context.reportProgress((index + (work.total > 0 ? work.done / work.total : 0)) / steps.length);
+          }
+        };
+        const pass = await step(regions, passContext, passes);
+        context.emitPartial(pass.name, pass.results);
+        passes.push(pass);
+        context.reportProgress((index + 1) / steps.length);
+        context.reportWork({ task: 'recognition passes', done: index + 1, total: steps.length, unit: 'passes', engine: pass.name });
+      }
+      return passes;
+    }
+  };
+}
+
+// Map-specialized OCR (TrOCR, LayoutLMv3, fine-tuned PaddleOCR, Tesseract) on the whole sheet
+const mapSpecializedPass: RecognitionStep = async (regions, context) => {
+  console.log('Processing with TrOCR, LayoutLMv3, and fine-tuned PaddleOCR...');
+  let lineLayer: ImageData | undefined;
+  const results = await processWithMapOCR(regions.image, {
+    // Use every registered OCR engine
+    ...registeredEngineFlags(),
+    confidenceThreshold: context.config.confidenceThreshold,
+    ...context.config.map,
+    signal: context.signal,
+    onSkewDetected: (skew, corrected) => {
+      context.sheet.skewAngle = skew.angle;
+      context.sheet.skewConfidence = skew.confidence;
+      context.sheet.deskewed = corrected;
+    },
+    onLineLayer: lines => {
+      lineLayer = lines;
+    }
+  }, progress => context.reportWork({ task: 'map-specialized', done: Math.round(progress), total: 100, unit: '%' }));
+  if (lineLayer) {
+    context.sheet.lineLayer = await canvasToDataURL(imageDataToCanvas(lineLayer));
+  }
+  return { name: 'map-specialized', kind: 'mixed', results };
+};
+
+// Multi-engine OCR on the text tiles
+const textTilePass: RecognitionStep = async (regions, context) => {
+  console.log('Processing text tiles with multiple OCR engines...');
+  const engines = registeredEngineFlags();
+  const results = await processTilesWithMultipleEngines(regions.textTiles, {
+    usePaddleOCR: engines.usePaddleOCR,
+    useEasyOCR: engines.useEasyOCR,
+    useTesseract: engines.useTesseract,
+    confidenceThreshold: context.config.confidenceThreshold,
+    ...context.config.textTiles,
+    signal: context.signal,
+    onTileDone: (done, total, engines) =>
+      context.reportWork({ task: 'text-tiles', done, total, unit: 'tiles', engine: engines.join(', ') })
+  });
+  return { name: 'text-tiles', kind: 'text', results };
+};
+
+// Multi-engine OCR on the number tiles
+const numberTilePass: RecognitionStep = async (regions, context) => {
+  console.log('Processing number tiles with specialized settings...');
+  const engines = registeredEngineFlags();
+  const results = await processTilesWithMultipleEngines(regions.numberTiles, {
+    usePaddleOCR: engines.usePaddleOCR,
+    useEasyOCR: engines.useEasyOCR,
+    useTesseract: engines.useTesseract,
+    confidenceThreshold: context.config.confidenceThreshold,
+    ...context.config.numberTiles,
+    signal: context.signal,
+    onTileDone: (done, total, engines) =>
+      context.reportWork({ task: 'number-tiles', done, total, unit: 'tiles', engine: engines.join(', ') })
+  });
+  return { name: 'number-tiles', kind: 'number', results };
+};
+
+// Specialized number detection on the number regions
+const numberRegionPass: RecognitionStep = async (regions, context) => {
+  console.log('Reading number regions...');
+  const engine = context.config.numbers.engine ?? (registeredEngineFlags().usePaddleOCR ? 'paddleocr' : 'tesseract');
+  const results = await recognizeNumberRegions(regions.numberRegions, {
+    engine,
+    confidenceThreshold: context.config.confidenceThreshold,
+    ...context.config.numbers,
+    signal: context.signal,
+    onRegionDone: (done, total) =>
+      context.reportWork({ task: 'number-detection', done, total, unit: 'regions', engine })
+  });
+  return { name: 'number-detection', kind: 'number', results };
+};
+
+// Rotated labels: measure the orientation of the labels read by earlier
+// passes and of the glyph clusters on the sheet (labels at an angle that no
+// upright pass read), then cut the tilted ones out level and read them again
+const orientedLabelPass: RecognitionStep = async (regions, context, previous) => {
+  const config = { ...DEFAULT_ORIENTATION_CONFIG, ...context.config.orientation };
+  if (!config.enabled) {
+    context.reportSkipped('oriented-labels', 'Label orientation is turned off');
+    return { name: 'oriented-labels', kind: 'mixed', results: [] };
+  }
+
+  console.log('Measuring label orientations...');
+  const source = imageToCanvas(regions.image);
+  const pixels = readImageData(source);
+  const engines = registeredEngineFlags();
+  const results: DetectedText[] = [];
+  // Clusters of two or more glyphs; a lone glyph has no measurable direction,
+  // and a large cluster is stacked lines whose principal axis means nothing
+  const clusters = detectTextRegions(pixels, { groupBy: 'cluster' })
+    .filter(region => region.components >= 2 && region.components <= config.maxClusterGlyphs)
+    .sort((a, b) => b.confidence - a.confidence);
+  const reads = previous.flatMap(pass => pass.results).sort((a, b) => b.confidence - a.confidence);
+  // Alternate the two, so that neither list crowds the other out of maxRegions
+  const candidates = interleave(reads.map(read => read.bbox), clusters.map(cluster => cluster.bbox));
+  const boxes = distinctBoxes(candidates, config.maxRegions);
+
+  for (const [index, region] of boxes.entries()) {
+    context.signal?.throwIfAborted();
+    context.reportWork({ task: 'oriented-labels', done: index, total: boxes.length, unit: 'labels' });
+    const orientation = estimateOrientation(pixels, region, config.padding);
+    if (!orientation || !needsRectification(orientation, config)) continue;
+
+    const rectified = rectifyRegion(source, orientation.box, config.padding);
+    const reads = await processWithMultipleEngines(await toBase64(rectified), {
+      usePaddleOCR: engines.usePaddleOCR,
+      useEasyOCR: engines.useEasyOCR,
+      useTesseract: engines.useTesseract,
+      confidenceThreshold: context.config.confidenceThreshold,
+      ...context.config.textTiles,
+      preprocessing: 'rectified',
+      signal: context.signal
+    });
+
+    // Boxes on the level crop become rotated boxes on the sheet
+    for (const read of reads) {
+      const rotatedBox = rectifiedBboxToImage(read.bbox, orientation.box, rectified);
+      const polygon = rotatedBoxCorners(rotatedBox);
+      results.push({
+        ...recordSource(read, { angle: orientation.angle }),
+        bbox: pointsBbox(polygon),
+        rotatedBox,
+        polygon
+      });
+    }
+  }
+
+  context.reportWork({ task: 'oriented-labels', done: boxes.length, total: boxes.length, unit: 'labels' });
+  console.log(`Re-read ${results.length} rotated labels`);
+  return { name: 'oriented-labels', kind: 'mixed', results: mergeOverlappingDetections(results) };
+};
+
+/**
+ * Items of two lists taken in turn, starting with the first list
+ */
+function interleave<T>(first: T[], second: T[]): T[] {
+  const items: T[] = [];
+  for (let index = 0; index < Math.max(first.length, second.length); index++) {
+    if (index < first.length) items.push(first[index]);
+    if (index < second.length) items.push(second[index]);
+  }
+  return items;
+}
+
+/**
+ * The given boxes in order, without near-duplicates of earlier ones
+ */
+function distinctBoxes(candidates: BBox[], limit: number): BBox[] {
+  const boxes: BBox[] = [];
+  for (const candidate of candidates) {
+    if (boxes.length >= limit) break;
+    if (!boxes.some(box => bboxIoU(box, candidate) >= 0.5)) {
+      boxes.push(candidate);
+    }
+  }
+  return boxes;
+}
+
+// Merge: keep confident reads and fuse overlapping reads from the different passes
+const mergeStage: PipelineStage<RecognitionPass[], DetectedText[]> = {
+  label: 'Merging results',
+  weight: 3,
+  run: async (passes, context) => {
+    const minConfidence = context.config.confidenceThreshold * 100;
+
+    // Character results (non-numeric text) from text and mixed passes
+    const characterResults = passes
+      .filter(pass => pass.kind !== 'number')
+      .flatMap(pass => pass.results)
+      .filter(result =>
+        result.type === 'character' &&
+        !/^\d+$/.test(result.text) &&
+        result.confidence > minConfidence
+      );
+
+    // Number results from number and mixed passes
+    const numberResults = passes
+      .filter(pass => pass.kind !== 'text')
+      .flatMap(pass => pass.kind === 'mixed'
+        ? pass.results.filter(result => result.type === 'number' || /^\d+$/.test(result.text))
+        : pass.results)
+      .filter(result => result.confidence > minConfidence && /^\d+$/.test(result.text));
+
+    return mergeOverlappingDetections([...characterResults, ...numberResults]);
+  }
+};
+
+// Correct: fuzzy matching and LLM-based correction of place names
+const correctionStage: PipelineStage<DetectedText[], CorrectedResults> = {
+  label: 'Correcting place names',
+  weight: 15,
+  run: async (detections, context) => {
+    const { config } = context;
+
+    // Place names long enough to correct (shorter reads are likely noise)
+    const isPlaceName = (item: DetectedText) => item.type === 'character' && item.text.trim().length >= 2;
+
+    // Get numbers, removing any non-numeric values
+    const numbers = detections
+      .filter(item => item.type === 'number')
+      .map(item => item.text.trim())
+      .filter(num => /^\d+$/.test(num));
+
+    console.log('Initial detected place names:', detections.filter(isPlaceName).map(item => item.text.trim()));
+    console.log('Initial detected numbers:', numbers);
+
+    // Apply fuzzy matching to place names, recorded on each read
+    console.log('Applying advanced fuzzy matching to place names...');
+    let corrected = detections.map(item => {
+      if (!isPlaceName(item)) return item;
+      const name = item.text.trim();
+
+      // Find closest match in known cadastral place names
+      let bestMatch = null;
+      let bestScore = 0;
+
+      for (const knownName of CADASTRAL_PLACE_NAMES) {
+        const score = calculateSimilarity(name.toLowerCase(), knownName.toLowerCase());
+
+        // Only accept high-confidence matches
+        if (score > config.fuzzyThreshold && score > bestScore) {
+          bestScore = score;
+          bestMatch = knownName;
+        }
+      }
+
+      // Use the matched name if found, otherwise keep original
+      return bestMatch ? recordCorrection(item, 'fuzzy-match', bestMatch, item.confidence) : item;
+    });
+    context.reportProgress(0.3);
+
+    // Apply LLM-based correction with Gemini API to short or unknown texts
+    const needsCorrection = (item: DetectedText) =>
+      isPlaceName(item) && (item.text.trim().length <= 4 || !CADASTRAL_PLACE_NAMES.includes(item.text.trim()));
+    const textsToCorrect = [...new Set(corrected.filter(needsCorrection).map(item => item.text.trim()))];
+
+    if (!config.useLLMCorrection) {
+      context.reportSkipped('llm-correction', 'LLM correction is turned off');
+    } else if (textsToCorrect.length > 0) {
+      try {
+        console.log('Using Gemini API for LLM-based correction...');
+        const correctedTexts = await batchExpandTexts(textsToCorrect);
+
+        // Replace texts with their corrected versions
+        corrected = corrected.map(item => {
+          const text = needsCorrection(item) ? correctedTexts[item.text.trim()] : undefined;
+          return text ? recordCorrection(item, 'llm', text, item.confidence) : item;
+        });
+      } catch (error) {
+        console.error('Error using Gemini API for correction:', error);
+        // Fall back to fuzzy matched names
+      }
+    }
+
+    const characters = corrected.filter(isPlaceName).map(item => item.text.trim());
+    console.log('Corrected place names:', characters);
+
+    // Remove duplicates from place names (fuzzy). Numbers were already
+    // deduplicated by position, so a number printed in two parcels stays twice
+    return {
+      detections: corrected,
+      characters: removeDuplicates(characters),
+      numbers: numbers.sort((a, b) => parseInt(a) - parseInt(b))
+    };
+  }
+};
+
+// Verify: annotate numbers against known cadastral numbers and check expected terms
+// (annotation only: numbers are never replaced or added)
+const verificationStage: PipelineStage<CorrectedResults, VerifiedResults> = {
+  label: 'Verifying numbers',
+  weight: 3,
+  run: async (corrected, context) => {
+    const expectedTerms = parseExpectedTerms(context.expectedTerms);
+
+    console.log('Final place names:', corrected.characters);
+    console.log('Final numbers:', corrected.numbers);
+
+    return {
+      ...corrected,
+      numberVerification: verifyDetectedNumbers(corrected.numbers),
+      expectedTerms: expectedTerms.length > 0 ? checkExpectedTerms(corrected.detections, expectedTerms) : undefined
+    };
+  }
+};
+
+// Export: assemble the result
+const exportStage: PipelineStage<VerifiedResults, OCRResult> = {
+  label: 'Building results',
+  weight: 1,
+  run: async (verified, context) => {
+    const { page } = context.sheet;
+    const detections = page !== undefined
+      ? verified.detections.map(detection => ({ ...detection, page }))
+      : verified.detections;
+
+    // Calculate average confidence from combined results
+    const avgConfidence = detections.length > 0
+      ? detections.reduce((sum, item) => sum + item.confidence, 0) / detections.length
+      : 0;
+
+    return {
+      characters: verified.characters,
+      numbers: verified.numbers,
+      processingTime: Date.now() - context.startTime,
+      confidence: Math.round(avgConfidence * 10) / 10,
+      detailedResults: detections,
+      numberVerification: verified.numberVerification,
+      expectedTerms: verified.expectedTerms
+    };
+  }
+};
+
+// Stages shared by every pipeline after recognition
+const postRecognitionStages = {
+  merge: mergeStage,
+  correct: correctionStage,
+  verify: verificationStage,
+  export: exportStage
+};
+
+// Available pipelines by name
+export const PIPELINES: Record<string, PipelineDefinition> = {
+  'combined': {
+    name: 'combined',
+    label: 'Map-specialized + tiles',
+    description: 'Map-specialized OCR on the whole sheet, backed up by multi-engine OCR on preprocessed tiles',
+    stages: {
+      preprocess: tilePreprocessStage,
+      detect: numberRegionStage,
+      recognize: recognizeStage([mapSpecializedPass, textTilePass, numberTilePass, numberRegionPass, orientedLabelPass]),
+      ...postRecognitionStages
+    }
+  },
+  'map-specialized': {
+    name: 'map-specialized',
+    label: 'Map-specialized',
+    description: 'TrOCR, LayoutLMv3, PaddleOCR and Tesseract on the whole sheet at every rotation',
+    stages: {
+      preprocess: passThroughStage,
+      detect: numberRegionStage,
+      recognize: recognizeStage([mapSpecializedPass, numberRegionPass, orientedLabelPass]),
+      ...postRecognitionStages
+    }
+  },
+  'tile-multi-engine': {
+    name: 'tile-multi-engine',
+    label: 'Tile multi-engine',
+    description: 'PaddleOCR, EasyOCR and Tesseract voting on upscaled, overlapping tiles',
+    stages: {
+      preprocess: tilePreprocessStage,
+      detect: numberRegionStage,
+      recognize: recognizeStage([textTilePass, numberTilePass, numberRegionPass, orientedLabelPass]),
+      ...postRecognitionStages
+    }
+  }
+};
+
+export const DEFAULT_PIPELINE = 'combined';
+
+/**
+ * List the available pipelines
+ */
+export function listPipelines(): PipelineDefinition[] {
+  return Object.values(PIPELINES);
+}
+
+/**
+ * Look up a pipeline by name
+ * @throws Error if no pipeline has that name
+ */
+export function getPipeline(name: string): PipelineDefinition {
+  const definition = PIPELINES[name];
+  if (!definition) {
+    throw new Error(`Unknown OCR pipeline '${name}'. Available pipelines: ${Object.keys(PIPELINES).join(', ')}`);
+  }
+  return definition;
+}
+
+/**
+ * Run the selected OCR pipeline on an image
+ * @throws DOMException named 'AbortError' when `signal` is aborted
+ */
+export function runOCRPipeline(
+  image: SourceImage,
+  options: OCRPipelineOptions = {},
+  callbacks: OCRPipelineCallbacks = {},
+  signal?: AbortSignal
+): Promise<OCRResult> {
+  return runPipeline(getPipeline(options.pipeline ?? DEFAULT_PIPELINE), image, {
+    config: options.config,
+    expectedTerms: options.expectedTerms,
+    page: options.page,
+    callbacks,
+    signal
+  });
+}
+
+/**
+ * Positional similarity used for place-name fuzzy matching
+ */
+function calculateSimilarity(str1: string, str2: string): number {
+  const maxLength = Math.max(str1.length, str2.length);
+  if (maxLength === 0) return 1.0;
+
+  let distance = 0;
+  for (let i = 0; i < Math.min(str1.length, str2.length); i++) {
+    if (str1[i] !== str2[i]) distance++;
+  }
+  distance += Math.abs(str1.length - str2.length);
+
+  return 1.0 - distance / maxLength;
+}
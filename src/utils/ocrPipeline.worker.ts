@@ -0,0 +1,53 @@
+/**
+ * OCR Pipeline Worker
+ *
+ * Worker side of ocrPipelineWorker.ts: registers the OCR engines for this
+ * thread (plus the ONNX models sent by the page), runs the pipeline on the
+ * transferred image and reports progress, partial results, pipeline events
+ * and the final result back to the page.
+ */
+
+import { registerDefaultOCREngines } from './defaultOCREngines';
+import { runOCRPipeline } from './ocrPipeline';
+import { registerOnnxOCREngine } from './onnxOCRAdapter';
+import { isAbortError, OCRPipelineMessage, OCRPipelineRequest } from './ocrPipelineWorker';
+
+registerDefaultOCREngines();
+
+let controller: AbortController | null = null;
+
+function post(message: OCRPipelineMessage): void {
+  self.postMessage(message);
+}
+
+self.onmessage = async (event: MessageEvent<OCRPipelineRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    controller?.abort();
+    return;
+  }
+
+  controller = new AbortController();
+  try {
+    if (request.onnxModels) {
+      await registerOnnxOCREngine(request.onnxModels);
+    }
+    const result = await runOCRPipeline(request.image, request.options, {
+      onProgress: progress => post({ type: 'progress', progress }),
+      onStage: (stage, label) => post({ type: 'stage', stage, label }),
+      onPartial: (pass, results) => post({ type: 'partial', pass, results }),
+      onEvent: event => post({ type: 'event', event })
+    }, controller.signal);
+    post({ type: 'done', result });
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+      aborted: isAbortError(error)
+    });
+  } finally {
+    request.image.close();
+    controller = null;
+  }
+};
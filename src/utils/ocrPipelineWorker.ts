@@ -0,0 +1,132 @@
+/**
+ * OCR Pipeline Worker Client
+ *
+ * Runs the OCR pipeline (ocrPipeline.ts) in a dedicated Web Worker so the
+ * pixel loops and canvas work of large scans do not freeze the page. The
+ * image is transferred as an ImageBitmap and drawn on OffscreenCanvas in
+ * the worker. Where workers or OffscreenCanvas are unavailable the pipeline
+ * runs on the main thread instead. ONNX models loaded on the page are sent
+ * along, since the worker has its own engine registry.
+ *
+ * Message protocol (one worker per run):
+ *   page -> worker: start { image, options, onnxModels? } | cancel
+ *   worker -> page: progress { progress } | stage { stage, label }
+ *                   | partial { pass, results } | event { event }
+ *                   | done { result } | error { message, aborted }
+ */
+
+import { DetectedText } from './advancedOCR';
+import { OCRPipelineCallbacks, OCRPipelineOptions, runOCRPipeline } from './ocrPipeline';
+import { OCRResult, PipelineEvent, PipelineStageName } from './pipelineDefinition';
+import { OnnxModelBytes, registeredOnnxAdapter } from './onnxOCRAdapter';
+
+// Messages sent to the worker
+export type OCRPipelineRequest =
+  | { type: 'start'; image: ImageBitmap; options: OCRPipelineOptions; onnxModels?: OnnxModelBytes }
+  | { type: 'cancel' };
+
+// Messages sent by the worker
+export type OCRPipelineMessage =
+  | { type: 'progress'; progress: number }
+  | { type: 'stage'; stage: PipelineStageName; label: string }
+  | { type: 'partial'; pass: string; results: DetectedText[] }
+  | { type: 'event'; event: PipelineEvent }
+  | { type: 'done'; result: OCRResult }
+  | { type: 'error'; message: string; aborted: boolean };
+
+/**
+ * Check whether an error is the result of cancelling a run
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+function abortError(): DOMException {
+  return new DOMException('OCR processing was cancelled', 'AbortError');
+}
+
+/**
+ * Check whether the pipeline can run in a worker in this browser
+ */
+export function canRunPipelineInWorker(): boolean {
+  return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined';
+}
+
+/**
+ * Run the OCR pipeline on an image file or a decoded bitmap (e.g. a
+ * rendered PDF page), in a worker when possible. A bitmap is handed over:
+ * it is transferred to the worker, or closed after a main-thread run.
+ * Aborting `signal` cancels the run, including pending engine requests
+ * @throws DOMException named 'AbortError' when cancelled
+ */
+export async function runOCRPipelineInWorker(
+  source: Blob | ImageBitmap,
+  options: OCRPipelineOptions = {},
+  callbacks: OCRPipelineCallbacks = {},
+  signal?: AbortSignal
+): Promise<OCRResult> {
+  if (signal?.aborted && source instanceof ImageBitmap) source.close();
+  signal?.throwIfAborted();
+  const image = source instanceof ImageBitmap ? source : await createImageBitmap(source);
+
+  if (!canRunPipelineInWorker()) {
+    console.warn('Web Workers with OffscreenCanvas are not available; running OCR on the main thread');
+    try {
+      return await runOCRPipeline(image, options, callbacks, signal);
+    } finally {
+      image.close();
+    }
+  }
+
+  const worker = new Worker(new URL('./ocrPipeline.worker.ts', import.meta.url), { type: 'module' });
+
+  return new Promise<OCRResult>((resolve, reject) => {
+    const finish = () => {
+      signal?.removeEventListener('abort', cancel);
+      worker.terminate();
+    };
+
+    // Ask the worker to abort, then stop it: terminating also drops its
+    // pending engine requests and the Tesseract workers it started
+    const cancel = () => {
+      worker.postMessage({ type: 'cancel' } satisfies OCRPipelineRequest);
+      finish();
+      reject(abortError());
+    };
+    signal?.addEventListener('abort', cancel);
+
+    worker.onmessage = (event: MessageEvent<OCRPipelineMessage>) => {
+      const message = event.data;
+      switch (message.type) {
+        case 'progress':
+          callbacks.onProgress?.(message.progress);
+          break;
+        case 'stage':
+          callbacks.onStage?.(message.stage, message.label);
+          break;
+        case 'partial':
+          callbacks.onPartial?.(message.pass, message.results);
+          break;
+        case 'event':
+          callbacks.onEvent?.(message.event);
+          break;
+        case 'done':
+          finish();
+          resolve(message.result);
+          break;
+        case 'error':
+          finish();
+          reject(message.aborted ? abortError() : new Error(message.message));
+          break;
+      }
+    };
+
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(`OCR worker failed: ${event.message}`));
+    };
+
+    const onnxModels = registeredOnnxAdapter()?.models;
+    worker.postMessage({ type: 'start', image, options, onnxModels } satisfies OCRPipelineRequest, [image]);
+  });
+}
@@ -0,0 +1,405 @@
+/**
+ * ONNX Runtime OCR Models
+ *
+ * Runs user-supplied OCR models on the CPU with onnxruntime-web (WASM):
+ * - a DBNet-style detector: the image goes in normalized, a text
+ *   probability map comes out; the map is thresholded, each connected
+ *   region is scored by its mean probability and its box is grown back
+ *   by the unclip distance (DBNet shrinks text kernels during training)
+ * - a CRNN / PaddleOCR-rec-style recognizer: a text line scaled to a fixed
+ *   height goes in, per-timestep class probabilities come out and are
+ *   turned into text by greedy CTC decoding with the character dictionary
+ *
+ * Both are wrapped in an OCR engine adapter registered in the 'trocr' slot,
+ * so the useTrOCR flags of the pipelines (and AdvancedTextDetector's
+ * useDBNet / useTrOCR) select them. Without a detection model the adapter
+ * finds lines with the connected-component detector instead.
+ *
+ * Models and dictionary are loaded from local files as bytes; the bytes
+ * are kept so the pipeline worker can load the same models.
+ */
+
+import * as ort from 'onnxruntime-web/wasm';
+import { DetectedText } from './advancedOCR';
+import { BBox } from './geometry';
+import { imageToCanvas, readImageData } from './canvas';
+import { crop, resize } from './imageOperators';
+import { detectTextRegions, labelComponents } from './textRegionDetection';
+import {
+  OCREngineAdapter,
+  OCREngineImage,
+  OCREngineOptions,
+  getOCREngine,
+  isOCREngineRegistered,
+  registerOCREngine,
+  toDataURL,
+  toDetectedText
+} from './ocrEngineRegistry';
+
+// Configuration for the detection model (DBNet post-processing as in PaddleOCR)
+export interface OnnxDetectionConfig {
+  maxSide: number;                      // Longest side of the model input; both sides are rounded to multiples of 32
+  mean: [number, number, number];       // Per-channel normalization, in input channel order
+  std: [number, number, number];
+  channelOrder: 'rgb' | 'bgr';          // PaddleOCR models are trained on BGR input
+  binaryThreshold: number;              // Probability above which a pixel is text
+  boxThreshold: number;                 // Mean probability below which a region is dropped
+  unclipRatio: number;                  // Growth of a region: area * ratio / perimeter pixels per side
+  minSize: number;                      // Regions with a shorter side (model pixels) are dropped
+}
+
+// Configuration for the recognition model
+export interface OnnxRecognitionConfig {
+  inputHeight: number;                  // 48 for PaddleOCR v3+ rec models, 32 for classic CRNN
+  maxWidth: number;                     // Wider lines are squeezed to this width
+  mean: [number, number, number];
+  std: [number, number, number];
+  channelOrder: 'rgb' | 'bgr';
+  useSpaceChar: boolean;                // Append ' ' to the dictionary (PaddleOCR use_space_char)
+  applySoftmax: boolean;                // The model outputs logits rather than probabilities
+}
+
+// Configuration for the ONNX runtime
+export interface OnnxRuntimeConfig {
+  numThreads: number;                   // WASM threads (1 = no SharedArrayBuffer needed)
+  detection: Partial<OnnxDetectionConfig>;
+  recognition: Partial<OnnxRecognitionConfig>;
+}
+
+// Default configurations
+export const DEFAULT_DETECTION_CONFIG: OnnxDetectionConfig = {
+  maxSide: 960,
+  mean: [0.485, 0.456, 0.406],
+  std: [0.229, 0.224, 0.225],
+  channelOrder: 'bgr',
+  binaryThreshold: 0.3,
+  boxThreshold: 0.6,
+  unclipRatio: 1.5,
+  minSize: 3
+};
+
+export const DEFAULT_RECOGNITION_CONFIG: OnnxRecognitionConfig = {
+  inputHeight: 48,
+  maxWidth: 960,
+  mean: [0.5, 0.5, 0.5],
+  std: [0.5, 0.5, 0.5],
+  channelOrder: 'bgr',
+  useSpaceChar: true,
+  applySoftmax: false
+};
+
+export const DEFAULT_CONFIG: OnnxRuntimeConfig = {
+  numThreads: 1,
+  detection: {},
+  recognition: {}
+};
+
+// Model files as loaded from disk
+export interface OnnxModelBytes {
+  detection?: ArrayBuffer;   // DBNet-style detection model (optional)
+  recognition: ArrayBuffer;  // CRNN-style recognition model
+  dictionary: string;        // One character per line
+}
+
+// A box found by the detection model, in image pixels
+export interface DetectedBox {
+  bbox: BBox;
+  score: number; // Mean text probability inside the region (0-1)
+}
+
+// A line read by the recognition model
+export interface RecognizedLine {
+  text: string;
+  confidence: number; // Mean probability of the decoded characters (0-1)
+}
+
+/**
+ * Raised when a model cannot be loaded or returns an unexpected output
+ */
+export class OnnxModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OnnxModelError';
+  }
+}
+
+/**
+ * Create an inference session on the WASM (CPU) backend
+ */
+async function createSession(model: ArrayBuffer, label: string, numThreads: number): Promise<ort.InferenceSession> {
+  ort.env.wasm.numThreads = numThreads;
+  try {
+    // The runtime may take over the buffer, so the kept bytes are copied
+    return await ort.InferenceSession.create(new Uint8Array(model.slice(0)), { executionProviders: ['wasm'] });
+  } catch (error) {
+    throw new OnnxModelError(`Could not load the ${label} model: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * Normalize an image into a 1 x 3 x H x W float tensor
+ */
+function toTensor(image: ImageData, config: { mean: number[]; std: number[]; channelOrder: 'rgb' | 'bgr' }): ort.Tensor {
+  const { width, height, data } = image;
+  const plane = width * height;
+  const tensor = new Float32Array(3 * plane);
+  const channels = config.channelOrder === 'bgr' ? [2, 1, 0] : [0, 1, 2];
+
+  for (let p = 0; p < plane; p++) {
+    for (let c = 0; c < 3; c++) {
+      tensor[c * plane + p] = (data[p * 4 + channels[c]] / 255 - config.mean[c]) / config.std[c];
+    }
+  }
+  return new ort.Tensor('float32', tensor, [1, 3, height, width]);
+}
+
+/**
+ * DBNet-style text detector
+ */
+export class OnnxDBNetDetector {
+  private config: OnnxDetectionConfig;
+
+  constructor(private session: ort.InferenceSession, config: Partial<OnnxDetectionConfig> = {}) {
+    this.config = { ...DEFAULT_DETECTION_CONFIG, ...config };
+  }
+
+  static async load(model: ArrayBuffer, config: Partial<OnnxRuntimeConfig> = {}): Promise<OnnxDBNetDetector> {
+    const fullConfig = { ...DEFAULT_CONFIG, ...config };
+    return new OnnxDBNetDetector(await createSession(model, 'detection', fullConfig.numThreads), fullConfig.detection);
+  }
+
+  /**
+   * Find text boxes in an image
+   */
+  async detect(image: ImageData): Promise<DetectedBox[]> {
+    const scale = Math.min(1, this.config.maxSide / Math.max(image.width, image.height));
+    const inputWidth = Math.max(32, Math.round((image.width * scale) / 32) * 32);
+    const inputHeight = Math.max(32, Math.round((image.height * scale) / 32) * 32);
+    const input = resize(image, { width: inputWidth, height: inputHeight });
+
+    const outputs = await this.session.run({ [this.session.inputNames[0]]: toTensor(input, this.config) });
+    const output = outputs[this.session.outputNames[0]];
+    const [mapHeight, mapWidth] = output.dims.slice(-2);
+    if (mapWidth * mapHeight !== output.data.length) {
+      throw new OnnxModelError(`Detection model returned a ${output.dims.join('x')} output; expected a 1-channel probability map`);
+    }
+
+    const boxes = probabilityMapBoxes(output.data as Float32Array, mapWidth, mapHeight, this.config);
+    const sx = image.width / mapWidth;
+    const sy = image.height / mapHeight;
+    return boxes.map(({ bbox, score }) => ({
+      score,
+      bbox: {
+        x0: Math.max(0, Math.round(bbox.x0 * sx)),
+        y0: Math.max(0, Math.round(bbox.y0 * sy)),
+        x1: Math.min(image.width, Math.round(bbox.x1 * sx)),
+        y1: Math.min(image.height, Math.round(bbox.y1 * sy))
+      }
+    }));
+  }
+}
+
+/**
+ * CRNN-style text line recognizer with CTC output
+ */
+export class OnnxCRNNRecognizer {
+  private config: OnnxRecognitionConfig;
+  private characters: string[];
+
+  constructor(private session: ort.InferenceSession, dictionary: string, config: Partial<OnnxRecognitionConfig> = {}) {
+    this.config = { ...DEFAULT_RECOGNITION_CONFIG, ...config };
+    this.characters = parseDictionary(dictionary, this.config.useSpaceChar);
+  }
+
+  static async load(model: ArrayBuffer, dictionary: string, config: Partial<OnnxRuntimeConfig> = {}): Promise<OnnxCRNNRecognizer> {
+    const fullConfig = { ...DEFAULT_CONFIG, ...config };
+    return new OnnxCRNNRecognizer(await createSession(model, 'recognition', fullConfig.numThreads), dictionary, fullConfig.recognition);
+  }
+
+  /**
+   * Read one text line
+   */
+  async recognize(image: ImageData): Promise<RecognizedLine> {
+    const { inputHeight, maxWidth } = this.config;
+    const width = Math.max(inputHeight / 2, Math.min(maxWidth, Math.ceil((image.width * inputHeight) / image.height)));
+    const input = resize(image, { width, height: inputHeight });
+
+    const outputs = await this.session.run({ [this.session.inputNames[0]]: toTensor(input, this.config) });
+    const output = outputs[this.session.outputNames[0]];
+    const [steps, classes] = output.dims.slice(-2);
+    if (classes !== this.characters.length) {
+      throw new OnnxModelError(`Recognition model has ${classes} classes but the dictionary gives ${this.characters.length}`);
+    }
+
+    const scores = output.data as Float32Array;
+    return ctcGreedyDecode(this.config.applySoftmax ? softmaxRows(scores, classes) : scores, steps, classes, this.characters);
+  }
+}
+
+/**
+ * OCR engine adapter running the ONNX models
+ */
+export class OnnxOCRAdapter implements OCREngineAdapter {
+  readonly name = 'ONNX Runtime (CRNN)';
+
+  constructor(
+    readonly recognizer: OnnxCRNNRecognizer,
+    readonly detector: OnnxDBNetDetector | null,
+    readonly models: OnnxModelBytes
+  ) {}
+
+  async recognize(image: OCREngineImage, options: OCREngineOptions = {}): Promise<DetectedText[]> {
+    const pixels = await toImageData(image);
+    const boxes: DetectedBox[] = this.detector
+      ? await this.detector.detect(pixels)
+      : detectTextRegions(pixels, { groupBy: 'line' }).map(region => ({ bbox: region.bbox, score: region.confidence }));
+
+    const results: DetectedText[] = [];
+    for (const { bbox } of boxes) {
+      options.signal?.throwIfAborted();
+      const line = await this.recognizer.recognize(crop(pixels, bbox.x0, bbox.y0, bbox.x1 - bbox.x0, bbox.y1 - bbox.y0));
+      const detected = toDetectedText(line.text, line.confidence * 100, bbox);
+      if (detected) results.push(detected);
+    }
+    return results;
+  }
+}
+
+/**
+ * Load the ONNX models and register them as the 'trocr' engine
+ */
+export async function registerOnnxOCREngine(
+  models: OnnxModelBytes,
+  config: Partial<OnnxRuntimeConfig> = {}
+): Promise<OnnxOCRAdapter> {
+  const recognizer = await OnnxCRNNRecognizer.load(models.recognition, models.dictionary, config);
+  const detector = models.detection ? await OnnxDBNetDetector.load(models.detection, config) : null;
+  const adapter = new OnnxOCRAdapter(recognizer, detector, models);
+  registerOCREngine('trocr', adapter);
+  return adapter;
+}
+
+/**
+ * The ONNX adapter registered as the 'trocr' engine, if any
+ */
+export function registeredOnnxAdapter(): OnnxOCRAdapter | null {
+  if (!isOCREngineRegistered('trocr')) return null;
+  const adapter = getOCREngine('trocr');
+  return adapter instanceof OnnxOCRAdapter ? adapter : null;
+}
+
+/**
+ * Boxes of the text regions of a probability map (map pixels)
+ */
+export function probabilityMapBoxes(
+  map: Float32Array,
+  width: number,
+  height: number,
+  config: Partial<OnnxDetectionConfig> = {}
+): DetectedBox[] {
+  const fullConfig = { ...DEFAULT_DETECTION_CONFIG, ...config };
+  const mask = new Uint8Array(map.length);
+  for (let p = 0; p < map.length; p++) {
+    mask[p] = map[p] > fullConfig.binaryThreshold ? 1 : 0;
+  }
+
+  const boxes: DetectedBox[] = [];
+  for (const { bbox } of labelComponents(mask, width, height)) {
+    if (Math.min(bbox.x1 - bbox.x0, bbox.y1 - bbox.y0) < fullConfig.minSize) continue;
+
+    // Mean probability over the box (PaddleOCR's fast box score)
+    let sum = 0;
+    for (let y = bbox.y0; y < bbox.y1; y++) {
+      for (let x = bbox.x0; x < bbox.x1; x++) sum += map[y * width + x];
+    }
+    const score = sum / ((bbox.x1 - bbox.x0) * (bbox.y1 - bbox.y0));
+    if (score < fullConfig.boxThreshold) continue;
+
+    const unclipped = unclipBox(bbox, fullConfig.unclipRatio);
+    boxes.push({
+      score,
+      bbox: {
+        x0: Math.max(0, unclipped.x0),
+        y0: Math.max(0, unclipped.y0),
+        x1: Math.min(width, unclipped.x1),
+        y1: Math.min(height, unclipped.y1)
+      }
+    });
+  }
+  return boxes;
+}
+
+/**
+ * Grow a shrunk text kernel back to the text box
+ * Every side moves out by area * ratio / perimeter, as in DBNet's unclip
+ */
+export function unclipBox(bbox: BBox, ratio: number = DEFAULT_DETECTION_CONFIG.unclipRatio): BBox {
+  const width = bbox.x1 - bbox.x0;
+  const height = bbox.y1 - bbox.y0;
+  const distance = (width * height * ratio) / (2 * (width + height));
+  return {
+    x0: Math.floor(bbox.x0 - distance),
+    y0: Math.floor(bbox.y0 - distance),
+    x1: Math.ceil(bbox.x1 + distance),
+    y1: Math.ceil(bbox.y1 + distance)
+  };
+}
+
+/**
+ * Greedy CTC decoding: best class per timestep, repeats collapsed, blanks (class 0) dropped
+ */
+export function ctcGreedyDecode(scores: ArrayLike<number>, steps: number, classes: number, characters: string[]): RecognizedLine {
+  let text = '';
+  let confidenceSum = 0;
+  let previous = 0;
+
+  for (let t = 0; t < steps; t++) {
+    let best = 0;
+    for (let c = 1; c < classes; c++) {
+      if (scores[t * classes + c] > scores[t * classes + best]) best = c;
+    }
+    if (best !== 0 && best !== previous) {
+      text += characters[best];
+      confidenceSum += scores[t * classes + best];
+    }
+    previous = best;
+  }
+
+  return { text, confidence: text.length > 0 ? confidenceSum / text.length : 0 };
+}
+
+/**
+ * Classes of a dictionary file: the CTC blank, one character per line, and optionally a space
+ */
+export function parseDictionary(dictionary: string, useSpaceChar: boolean = DEFAULT_RECOGNITION_CONFIG.useSpaceChar): string[] {
+  const characters = dictionary.split(/\r?\n/).filter(line => line.length > 0);
+  return ['', ...characters, ...(useSpaceChar ? [' '] : [])];
+}
+
+function softmaxRows(scores: Float32Array, classes: number): Float32Array {
+  const output = new Float32Array(scores.length);
+  for (let row = 0; row < scores.length; row += classes) {
+    let max = -Infinity;
+    for (let c = 0; c < classes; c++) max = Math.max(max, scores[row + c]);
+    let sum = 0;
+    for (let c = 0; c < classes; c++) {
+      output[row + c] = Math.exp(scores[row + c] - max);
+      sum += output[row + c];
+    }
+    for (let c = 0; c < classes; c++) output[row + c] /= sum;
+  }
+  return output;
+}
+
+async function toImageData(image: OCREngineImage): Promise<ImageData> {
+  if (typeof image !== 'string') {
+    return readImageData(image);
+  }
+  const blob = await (await fetch(await toDataURL(image))).blob();
+  const bitmap = await createImageBitmap(blob);
+  try {
+    return readImageData(imageToCanvas(bitmap));
+  } finally {
+    bitmap.close();
+  }
+}
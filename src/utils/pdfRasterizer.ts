@@ -0,0 +1,152 @@
+/**
+ * PDF Rasterizer
+ *
+ * Many cadastral maps arrive as scanned PDFs, one sheet per page. Pages are
+ * rendered with pdf.js at a chosen resolution and handed to the pipeline
+ * like any other scan. The document is read from the file's bytes and the
+ * pdf.js worker is bundled with the app, so nothing is fetched over the
+ * network. pdf.js draws on a DOM canvas, so pages are rendered on the page
+ * and only the finished bitmap goes to the pipeline worker.
+ */
+
+import { GlobalWorkerOptions, PDFDocumentProxy, getDocument } from 'pdfjs-dist';
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { createCanvas, getContext2D } from './canvas';
+
+GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Configuration for rasterizing PDF pages
+export interface PdfRasterConfig {
+  dpi: number;       // Resolution the pages are rendered at
+  maxPixels: number; // Largest page raster; bigger pages are rendered at a lower resolution
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: PdfRasterConfig = {
+  dpi: 300,
+  maxPixels: 100_000_000
+};
+
+// Resolutions offered in the UI
+export const PDF_DPI_OPTIONS = [150, 200, 300, 400, 600];
+
+// PDF page units are points: 1/72 inch
+const POINTS_PER_INCH = 72;
+
+// One rendered page
+export interface RasterizedPage {
+  page: number; // 1-based page number
+  dpi: number;  // Resolution actually used (lower than asked when capped by maxPixels)
+  image: ImageBitmap;
+}
+
+/**
+ * Check whether a file is a PDF (by type, or by extension when the type is missing)
+ */
+export function isPdfFile(file: File): boolean {
+  return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+}
+
+/**
+ * Open a PDF from its bytes
+ */
+export async function openPdf(file: Blob): Promise<PDFDocumentProxy> {
+  const data = new Uint8Array(await file.arrayBuffer());
+  const pdfDocument = await getDocument({ data, isEvalSupported: false }).promise;
+  console.log(`Opened PDF with ${pdfDocument.numPages} pages`);
+  return pdfDocument;
+}
+
+/**
+ * Parse a page selection like "1-3, 5" (empty or "all" selects every page)
+ * @throws Error for malformed ranges and pages outside the document
+ */
+export function parsePageSelection(selection: string, pageCount: number): number[] {
+  const trimmed = selection.trim().toLowerCase();
+  if (trimmed === '' || trimmed === 'all') {
+    return Array.from({ length: pageCount }, (_, index) => index + 1);
+  }
+
+  const pages = new Set<number>();
+  for (const part of trimmed.split(',')) {
+    const match = part.trim().match(/^(\d+)(?:\s*-\s*(\d+))?$/);
+    const first = match ? Number(match[1]) : NaN;
+    const last = match?.[2] !== undefined ? Number(match[2]) : first;
+    if (!match || first > last) throw new Error(`Invalid page range '${part.trim()}'`);
+    if (first < 1 || last > pageCount) {
+      throw new Error(`Pages ${part.trim()} are outside 1-${pageCount}`);
+    }
+    for (let page = first; page <= last; page++) pages.add(page);
+  }
+  return [...pages].sort((a, b) => a - b);
+}
+
+/**
+ * Render one page of a PDF at the configured resolution
+ * @throws DOMException named 'AbortError' when `signal` aborts
+ */
+export async function rasterizePdfPage(
+  pdfDocument: PDFDocumentProxy,
+  pageNumber: number,
+  config: Partial<PdfRasterConfig> = {},
+  signal?: AbortSignal
+): Promise<RasterizedPage> {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  signal?.throwIfAborted();
+  const page = await pdfDocument.getPage(pageNumber);
+
+  // Cap the raster size: a large sheet at a high DPI exceeds the canvas limits
+  const size = page.getViewport({ scale: 1 });
+  let scale = fullConfig.dpi / POINTS_PER_INCH;
+  const pixels = size.width * size.height * scale * scale;
+  if (pixels > fullConfig.maxPixels) {
+    scale *= Math.sqrt(fullConfig.maxPixels / pixels);
+    console.warn(`Page ${pageNumber} is too large for ${fullConfig.dpi} DPI; rendering at ${Math.round(scale * POINTS_PER_INCH)} DPI`);
+  }
+
+  const viewport = page.getViewport({ scale });
+  const canvas = createCanvas(Math.floor(viewport.width), Math.floor(viewport.height));
+  const task = page.render({
+    canvasContext: getContext2D(canvas) as CanvasRenderingContext2D,
+    viewport,
+    background: 'white'
+  });
+  const cancel = () => task.cancel();
+  signal?.addEventListener('abort', cancel);
+
+  try {
+    await task.promise;
+  } catch (error) {
+    if (signal?.aborted) throw new DOMException('PDF rendering was cancelled', 'AbortError');
+    throw error;
+  } finally {
+    signal?.removeEventListener('abort', cancel);
+    page.cleanup();
+  }
+
+  const image = await createImageBitmap(canvas);
+  // Release the canvas memory now rather than at garbage collection
+  canvas.width = 0;
+  canvas.height = 0;
+
+  const dpi = Math.round(scale * POINTS_PER_INCH);
+  console.log(`Rendered PDF page ${pageNumber} at ${dpi} DPI (${image.width}x${image.height})`);
+  return { page: pageNumber, dpi, image };
+}
+
+/**
+ * Open a PDF, render one page and close the document again
+ */
+export async function rasterizePdfFilePage(
+  file: Blob,
+  pageNumber: number,
+  config: Partial<PdfRasterConfig> = {},
+  signal?: AbortSignal
+): Promise<RasterizedPage> {
+  const pdfDocument = await openPdf(file);
+  try {
+    return await rasterizePdfPage(pdfDocument, pageNumber, config, signal);
+  } finally {
+    await pdfDocument.destroy();
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * Pipeline Definition
+ *
+ * An OCR pipeline is a fixed sequence of named stages (preprocess, detect,
+ * recognize, merge, correct, verify, export), each with a typed input and
+ * output. A PipelineDefinition supplies one implementation per stage; the
+ * runner executes them in order, reports per-stage progress and timing,
+ * and threads the shared pipeline config and cancellation signal through.
+ * Every run also emits structured events (stage started, finished,
+ * failed or skipped, steps a stage skipped because the config turns them
+ * off, and the work done inside a stage with an ETA) for live status
+ * displays.
+ */
+
+import { DetectedText } from './advancedOCR';
+import { SourceImage } from './canvas';
+import { ImageTile, ImprovedPreprocessingConfig, NUMBER_VERSION_CONFIG, TEXT_VERSION_CONFIG } from './improvedPreprocessing';
+import { NUMBER_PREPROCESSING_OPTIONS, PreprocessingOptions } from './enhancedPreprocessing';
+import { MapOCRConfig } from './mapSpecializedOCR';
+import { MultiEngineOCRConfig } from './multiEngineOCRImproved';
+import { NumberDetectionConfig, NumberVerification } from './numberDetection';
+import { OrientationConfig } from './textOrientation';
+import { ExpectedTermResult } from './expectedTerms';
+import { QualityAssessment } from './imageQuality';
+
+// Stage names, in execution order
+export const PIPELINE_STAGES = ['preprocess', 'detect', 'recognize', 'merge', 'correct', 'verify', 'export'] as const;
+
+export type PipelineStageName = typeof PIPELINE_STAGES[number];
+
+// Configuration shared by the stages of a run
+export interface PipelineConfig {
+  confidenceThreshold: number; // 0-1, minimum confidence of a read kept by any pass
+  fuzzyThreshold: number;      // Minimum similarity (0-1) for place-name fuzzy matching
+  useLLMCorrection: boolean;   // Expand short or unknown place names with Gemini
+  autoPreprocessing: boolean;  // Set threshold, CLAHE, sharpening and upscale from the measured image quality
+  map: Partial<MapOCRConfig>;                 // Map-specialized pass
+  textTiles: Partial<MultiEngineOCRConfig>;   // Text tile pass
+  numberTiles: Partial<MultiEngineOCRConfig>; // Number tile pass
+  numbers: Partial<NumberDetectionConfig>;    // Number region pass
+  textPreprocessing: Partial<ImprovedPreprocessingConfig>;   // Text tiles
+  numberPreprocessing: Partial<ImprovedPreprocessingConfig>; // Number tiles
+  numberRegionPreprocessing: PreprocessingOptions;           // Number regions
+  orientation: Partial<OrientationConfig>;                   // Rectified re-reads of rotated labels
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: PipelineConfig = {
+  confidenceThreshold: 0.85,
+  fuzzyThreshold: 0.8,
+  useLLMCorrection: true,
+  autoPreprocessing: true,
+  map: {
+    tesseractPSM: 11,                // Sparse text
+    rotateAngles: [0, 90, 180, 270],
+    blackTextOnly: true,
+    inkLayers: ['black'],
+    removeLines: true,
+    applyDeskew: true,
+    applyCLAHE: true,
+    applyMorphology: true
+  },
+  textTiles: {
+    paddleOCRUseAngleClassification: true, // For rotated text
+    tesseractPSM: 11,
+    filterByConfidence: true,
+    applyFuzzyMatching: true,
+    preprocessing: 'improved-text-2.8x'
+  },
+  numberTiles: {
+    useEasyOCR: false,               // EasyOCR is not as good for numbers
+    paddleOCRUseAngleClassification: true,
+    tesseractPSM: 7,                 // Isolated numbers
+    filterByConfidence: true,
+    applyFuzzyMatching: false,       // Don't fuzzy match numbers
+    preprocessing: 'improved-number-3x'
+  },
+  numbers: {},
+  textPreprocessing: TEXT_VERSION_CONFIG,
+  numberPreprocessing: NUMBER_VERSION_CONFIG,
+  numberRegionPreprocessing: NUMBER_PREPROCESSING_OPTIONS,
+  orientation: {}
+};
+
+// preprocess -> detect: the image and its preprocessed tiles
+export interface PreprocessedImage {
+  image: SourceImage;      // Original image, for passes that preprocess internally
+  textTiles: ImageTile[];  // Tiles for text recognition (empty if unused)
+  numberTiles: ImageTile[]; // Tiles for number recognition (empty if unused)
+}
+
+// detect -> recognize: everything the recognition passes read
+export interface DetectedRegions extends PreprocessedImage {
+  numberRegions: ImageTile[]; // Regions likely to hold survey numbers
+}
+
+// Reads of one recognition pass; 'mixed' passes contribute text and numbers
+export interface RecognitionPass {
+  name: string;
+  kind: 'text' | 'number' | 'mixed';
+  results: DetectedText[];
+}
+
+// correct -> verify
+export interface CorrectedResults {
+  detections: DetectedText[];
+  characters: string[];
+  numbers: string[];
+}
+
+// verify -> export
+export interface VerifiedResults extends CorrectedResults {
+  numberVerification: NumberVerification[];
+  expectedTerms?: ExpectedTermResult[];
+}
+
+// Time spent in one stage
+export interface StageTiming {
+  stage: PipelineStageName;
+  label: string;
+  durationMs: number;
+}
+
+// Facts about the sheet itself, measured while processing it
+export interface SheetInfo {
+  skewAngle?: number;      // Measured skew of the text lines (degrees, clockwise)
+  skewConfidence?: number; // 0-1
+  deskewed?: boolean;      // Whether the skew was corrected before recognition
+  lineLayer?: string;      // Removed boundary lines and hatching, as a PNG data URL (for parcel geometry)
+  quality?: QualityAssessment; // Measured image quality and the preprocessing preset it chose
+  page?: number;           // PDF page the sheet was rendered from (1-based)
+}
+
+// Work inside a stage (tiles, regions, labels, passes), reported as it goes
+export interface WorkProgress {
+  task: string;    // What is being worked through, e.g. a recognition pass
+  done: number;
+  total: number;
+  unit: string;    // What is counted ('tiles', 'regions', 'labels', 'passes', '%')
+  engine?: string; // Engine(s) doing the work
+}
+
+// Structured events of a run; elapsedMs counts from the start of the run
+export type PipelineEvent =
+  | { type: 'stage-started'; stage: PipelineStageName; label: string; elapsedMs: number }
+  | { type: 'stage-finished'; stage: PipelineStageName; label: string; elapsedMs: number; durationMs: number }
+  | { type: 'stage-failed'; stage: PipelineStageName; label: string; elapsedMs: number; durationMs: number; message: string; aborted: boolean }
+  | { type: 'stage-skipped'; stage: PipelineStageName; label: string; elapsedMs: number; reason: string; step?: string } // With `step`, only that step of the stage was skipped
+  | ({ type: 'work-progress'; stage: PipelineStageName; elapsedMs: number; etaMs?: number } & WorkProgress);
+
+export interface OCRResult {
+  characters: string[];
+  numbers: string[];
+  processingTime: number;
+  confidence: number;
+  detailedResults: DetectedText[];
+  numberVerification: NumberVerification[];
+  expectedTerms?: ExpectedTermResult[];
+  pipeline?: string;            // Name of the pipeline that produced the result
+  stageTimings?: StageTiming[];
+  sheet?: SheetInfo;
+}
+
+// What every stage can read and report while it runs
+export interface PipelineContext {
+  config: PipelineConfig;
+  expectedTerms: string;     // User's expected-terms checklist
+  startTime: number;
+  signal?: AbortSignal;
+  sheet: SheetInfo;          // Filled in by the stages that measure the sheet
+  reportProgress(fraction: number): void; // 0-1 within the current stage
+  reportWork(work: WorkProgress): void;   // Report `done` 0 first, so the ETA has a start time
+  reportSkipped(step: string, reason: string): void; // A step of the current stage did nothing (e.g. turned off in the config)
+  emitPartial(pass: string, results: DetectedText[]): void;
+}
+
+// One stage implementation
+export interface PipelineStage<I, O> {
+  label: string;  // Shown while the stage runs
+  weight: number; // Relative share of the run's progress
+  run(input: I, context: PipelineContext): Promise<O>;
+}
+
+// One implementation per stage, typed so that each output feeds the next input
+export interface PipelineStages {
+  preprocess: PipelineStage<SourceImage, PreprocessedImage>;
+  detect: PipelineStage<PreprocessedImage, DetectedRegions>;
+  recognize: PipelineStage<DetectedRegions, RecognitionPass[]>;
+  merge: PipelineStage<RecognitionPass[], DetectedText[]>;
+  correct: PipelineStage<DetectedText[], CorrectedResults>;
+  verify: PipelineStage<CorrectedResults, VerifiedResults>;
+  export: PipelineStage<VerifiedResults, OCRResult>;
+}
+
+export interface PipelineDefinition {
+  name: string;
+  label: string;
+  description: string;
+  stages: PipelineStages;
+}
+
+// Callbacks for overall progress (0-100), stage changes, partial results and structured events
+export interface PipelineCallbacks {
+  onProgress?: (progress: number) => void;
+  onStage?: (stage: PipelineStageName, label: string) => void;
+  onPartial?: (pass: string, results: DetectedText[]) => void;
+  onEvent?: (event: PipelineEvent) => void;
+}
+
+// Inputs of one run besides the image
+export interface PipelineRunOptions {
+  config?: Partial<PipelineConfig>;
+  expectedTerms?: string;
+  page?: number; // PDF page of the image, recorded on the sheet and every read
+  callbacks?: PipelineCallbacks;
+  signal?: AbortSignal;
+}
+
+/**
+ * Run a pipeline definition on an image
+ * @throws DOMException named 'AbortError' when `signal` is aborted
+ */
+export async function runPipeline(
+  definition: PipelineDefinition,
+  image: SourceImage,
+  options: PipelineRunOptions = {}
+): Promise<OCRResult> {
+  const { callbacks = {}, signal } = options;
+  const { stages } = definition;
+  const totalWeight = PIPELINE_STAGES.reduce((sum, name) => sum + stages[name].weight, 0) || 1;
+  const stageTimings: StageTiming[] = [];
+  let completedWeight = 0;
+  let currentWeight = 0;
+  let currentStage: PipelineStageName = PIPELINE_STAGES[0];
+  const taskStarts = new Map<string, number>();
+  const emit = (event: PipelineEvent) => callbacks.onEvent?.(event);
+  const elapsed = () => Date.now() - context.startTime;
+
+  const context: PipelineContext = {
+    config: { ...DEFAULT_CONFIG, ...options.config },
+    expectedTerms: options.expectedTerms ?? '',
+    startTime: Date.now(),
+    signal,
+    sheet: options.page !== undefined ? { page: options.page } : {},
+    reportProgress: fraction => {
+      const clamped = Math.min(Math.max(fraction, 0), 1);
+      callbacks.onProgress?.(((completedWeight + clamped * currentWeight) / totalWeight) * 100);
+    },
+    reportWork: work => {
+      // ETA from the pace of the task so far
+      const key = `${currentStage}:${work.task}`;
+      if (!taskStarts.has(key) || work.done === 0) taskStarts.set(key, Date.now());
+      const taskElapsed = Date.now() - taskStarts.get(key)!;
+      const etaMs = work.done > 0 && work.done < work.total
+        ? Math.round((taskElapsed / work.done) * (work.total - work.done))
+        : undefined;
+      emit({ type: 'work-progress', stage: currentStage, elapsedMs: elapsed(), etaMs, ...work });
+    },
+    reportSkipped: (step, reason) => {
+      console.log(`Skipped ${step}: ${reason}`);
+      emit({ type: 'stage-skipped', stage: currentStage, label: stages[currentStage].label, elapsedMs: elapsed(), reason, step });
+    },
+    emitPartial: (pass, results) => callbacks.onPartial?.(pass, results)
+  };
+
+  console.log(`Running OCR pipeline '${definition.name}'...`);
+
+  const runStage = async <I, O>(name: PipelineStageName, stage: PipelineStage<I, O>, input: I): Promise<O> => {
+    currentStage = name;
+    currentWeight = stage.weight;
+    callbacks.onStage?.(name, stage.label);
+    emit({ type: 'stage-started', stage: name, label: stage.label, elapsedMs: elapsed() });
+    context.reportProgress(0);
+
+    const stageStart = Date.now();
+    let output: O;
+    try {
+      signal?.throwIfAborted();
+      output = await stage.run(input, context);
+    } catch (error) {
+      // Report the failure, and every later stage as skipped
+      const aborted = error instanceof DOMException && error.name === 'AbortError';
+      emit({
+        type: 'stage-failed',
+        stage: name,
+        label: stage.label,
+        elapsedMs: elapsed(),
+        durationMs: Date.now() - stageStart,
+        message: error instanceof Error ? error.message : String(error),
+        aborted
+      });
+      for (const later of PIPELINE_STAGES.slice(PIPELINE_STAGES.indexOf(name) + 1)) {
+        emit({
+          type: 'stage-skipped',
+          stage: later,
+          label: stages[later].label,
+          elapsedMs: elapsed(),
+          reason: aborted ? 'Cancelled' : `${stage.label} failed`
+        });
+      }
+      throw error;
+    }
+    const durationMs = Date.now() - stageStart;
+
+    stageTimings.push({ stage: name, label: stage.label, durationMs });
+    emit({ type: 'stage-finished', stage: name, label: stage.label, elapsedMs: elapsed(), durationMs });
+    console.log(`Stage '${name}' finished in ${durationMs}ms`);
+
+    completedWeight += stage.weight;
+    currentWeight = 0;
+    context.reportProgress(0);
+    return output;
+  };
+
+  const preprocessed = await runStage('preprocess', stages.preprocess, image);
+  const regions = await runStage('detect', stages.detect, preprocessed);
+  const passes = await runStage('recognize', stages.recognize, regions);
+  const merged = await runStage('merge', stages.merge, passes);
+  const corrected = await runStage('correct', stages.correct, merged);
+  const verified = await runStage('verify', stages.verify, corrected);
+  const result = await runStage('export', stages.export, verified);
+
+  return {
+    ...result,
+    pipeline: definition.name,
+    stageTimings,
+    sheet: context.sheet
+  };
+}
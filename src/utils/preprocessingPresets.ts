@@ -0,0 +1,184 @@
+/**
+ * Preprocessing Presets
+ *
+ * A preset is a named operator chain (see imageOperators.ts). Built-in
+ * presets are the chains the OCR paths already run (the ImagePreprocessor
+ * versions, the improved text/number tiles, map-specialized and black text
+ * preprocessing, number regions); users tune chains in the preprocessing
+ * playground and save their own in localStorage. A processing profile can
+ * run a preset on the text or number tiles; it keeps a copy of the steps.
+ */
+
+import { z } from 'zod';
+import { OPERATOR_DEFAULTS, OPERATOR_PARAM_RANGES, OperatorName, OperatorStep, ParamRange } from './imageOperators';
+import { PROCESSED_VERSIONS, processedVersionChain } from './imagePreprocessing';
+import { NUMBER_VERSION_CONFIG, PresetChain, TEXT_VERSION_CONFIG, improvedPreprocessingChain } from './improvedPreprocessing';
+import { NUMBER_PREPROCESSING_OPTIONS, preprocessingChain } from './enhancedPreprocessing';
+import { mapPreprocessingChain } from './mapSpecializedOCR';
+import { blackTextChain } from './blackTextExtraction';
+
+// Configuration for preset storage
+interface PresetStorageConfig {
+  storageKey: string;
+}
+
+// Default configuration
+const DEFAULT_STORAGE_CONFIG: PresetStorageConfig = {
+  storageKey: 'cadastral-ocr.preprocessing-presets'
+};
+
+export interface PreprocessingPreset {
+  name: string;
+  description?: string;
+  steps: OperatorStep[];
+  builtIn?: boolean; // Shipped with the app; cannot be overwritten or deleted
+}
+
+// One step: a known operator with in-range parameters
+const stepSchema = z.object({
+  op: z.enum(Object.keys(OPERATOR_DEFAULTS) as [OperatorName, ...OperatorName[]]),
+  params: z.record(z.number()).optional()
+}).strict().superRefine((step, context) => {
+  const ranges: Record<string, ParamRange> = OPERATOR_PARAM_RANGES[step.op];
+  for (const [key, value] of Object.entries(step.params ?? {})) {
+    const range = ranges[key];
+    if (!range) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['params', key], message: `'${step.op}' has no parameter '${key}'` });
+    } else if (value < range.min || value > range.max) {
+      context.addIssue({ code: z.ZodIssueCode.custom, path: ['params', key], message: `Must be between ${range.min} and ${range.max}` });
+    }
+  }
+});
+
+const presetSchema = z.object({
+  name: z.string().trim().min(1, 'Preset name is required').max(80),
+  description: z.string().max(500).optional(),
+  steps: z.array(stepSchema).min(1, 'A preset needs at least one step')
+}).strict();
+
+// A preset copied into a pipeline config (see PresetChain)
+export const presetChainSchema = presetSchema.omit({ description: true }) as z.ZodType<PresetChain>;
+
+/**
+ * Raised when a preset does not validate
+ */
+export class PresetValidationError extends Error {
+  constructor(message: string) {
+    super(`Invalid preprocessing preset: ${message}`);
+    this.name = 'PresetValidationError';
+  }
+}
+
+// Presets shipped with the app: the chains the OCR paths run
+const builtInChains: Omit<PreprocessingPreset, 'builtIn'>[] = [
+  ...PROCESSED_VERSIONS.map(version => ({
+    name: `Advanced OCR: ${version.name}`,
+    description: 'One of the versions the advanced OCR engine reads',
+    steps: processedVersionChain(version.params).steps
+  })),
+  {
+    name: 'Improved text tiles',
+    description: 'Text tiles of the combined pipeline',
+    steps: [
+      { op: 'resize', params: { scale: TEXT_VERSION_CONFIG.upscaleFactor } },
+      ...improvedPreprocessingChain(TEXT_VERSION_CONFIG).steps
+    ]
+  },
+  {
+    name: 'Improved number tiles',
+    description: 'Number tiles of the combined pipeline',
+    steps: [
+      { op: 'resize', params: { scale: NUMBER_VERSION_CONFIG.upscaleFactor } },
+      ...improvedPreprocessingChain(NUMBER_VERSION_CONFIG).steps
+    ]
+  },
+  {
+    name: 'Number regions',
+    description: 'Regions searched for survey numbers',
+    steps: [
+      { op: 'resize', params: { width: NUMBER_PREPROCESSING_OPTIONS.resizeWidth } },
+      ...preprocessingChain(NUMBER_PREPROCESSING_OPTIONS).steps
+    ]
+  },
+  {
+    name: 'Map-specialized',
+    description: 'Black text only, CLAHE and morphology, as read by the map-specialized engines',
+    steps: mapPreprocessingChain().steps
+  },
+  {
+    name: 'Black text extraction',
+    description: 'Black pixels only, contrast, noise removal and thicker strokes',
+    steps: blackTextChain().steps
+  }
+];
+
+export const BUILT_IN_PRESETS: PreprocessingPreset[] = builtInChains.map(preset => ({ ...preset, builtIn: true }));
+
+/**
+ * Validate a preset
+ * @throws PresetValidationError if the preset does not validate
+ */
+export function parsePreset(input: unknown): PreprocessingPreset {
+  const result = presetSchema.safeParse(input);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw new PresetValidationError(`${issue.path.join('.') || 'preset'}: ${issue.message}`);
+  }
+  return result.data as PreprocessingPreset;
+}
+
+/**
+ * Load the saved presets, after the built-in ones
+ * Saved presets that no longer validate are skipped
+ */
+export function loadPresets(): PreprocessingPreset[] {
+  const saved: PreprocessingPreset[] = [];
+
+  for (const entry of readStoredPresets()) {
+    try {
+      saved.push(parsePreset(entry));
+    } catch (error) {
+      console.warn('Skipping invalid saved preprocessing preset:', error);
+    }
+  }
+
+  return [...BUILT_IN_PRESETS, ...saved];
+}
+
+/**
+ * Save (or replace) a user preset
+ * @throws PresetValidationError if the preset does not validate or would replace a built-in one
+ */
+export function savePreset(preset: PreprocessingPreset): PreprocessingPreset {
+  const { builtIn, ...rest } = preset;
+  const parsed = parsePreset(rest);
+  if (BUILT_IN_PRESETS.some(entry => entry.name.toLowerCase() === parsed.name.toLowerCase())) {
+    throw new PresetValidationError(`'${parsed.name}' is a built-in preset; choose another name`);
+  }
+
+  const stored = readStoredPresets().filter(entry => entry.name !== parsed.name);
+  writeStoredPresets([...stored, parsed]);
+  return parsed;
+}
+
+/**
+ * Delete a user preset (built-in presets cannot be deleted)
+ */
+export function deletePreset(name: string): void {
+  writeStoredPresets(readStoredPresets().filter(entry => entry.name !== name));
+}
+
+function readStoredPresets(): PreprocessingPreset[] {
+  try {
+    const raw = localStorage.getItem(DEFAULT_STORAGE_CONFIG.storageKey);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Could not read saved preprocessing presets:', error);
+    return [];
+  }
+}
+
+function writeStoredPresets(presets: PreprocessingPreset[]): void {
+  localStorage.setItem(DEFAULT_STORAGE_CONFIG.storageKey, JSON.stringify(presets));
+}
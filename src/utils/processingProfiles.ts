@@ -0,0 +1,350 @@
+/**
+ * Processing Profiles
+ *
+ * A profile is a named pipeline plus a full pipeline config (map OCR,
+ * multi-engine tile passes, tile and number-region preprocessing). Built-in
+ * profiles cover common sheet types; users can save their own in
+ * localStorage and move them between machines as JSON. Every config that
+ * enters through the settings panel or an import is validated first.
+ */
+
+import { z } from 'zod';
+import { DEFAULT_CONFIG, PipelineConfig } from './pipelineDefinition';
+import { DEFAULT_PIPELINE, PIPELINES } from './ocrPipeline';
+import { INK_LAYERS } from './colorLayers';
+import { THRESHOLD_TYPES } from './enhancedPreprocessing';
+import { presetChainSchema } from './preprocessingPresets';
+
+// Configuration for profile storage
+interface ProfileStorageConfig {
+  storageKey: string;
+  fileVersion: number;
+}
+
+// Default configuration
+const DEFAULT_STORAGE_CONFIG: ProfileStorageConfig = {
+  storageKey: 'cadastral-ocr.processing-profiles',
+  fileVersion: 1
+};
+
+const fraction = z.number().min(0).max(1);
+const psm = z.number().int().min(0).max(13);
+
+// MapOCRConfig (without the run's abort signal and callbacks)
+const mapOCRSchema = z.object({
+  useTrOCR: z.boolean(),
+  useLayoutLM: z.boolean(),
+  usePaddleOCR: z.boolean(),
+  useTesseract: z.boolean(),
+  tesseractPSM: psm,
+  rotateAngles: z.array(z.number().int().min(0).max(359)).min(1, 'At least one angle is required'),
+  blackTextOnly: z.boolean(),
+  inkLayers: z.array(z.enum(INK_LAYERS)).min(1, 'At least one ink layer is required'),
+  removeLines: z.boolean(),
+  applyDeskew: z.boolean(),
+  applyCLAHE: z.boolean(),
+  applyMorphology: z.boolean(),
+  confidenceThreshold: fraction
+}).partial().strict();
+
+// MultiEngineOCRConfig (without the run's abort signal and callbacks)
+const multiEngineSchema = z.object({
+  usePaddleOCR: z.boolean(),
+  useEasyOCR: z.boolean(),
+  useTesseract: z.boolean(),
+  confidenceThreshold: fraction,
+  paddleOCRUseAngleClassification: z.boolean(),
+  tesseractPSM: psm,
+  filterByConfidence: z.boolean(),
+  applyFuzzyMatching: z.boolean(),
+  useConsensus: z.boolean(),
+  preprocessing: z.string()
+}).partial().strict();
+
+// NumberDetectionConfig (without the run's abort signal and callbacks)
+const numberDetectionSchema = z.object({
+  engine: z.enum(['paddleocr', 'easyocr', 'tesseract', 'trocr', 'layoutlm']),
+  enableMultiplePreprocessing: z.boolean(),
+  enableRegionExtraction: z.boolean(),
+  confidenceThreshold: fraction,
+  useRegexValidation: z.boolean()
+}).partial().strict();
+
+// ImprovedPreprocessingConfig
+const improvedPreprocessingSchema = z.object({
+  upscaleFactor: z.number().min(1).max(6),
+  applyCLAHE: z.boolean(),
+  applyThresholding: z.boolean(),
+  thresholdType: z.enum(THRESHOLD_TYPES),
+  applySharpen: z.boolean(),
+  tileImage: z.boolean(),
+  tileSize: z.number().int().min(100).max(4000),
+  tileOverlap: z.number().int().min(0).max(1000),
+  preset: presetChainSchema
+}).partial().strict().refine(
+  config => config.tileOverlap === undefined || config.tileSize === undefined || config.tileOverlap < config.tileSize,
+  { message: 'Tile overlap must be smaller than the tile size', path: ['tileOverlap'] }
+);
+
+// PreprocessingOptions
+const preprocessingOptionsSchema = z.object({
+  resize: z.boolean(),
+  resizeWidth: z.number().int().min(0).max(10000),
+  resizeHeight: z.number().int().min(0).max(10000),
+  grayscale: z.boolean(),
+  blur: z.boolean(),
+  blurRadius: z.number().int().min(0).max(10),
+  threshold: z.boolean(),
+  thresholdType: z.enum(THRESHOLD_TYPES),
+  thresholdValue: z.number().int().min(0).max(255),
+  sharpen: z.boolean(),
+  contrast: z.boolean(),
+  contrastFactor: z.number().min(0.1).max(5),
+  denoise: z.boolean(),
+  invert: z.boolean()
+}).partial().strict();
+
+// OrientationConfig
+const orientationSchema = z.object({
+  enabled: z.boolean(),
+  minAngle: z.number().min(0).max(90),
+  minElongation: z.number().min(1).max(20),
+  padding: z.number().int().min(0).max(100),
+  maxRegions: z.number().int().min(1).max(2000),
+  maxClusterGlyphs: z.number().int().min(2).max(200)
+}).partial().strict();
+
+// PipelineConfig
+export const pipelineConfigSchema = z.object({
+  confidenceThreshold: fraction,
+  fuzzyThreshold: fraction,
+  useLLMCorrection: z.boolean(),
+  autoPreprocessing: z.boolean(),
+  map: mapOCRSchema,
+  textTiles: multiEngineSchema,
+  numberTiles: multiEngineSchema,
+  numbers: numberDetectionSchema,
+  textPreprocessing: improvedPreprocessingSchema,
+  numberPreprocessing: improvedPreprocessingSchema,
+  numberRegionPreprocessing: preprocessingOptionsSchema,
+  orientation: orientationSchema
+}).strict();
+
+// A profile as stored and exported; the config may omit sections (defaults fill them)
+const profileSchema = z.object({
+  name: z.string().trim().min(1, 'Profile name is required').max(80),
+  description: z.string().max(500).optional(),
+  pipeline: z.string().refine(name => name in PIPELINES, name => ({ message: `Unknown pipeline '${name}'` })),
+  config: pipelineConfigSchema.partial()
+}).strict();
+
+// Exported profile file: one profile, a list, or { version, profiles }
+const profileFileSchema = z.union([
+  z.object({ version: z.number().int(), profiles: z.array(profileSchema) }).strict(),
+  z.array(profileSchema),
+  profileSchema
+]);
+
+export interface ProcessingProfile {
+  name: string;
+  description?: string;
+  pipeline: string;
+  config: PipelineConfig;
+  builtIn?: boolean; // Shipped with the app; cannot be overwritten or deleted
+}
+
+// A validation problem, located by its path in the profile (e.g. "config.map.tesseractPSM")
+export interface ProfileIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Raised when a profile or profile file does not validate
+ */
+export class ProfileValidationError extends Error {
+  readonly issues: ProfileIssue[];
+
+  constructor(issues: ProfileIssue[]) {
+    super(`Invalid processing profile: ${issues.map(issue => `${issue.path || 'profile'}: ${issue.message}`).join('; ')}`);
+    this.name = 'ProfileValidationError';
+    this.issues = issues;
+  }
+}
+
+// Profiles shipped with the app
+export const BUILT_IN_PROFILES: ProcessingProfile[] = [
+  {
+    name: 'Default',
+    description: 'Balanced settings for clean, black-ink cadastral scans',
+    pipeline: DEFAULT_PIPELINE,
+    config: DEFAULT_CONFIG,
+    builtIn: true
+  },
+  {
+    name: 'Faded blueprint',
+    description: 'Low-contrast, faded sheets: stronger upscaling and contrast, lower confidence cut-off, no black-only filter',
+    pipeline: DEFAULT_PIPELINE,
+    config: {
+      ...DEFAULT_CONFIG,
+      confidenceThreshold: 0.7,
+      autoPreprocessing: false,
+      map: { ...DEFAULT_CONFIG.map, blackTextOnly: false },
+      textPreprocessing: { ...DEFAULT_CONFIG.textPreprocessing, upscaleFactor: 3.2 },
+      numberPreprocessing: { ...DEFAULT_CONFIG.numberPreprocessing, upscaleFactor: 3.5 },
+      numberRegionPreprocessing: {
+        ...DEFAULT_CONFIG.numberRegionPreprocessing,
+        thresholdType: 'adaptive',
+        contrastFactor: 2.5
+      }
+    },
+    builtIn: true
+  },
+  {
+    name: 'Colour village map',
+    description: 'Coloured parcels and boundaries: black text only, morphology on, Otsu thresholding for numbers',
+    pipeline: 'map-specialized',
+    config: {
+      ...DEFAULT_CONFIG,
+      autoPreprocessing: false,
+      map: { ...DEFAULT_CONFIG.map, blackTextOnly: true, applyMorphology: true },
+      numberRegionPreprocessing: {
+        ...DEFAULT_CONFIG.numberRegionPreprocessing,
+        thresholdType: 'otsu',
+        denoise: true
+      }
+    },
+    builtIn: true
+  }
+];
+
+/**
+ * Validate a pipeline config (e.g. while editing it)
+ * Returns the issues found; an empty list means the config is valid
+ */
+export function validatePipelineConfig(config: unknown): ProfileIssue[] {
+  const result = pipelineConfigSchema.safeParse(config);
+  return result.success ? [] : toIssues(result.error);
+}
+
+/**
+ * Validate a profile and fill omitted config sections with the defaults
+ * @throws ProfileValidationError if the profile does not validate
+ */
+export function parseProfile(input: unknown): ProcessingProfile {
+  const result = profileSchema.safeParse(input);
+  if (!result.success) {
+    throw new ProfileValidationError(toIssues(result.error));
+  }
+  return toProfile(result.data);
+}
+
+/**
+ * Load the saved profiles, after the built-in ones
+ * Saved profiles that no longer validate are skipped
+ */
+export function loadProfiles(): ProcessingProfile[] {
+  const saved: ProcessingProfile[] = [];
+
+  for (const entry of readStoredProfiles()) {
+    try {
+      saved.push(parseProfile(entry));
+    } catch (error) {
+      console.warn('Skipping invalid saved processing profile:', error);
+    }
+  }
+
+  return [...BUILT_IN_PROFILES, ...saved];
+}
+
+/**
+ * Save (or replace) a user profile
+ * @throws ProfileValidationError if the profile does not validate or would replace a built-in one
+ */
+export function saveProfile(profile: ProcessingProfile): ProcessingProfile {
+  const parsed = parseProfile(stripBuiltIn(profile));
+  if (isBuiltInName(parsed.name)) {
+    throw new ProfileValidationError([{ path: 'name', message: `'${parsed.name}' is a built-in profile; choose another name` }]);
+  }
+
+  const stored = readStoredProfiles().filter(entry => entry.name !== parsed.name);
+  writeStoredProfiles([...stored, stripBuiltIn(parsed)]);
+  return parsed;
+}
+
+/**
+ * Delete a user profile (built-in profiles cannot be deleted)
+ */
+export function deleteProfile(name: string): void {
+  writeStoredProfiles(readStoredProfiles().filter(entry => entry.name !== name));
+}
+
+/**
+ * Serialize profiles to a JSON file
+ */
+export function exportProfiles(profiles: ProcessingProfile[]): string {
+  return JSON.stringify({
+    version: DEFAULT_STORAGE_CONFIG.fileVersion,
+    profiles: profiles.map(stripBuiltIn)
+  }, null, 2);
+}
+
+/**
+ * Parse a profile file (as written by exportProfiles, or a single profile)
+ * Imported profiles are not saved; pass them to saveProfile to keep them
+ * @throws ProfileValidationError if the file is not valid JSON or a profile does not validate
+ */
+export function importProfiles(json: string): ProcessingProfile[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new ProfileValidationError([{ path: '', message: 'File is not valid JSON' }]);
+  }
+
+  const result = profileFileSchema.safeParse(data);
+  if (!result.success) {
+    throw new ProfileValidationError(toIssues(result.error));
+  }
+
+  const file = result.data;
+  const profiles = Array.isArray(file) ? file : 'profiles' in file ? file.profiles : [file];
+  return profiles.map(toProfile);
+}
+
+function toProfile(data: z.infer<typeof profileSchema>): ProcessingProfile {
+  return {
+    name: data.name,
+    description: data.description,
+    pipeline: data.pipeline,
+    config: { ...DEFAULT_CONFIG, ...data.config }
+  };
+}
+
+function toIssues(error: z.ZodError): ProfileIssue[] {
+  return error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }));
+}
+
+function stripBuiltIn(profile: ProcessingProfile): ProcessingProfile {
+  const { builtIn, ...rest } = profile;
+  return rest;
+}
+
+function isBuiltInName(name: string): boolean {
+  return BUILT_IN_PROFILES.some(profile => profile.name.toLowerCase() === name.toLowerCase());
+}
+
+function readStoredProfiles(): ProcessingProfile[] {
+  try {
+    const raw = localStorage.getItem(DEFAULT_STORAGE_CONFIG.storageKey);
+    const parsed = raw ? JSON.parse(raw) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.warn('Could not read saved processing profiles:', error);
+    return [];
+  }
+}
+
+function writeStoredProfiles(profiles: ProcessingProfile[]): void {
+  localStorage.setItem(DEFAULT_STORAGE_CONFIG.storageKey, JSON.stringify(profiles));
+}
@@ -0,0 +1,83 @@
+/**
+ * Read Provenance
+ *
+ * Helpers that record where a DetectedText came from (engine, preprocessing
+ * variant, rotation, tile) and every post-processing step that rewrote its
+ * text or adjusted its confidence, so the original read is never lost.
+ */
+
+import { DetectedText, Provenance } from './advancedOCR';
+
+// Source fields that can be recorded on a read
+export type ProvenanceSource = Omit<Provenance, 'rawText' | 'corrections'>;
+
+/**
+ * Start a provenance record for a read that has none yet
+ */
+function ensureProvenance(detection: DetectedText): Provenance {
+  return detection.provenance ?? { rawText: detection.text, corrections: [] };
+}
+
+/**
+ * Record where a read came from (fields already recorded are kept unless given)
+ */
+export function recordSource(detection: DetectedText, source: ProvenanceSource): DetectedText {
+  const provenance = ensureProvenance(detection);
+  const defined = Object.fromEntries(
+    Object.entries(source).filter(([, value]) => value !== undefined)
+  ) as ProvenanceSource;
+
+  return {
+    ...detection,
+    provenance: { ...provenance, ...defined }
+  };
+}
+
+/**
+ * Apply a correction to a read and append it to the correction chain
+ * Returns the read unchanged if neither text nor confidence changes
+ */
+export function recordCorrection(
+  detection: DetectedText,
+  step: string,
+  text: string,
+  confidence: number
+): DetectedText {
+  if (text === detection.text && confidence === detection.confidence) {
+    return detection;
+  }
+
+  const provenance = ensureProvenance(detection);
+  return {
+    ...detection,
+    text,
+    confidence,
+    provenance: {
+      ...provenance,
+      corrections: [
+        ...provenance.corrections,
+        { step, from: detection.text, to: text, confidenceDelta: confidence - detection.confidence }
+      ]
+    }
+  };
+}
+
+/**
+ * One-line, human readable description of a provenance record
+ */
+export function describeProvenance(provenance: Provenance | undefined): string {
+  if (!provenance) return '';
+
+  const parts = [
+    provenance.engine && `engine ${provenance.engine}`,
+    provenance.preprocessing && `preprocessing ${provenance.preprocessing}`,
+    provenance.angle !== undefined && `angle ${provenance.angle}`,
+    provenance.tileId && `tile ${provenance.tileId}`,
+    `raw "${provenance.rawText}"`,
+    ...provenance.corrections.map(correction =>
+      `${correction.step}: "${correction.from}" -> "${correction.to}" (${correction.confidenceDelta >= 0 ? '+' : ''}${correction.confidenceDelta.toFixed(1)})`
+    )
+  ];
+
+  return parts.filter(Boolean).join('; ');
+}
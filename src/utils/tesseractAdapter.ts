@@ -0,0 +1,132 @@
+/**
+ * Tesseract.js Engine
+ *
+ * Wraps a tesseract.js worker so the page segmentation mode (PSM) is set
+ * for every recognition call, and exposes it as the 'tesseract' engine
+ * adapter. Calls are serialized on the worker so that the PSM of one call
+ * cannot leak into another running concurrently.
+ */
+
+import Tesseract from 'tesseract.js';
+import { DetectedText } from './advancedOCR';
+import { OCREngineAdapter, OCREngineImage, OCREngineOptions, toDataURL, toDetectedText } from './ocrEngineRegistry';
+
+// Parameters applied once when the worker is created
+export const DEFAULT_TESSERACT_PARAMETERS: Record<string, string> = {
+  tessedit_char_whitelist: 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789,.-()/ ',
+  preserve_interword_spaces: '1',
+  tessedit_do_invert: '0'
+};
+
+/**
+ * A tesseract.js worker that takes the PSM per call
+ */
+export class TesseractRecognizer {
+  private worker: Tesseract.Worker | null = null;
+  private initializing: Promise<Tesseract.Worker> | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+  private parameters: Record<string, string>;
+
+  constructor(parameters: Record<string, string> = DEFAULT_TESSERACT_PARAMETERS) {
+    this.parameters = parameters;
+  }
+
+  private async getWorker(): Promise<Tesseract.Worker> {
+    if (this.worker) return this.worker;
+
+    if (!this.initializing) {
+      this.initializing = (async () => {
+        console.log('Initializing Tesseract.js worker...');
+        const worker = await Tesseract.createWorker('eng', 1, {
+          errorHandler: err => console.error('Tesseract Error:', err)
+        });
+        await worker.setParameters(this.parameters);
+        this.worker = worker;
+        return worker;
+      })();
+      this.initializing.catch(() => {
+        this.initializing = null;
+      });
+    }
+
+    return this.initializing;
+  }
+
+  /**
+   * Run a job once every previously queued job has finished
+   */
+  private enqueue<T>(job: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(job, job);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Recognize an image with the given page segmentation mode
+   * A queued job whose signal is aborted is skipped
+   */
+  recognizePage(image: Tesseract.ImageLike, psm: number, signal?: AbortSignal): Promise<Tesseract.Page> {
+    return this.enqueue(async () => {
+      signal?.throwIfAborted();
+      const worker = await this.getWorker();
+      await worker.setParameters({ tessedit_pageseg_mode: String(psm) });
+      const result = await worker.recognize(image, {}, { text: true, blocks: true });
+      return result.data as Tesseract.Page;
+    });
+  }
+
+  async terminate(): Promise<void> {
+    const worker = this.worker;
+    this.worker = null;
+    this.initializing = null;
+    await worker?.terminate();
+  }
+}
+
+/**
+ * Flatten a recognized page into word-level detections
+ */
+export function extractWords(page: Tesseract.Page): DetectedText[] {
+  const results: DetectedText[] = [];
+
+  for (const block of page.blocks ?? []) {
+    for (const paragraph of block.paragraphs ?? []) {
+      for (const line of paragraph.lines ?? []) {
+        for (const word of line.words ?? []) {
+          const detected = toDetectedText(word.text.replace(/[^\w\s,.-]/g, ''), word.confidence, { ...word.bbox });
+          if (detected) {
+            results.push(detected);
+          }
+        }
+      }
+    }
+  }
+
+  return results;
+}
+
+/**
+ * The 'tesseract' engine adapter
+ */
+export class TesseractAdapter implements OCREngineAdapter {
+  readonly name = 'Tesseract.js';
+  private recognizer: TesseractRecognizer;
+  private defaultPSM: number;
+
+  constructor(recognizer: TesseractRecognizer = new TesseractRecognizer(), defaultPSM: number = 11) {
+    this.recognizer = recognizer;
+    this.defaultPSM = defaultPSM;
+  }
+
+  async recognize(image: OCREngineImage, options: OCREngineOptions = {}): Promise<DetectedText[]> {
+    const input = typeof HTMLCanvasElement !== 'undefined' && image instanceof HTMLCanvasElement
+      ? image
+      : await toDataURL(image);
+    const page = await this.recognizer.recognizePage(input, options.psm ?? this.defaultPSM, options.signal);
+    return extractWords(page);
+  }
+
+  terminate(): Promise<void> {
+    return this.recognizer.terminate();
+  }
+}
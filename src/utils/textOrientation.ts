@@ -0,0 +1,170 @@
+/**
+ * Per-Label Text Orientation
+ *
+ * Cadastral labels follow roads and parcel boundaries at arbitrary angles,
+ * so rotating the whole sheet by multiples of 90° misses most of them. For
+ * each label region this module measures the principal axis of its ink
+ * (the second moments of the dark pixels), fits the oriented rectangle
+ * around the ink along that axis, and cuts the label out rotated level so
+ * an engine reads it as horizontal text. Boxes read on the level crop are
+ * mapped back to rotated boxes in the image frame.
+ */
+
+import { RotatedBox } from './advancedOCR';
+import { BBox } from './geometry';
+import { Canvas, createCanvas, getContext2D } from './canvas';
+import { crop, luminance, otsuLevel } from './imageOperators';
+
+// Configuration for per-label orientation
+export interface OrientationConfig {
+  enabled: boolean;
+  minAngle: number;      // Labels tilted less than this (degrees) are left to the axis-aligned reads
+  minElongation: number; // Ratio of the principal axes below which the direction is ambiguous (blobs, single digits)
+  padding: number;       // Pixels added around a label when measuring and cutting it out
+  maxRegions: number;    // Largest number of labels measured per sheet
+  maxClusterGlyphs: number; // Glyph clusters larger than this are several lines run together and are not measured
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: OrientationConfig = {
+  enabled: true,
+  minAngle: 5,
+  minElongation: 2,
+  padding: 12,
+  maxRegions: 200,
+  maxClusterGlyphs: 20
+};
+
+export interface RegionOrientation {
+  angle: number;      // Clockwise angle of the text direction, -90 to 90 degrees
+  elongation: number; // Ratio of the principal axis lengths (1 = no preferred direction)
+  box: RotatedBox;    // Oriented rectangle around the ink, in the image frame
+}
+
+/**
+ * Measure the orientation of the ink inside a region of an image
+ * Returns null when the region holds no ink (or is all ink)
+ */
+export function estimateOrientation(image: ImageData, region: BBox, padding: number = DEFAULT_CONFIG.padding): RegionOrientation | null {
+  const x0 = Math.max(0, Math.floor(region.x0 - padding));
+  const y0 = Math.max(0, Math.floor(region.y0 - padding));
+  const patch = crop(image, x0, y0, region.x1 - region.x0 + 2 * padding, region.y1 - region.y0 + 2 * padding);
+  const gray = luminance(patch);
+  const level = otsuLevel(patch);
+
+  // First and second moments of the ink pixels
+  let count = 0, sumX = 0, sumY = 0;
+  for (let y = 0; y < patch.height; y++) {
+    for (let x = 0; x < patch.width; x++) {
+      if (gray[y * patch.width + x] <= level) {
+        count++;
+        sumX += x;
+        sumY += y;
+      }
+    }
+  }
+  if (count === 0 || count > gray.length * 0.6) return null;
+
+  const meanX = sumX / count;
+  const meanY = sumY / count;
+  let sxx = 0, syy = 0, sxy = 0;
+  for (let y = 0; y < patch.height; y++) {
+    for (let x = 0; x < patch.width; x++) {
+      if (gray[y * patch.width + x] <= level) {
+        const dx = x - meanX;
+        const dy = y - meanY;
+        sxx += dx * dx;
+        syy += dy * dy;
+        sxy += dx * dy;
+      }
+    }
+  }
+
+  // Principal axis (y grows downwards, so a positive angle is clockwise)
+  const theta = 0.5 * Math.atan2(2 * sxy, sxx - syy);
+  const spread = Math.sqrt((sxx - syy) * (sxx - syy) + 4 * sxy * sxy);
+  const major = (sxx + syy + spread) / 2;
+  const minor = (sxx + syy - spread) / 2;
+  const elongation = Math.sqrt(major / Math.max(minor, 1e-6));
+
+  // Extent of the ink along the axis and across it
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  let minU = Infinity, maxU = -Infinity, minV = Infinity, maxV = -Infinity;
+  for (let y = 0; y < patch.height; y++) {
+    for (let x = 0; x < patch.width; x++) {
+      if (gray[y * patch.width + x] <= level) {
+        const dx = x - meanX;
+        const dy = y - meanY;
+        const u = dx * cos + dy * sin;
+        const v = -dx * sin + dy * cos;
+        minU = Math.min(minU, u);
+        maxU = Math.max(maxU, u);
+        minV = Math.min(minV, v);
+        maxV = Math.max(maxV, v);
+      }
+    }
+  }
+
+  const midU = (minU + maxU) / 2;
+  const midV = (minV + maxV) / 2;
+  const angle = (theta * 180) / Math.PI;
+
+  return {
+    angle: Math.round(angle * 10) / 10,
+    elongation: Math.round(elongation * 100) / 100,
+    box: {
+      cx: x0 + meanX + midU * cos - midV * sin,
+      cy: y0 + meanY + midU * sin + midV * cos,
+      width: maxU - minU + 1,
+      height: maxV - minV + 1,
+      angle
+    }
+  };
+}
+
+/**
+ * Check whether a measured orientation calls for a rectified read
+ */
+export function needsRectification(orientation: RegionOrientation, config: Partial<OrientationConfig> = {}): boolean {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  return Math.abs(orientation.angle) >= fullConfig.minAngle && orientation.elongation >= fullConfig.minElongation;
+}
+
+/**
+ * Cut a rotated box out of a canvas, rotated level, on a white background
+ */
+export function rectifyRegion(canvas: Canvas, box: RotatedBox, padding: number = DEFAULT_CONFIG.padding): Canvas {
+  const rectified = createCanvas(Math.round(box.width + 2 * padding), Math.round(box.height + 2 * padding));
+  const ctx = getContext2D(rectified);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, rectified.width, rectified.height);
+
+  ctx.translate(rectified.width / 2, rectified.height / 2);
+  ctx.rotate((-box.angle * Math.PI) / 180);
+  ctx.drawImage(canvas, -box.cx, -box.cy);
+
+  return rectified;
+}
+
+/**
+ * Map a box read on a rectified crop back to a rotated box in the image frame
+ */
+export function rectifiedBboxToImage(
+  bbox: BBox,
+  box: RotatedBox,
+  rectified: { width: number; height: number }
+): RotatedBox {
+  const dx = (bbox.x0 + bbox.x1) / 2 - rectified.width / 2;
+  const dy = (bbox.y0 + bbox.y1) / 2 - rectified.height / 2;
+  const radians = (box.angle * Math.PI) / 180;
+  const cos = Math.cos(radians);
+  const sin = Math.sin(radians);
+  return {
+    cx: box.cx + dx * cos - dy * sin,
+    cy: box.cy + dx * sin + dy * cos,
+    width: bbox.x1 - bbox.x0,
+    height: bbox.y1 - bbox.y0,
+    angle: box.angle
+  };
+}
@@ -0,0 +1,277 @@
+/**
+ * Connected-Component Text Region Detection
+ *
+ * A classical text detector for when no detection model is available.
+ * The sheet is binarized against the local mean, ink pixels are labelled
+ * into 8-connected components, and components that do not look like
+ * glyphs are dropped: too small or too large, too elongated (parcel
+ * boundaries, hatching), too sparse (line junctions), or with strokes
+ * that are uneven or thick for their height (solid fills, symbols). The
+ * remaining glyphs are chained into words (neighbours of similar height on
+ * the same baseline) and the words into lines. Labels printed at an angle
+ * have no common baseline; for those, glyphs are clustered by distance in
+ * any direction instead.
+ */
+
+import { BBox } from './geometry';
+import { adaptiveThreshold, luminance } from './imageOperators';
+
+// Configuration for connected-component text detection
+export interface TextRegionConfig {
+  blockSize: number;            // Window of the adaptive threshold (pixels, odd)
+  thresholdOffset: number;      // Pixels darker than the local mean minus this are ink
+  minHeight: number;            // Glyph height limits (pixels)
+  maxHeight: number;
+  minArea: number;              // Fewer ink pixels than this is noise
+  maxAspect: number;            // Longer side over shorter side; longer components are lines
+  minFill: number;              // Ink pixels over box area, below this the component is a line junction
+  maxStrokeVariation: number;   // Deviation over mean of the stroke width
+  maxStrokeRatio: number;       // Mean stroke width over glyph height
+  wordGap: number;              // Largest gap between glyphs of a word, in glyph heights
+  lineGap: number;              // Largest gap between words of a line, in word heights
+  groupBy: 'word' | 'line' | 'cluster'; // Granularity of the returned regions ('cluster': nearby glyphs in any direction, for rotated labels)
+  padding: number;              // Pixels added around each region
+}
+
+// Default configuration
+export const DEFAULT_CONFIG: TextRegionConfig = {
+  blockSize: 31,
+  thresholdOffset: 10,
+  minHeight: 6,
+  maxHeight: 150,
+  minArea: 12,
+  maxAspect: 12,
+  minFill: 0.08,
+  maxStrokeVariation: 0.8,
+  maxStrokeRatio: 0.5,
+  wordGap: 0.8,
+  lineGap: 2,
+  groupBy: 'word',
+  padding: 4
+};
+
+// A connected component of ink pixels
+export interface InkComponent {
+  bbox: BBox;          // x1/y1 exclusive
+  area: number;        // Ink pixels
+  strokeWidth: number; // Mean stroke width (pixels)
+  strokeVariation: number;
+}
+
+// A group of glyphs: a word or a line
+export interface TextRegionBox {
+  bbox: BBox;
+  components: number;
+  confidence: number;  // 0-1, from the number of glyphs and how regular their strokes are
+}
+
+/**
+ * Binarize an image against the local mean: 1 = ink, 0 = background
+ */
+export function binarizeInk(image: ImageData, config: Partial<TextRegionConfig> = {}): Uint8Array {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const gray = luminance(adaptiveThreshold(image, fullConfig.blockSize, fullConfig.thresholdOffset));
+  const ink = new Uint8Array(gray.length);
+  for (let p = 0; p < gray.length; p++) {
+    ink[p] = gray[p] < 128 ? 1 : 0;
+  }
+  return ink;
+}
+
+/**
+ * Label the 8-connected components of a binary mask
+ * The stroke width at an ink pixel is the shorter of its horizontal and
+ * vertical run lengths
+ */
+export function labelComponents(ink: Uint8Array, width: number, height: number): InkComponent[] {
+  const strokes = strokeWidths(ink, width, height);
+  const labels = new Int32Array(ink.length);
+  const stack: number[] = [];
+  const components: InkComponent[] = [];
+
+  for (let start = 0; start < ink.length; start++) {
+    if (!ink[start] || labels[start]) continue;
+
+    const label = components.length + 1;
+    let x0 = width, y0 = height, x1 = 0, y1 = 0;
+    let area = 0, strokeSum = 0, strokeSquares = 0;
+    labels[start] = label;
+    stack.push(start);
+
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      const x = p % width;
+      const y = (p - x) / width;
+      area++;
+      strokeSum += strokes[p];
+      strokeSquares += strokes[p] * strokes[p];
+      x0 = Math.min(x0, x);
+      y0 = Math.min(y0, y);
+      x1 = Math.max(x1, x + 1);
+      y1 = Math.max(y1, y + 1);
+
+      for (let dy = -1; dy <= 1; dy++) {
+        const ny = y + dy;
+        if (ny < 0 || ny >= height) continue;
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          if (nx < 0 || nx >= width) continue;
+          const q = ny * width + nx;
+          if (ink[q] && !labels[q]) {
+            labels[q] = label;
+            stack.push(q);
+          }
+        }
+      }
+    }
+
+    const strokeWidth = strokeSum / area;
+    const variance = Math.max(0, strokeSquares / area - strokeWidth * strokeWidth);
+    components.push({
+      bbox: { x0, y0, x1, y1 },
+      area,
+      strokeWidth,
+      strokeVariation: Math.sqrt(variance) / strokeWidth
+    });
+  }
+
+  return components;
+}
+
+/**
+ * Check whether a component is shaped like a glyph
+ */
+export function isGlyph(component: InkComponent, config: Partial<TextRegionConfig> = {}): boolean {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const { bbox, area, strokeWidth, strokeVariation } = component;
+  const width = bbox.x1 - bbox.x0;
+  const height = bbox.y1 - bbox.y0;
+  const fill = area / (width * height);
+
+  return height >= fullConfig.minHeight &&
+    height <= fullConfig.maxHeight &&
+    area >= fullConfig.minArea &&
+    Math.max(width, height) / Math.min(width, height) <= fullConfig.maxAspect &&
+    fill >= fullConfig.minFill &&
+    strokeVariation <= fullConfig.maxStrokeVariation &&
+    strokeWidth <= fullConfig.maxStrokeRatio * height;
+}
+
+/**
+ * Detect text regions (words or lines) in an image
+ */
+export function detectTextRegions(image: ImageData, config: Partial<TextRegionConfig> = {}): TextRegionBox[] {
+  const fullConfig = { ...DEFAULT_CONFIG, ...config };
+  const { width, height } = image;
+
+  const components = labelComponents(binarizeInk(image, fullConfig), width, height);
+  const glyphs = components.filter(component => isGlyph(component, fullConfig));
+  console.log(`Kept ${glyphs.length} of ${components.length} connected components as glyphs`);
+
+  const glyphBoxes = glyphs.map(glyph => ({
+    bbox: glyph.bbox,
+    components: 1,
+    confidence: Math.max(0, 1 - glyph.strokeVariation / fullConfig.maxStrokeVariation / 2)
+  }));
+  let regions = groupBoxes(glyphBoxes, fullConfig.wordGap, fullConfig.groupBy !== 'cluster');
+  if (fullConfig.groupBy === 'line') {
+    regions = groupBoxes(regions, fullConfig.lineGap, true);
+  }
+
+  return regions.map(region => ({
+    ...region,
+    // A lone glyph is as likely a symbol as a character
+    confidence: Math.round(region.confidence * Math.min(1, 0.5 + region.components / 6) * 100) / 100,
+    bbox: {
+      x0: Math.max(0, region.bbox.x0 - fullConfig.padding),
+      y0: Math.max(0, region.bbox.y0 - fullConfig.padding),
+      x1: Math.min(width, region.bbox.x1 + fullConfig.padding),
+      y1: Math.min(height, region.bbox.y1 + fullConfig.padding)
+    }
+  }));
+}
+
+/**
+ * Chain boxes that have a similar height and are at most `gap` heights
+ * apart into groups; with `sameBaseline` they must also overlap vertically
+ * by half their height (horizontal text), otherwise the gap is measured in
+ * any direction (text at an angle)
+ */
+function groupBoxes(boxes: TextRegionBox[], gap: number, sameBaseline: boolean): TextRegionBox[] {
+  const sorted = [...boxes].sort((a, b) => a.bbox.x0 - b.bbox.x0);
+  const parents = sorted.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parents[i] !== i) {
+      parents[i] = parents[parents[i]];
+      i = parents[i];
+    }
+    return i;
+  };
+
+  for (let i = 0; i < sorted.length; i++) {
+    const a = sorted[i].bbox;
+    const heightA = a.y1 - a.y0;
+    // Partners are at most twice as tall, so nothing starts further right than this
+    const reach = a.x1 + gap * 2 * heightA;
+
+    for (let j = i + 1; j < sorted.length && sorted[j].bbox.x0 <= reach; j++) {
+      const b = sorted[j].bbox;
+      const heightB = b.y1 - b.y0;
+      const overlap = Math.min(a.y1, b.y1) - Math.max(a.y0, b.y0);
+      if (Math.max(heightA, heightB) > 2 * Math.min(heightA, heightB)) continue;
+      if (sameBaseline && overlap < 0.5 * Math.min(heightA, heightB)) continue;
+      if (Math.max(b.x0 - a.x1, -overlap) > gap * Math.max(heightA, heightB)) continue;
+      parents[find(j)] = find(i);
+    }
+  }
+
+  const groups = new Map<number, TextRegionBox>();
+  sorted.forEach((box, i) => {
+    const root = find(i);
+    const group = groups.get(root);
+    if (!group) {
+      groups.set(root, { ...box, bbox: { ...box.bbox } });
+      return;
+    }
+    group.confidence = (group.confidence * group.components + box.confidence * box.components) /
+      (group.components + box.components);
+    group.components += box.components;
+    group.bbox.x0 = Math.min(group.bbox.x0, box.bbox.x0);
+    group.bbox.y0 = Math.min(group.bbox.y0, box.bbox.y0);
+    group.bbox.x1 = Math.max(group.bbox.x1, box.bbox.x1);
+    group.bbox.y1 = Math.max(group.bbox.y1, box.bbox.y1);
+  });
+
+  return [...groups.values()];
+}
+
+/**
+ * Horizontal and vertical ink run lengths, the shorter one per pixel
+ */
+function strokeWidths(ink: Uint8Array, width: number, height: number): Uint16Array {
+  const widths = new Uint16Array(ink.length);
+
+  for (let y = 0; y < height; y++) {
+    let x = 0;
+    while (x < width) {
+      if (!ink[y * width + x]) { x++; continue; }
+      const start = x;
+      while (x < width && ink[y * width + x]) x++;
+      for (let k = start; k < x; k++) widths[y * width + k] = x - start;
+    }
+  }
+
+  for (let x = 0; x < width; x++) {
+    let y = 0;
+    while (y < height) {
+      if (!ink[y * width + x]) { y++; continue; }
+      const start = y;
+      while (y < height && ink[y * width + x]) y++;
+      for (let k = start; k < y; k++) {
+        widths[k * width + x] = Math.min(widths[k * width + x], y - start);
+      }
+    }
+  }
+
+  return widths;
+}
@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Base URLs of PaddleOCR-style OCR servers (see src/utils/httpOCRAdapter.ts)
+  readonly VITE_PADDLEOCR_URL?: string;
+  readonly VITE_EASYOCR_URL?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
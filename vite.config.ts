@@ -19,4 +19,8 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  worker: {
+    // The OCR pipeline worker is an ES module (code-split engine imports)
+    format: "es",
+  },
 }));